@@ -19,6 +19,7 @@ import { AlarmProvider, useAlarmContext } from './src/context/AlarmContext';
 
 // Services
 import { NotificationService } from './src/services/NotificationService';
+import { StorageService } from './src/services/StorageService';
 
 // Hooks
 import { useNotificationListener, useAlarmScheduler } from './src/hooks';
@@ -27,6 +28,19 @@ import { useNotificationListener, useAlarmScheduler } from './src/hooks';
 import { AlarmListScreen } from './src/screens/AlarmListScreen';
 import { AlarmEditScreen } from './src/screens/AlarmEditScreen';
 import { SettingsScreen } from './src/screens/SettingsScreen';
+import { ExceptionListsScreen } from './src/screens/ExceptionListsScreen';
+import { UpcomingScreen } from './src/screens/UpcomingScreen';
+import { ChainsScreen } from './src/screens/ChainsScreen';
+
+// Utils
+import {
+  formatDateString,
+  getAlarmCalendarDay,
+  getSnoozeMinutes,
+  hasSnoozesLeft,
+  isAlarmExpired,
+  isRepeatingAlarm,
+} from './src/utils/timeCalculations';
 
 // Types
 import { RootStackParamList } from './src/types/alarm.types';
@@ -42,14 +56,14 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
  * Must be inside AlarmProvider to access context
  */
 const AppContent: React.FC = () => {
-  const { getAlarmById, updateAlarm } = useAlarmContext();
-  const { scheduleSnooze, rescheduleRepeatingAlarm, cancelSchedule } = useAlarmScheduler();
+  const { getAlarmById, updateAlarm, clock, exceptionLists, chains, advanceChain } = useAlarmContext();
+  const { scheduleSnooze, topUpAlarm, cancelNags } = useAlarmScheduler();
   
   /**
    * Set up notification listeners for snooze and dismiss actions
    */
   useNotificationListener({
-    onSnooze: async (alarmId: string) => {
+    onSnooze: async (alarmId: string, snoozeCount: number, minutes?: number) => {
       try {
         console.log('[App] Snooze action for alarm:', alarmId);
         
@@ -64,57 +78,122 @@ const AppContent: React.FC = () => {
           return;
         }
         
-        // Cancel old notification first to prevent duplicates
-        if (alarm.notificationId) {
-          await cancelSchedule(alarm.notificationId);
-          console.log('[App] Cancelled old notification:', alarm.notificationId);
+        // Older notifications may still offer Snooze after the limit was reached
+        if (!hasSnoozesLeft(alarm, snoozeCount)) {
+          console.warn('[App] Snooze limit reached for alarm:', alarmId, snoozeCount);
+          return;
         }
         
-        // Schedule snooze with alarm's custom duration
-        const notificationId = await scheduleSnooze(alarm, alarm.snoozeDuration);
+        // Snoozing answers the ring, so nag mode stops re-ringing it
+        const remainingIds = await cancelNags(alarm);
+        
+        // Drop fired notifications and keep future occurrences booked
+        const notificationIds = await topUpAlarm({ ...alarm, notificationIds: remainingIds });
         
-        // Update alarm with new notification ID
-        await updateAlarm(alarmId, { notificationId });
+        // Schedule snooze for the picked length, else the alarm's (possibly progressive) duration
+        const snoozeNumber = snoozeCount + 1;
+        const snoozeMinutes = minutes ?? getSnoozeMinutes(alarm, snoozeNumber);
+        const snoozeId = await scheduleSnooze(alarm, snoozeMinutes, snoozeNumber);
         
-        console.log('[App] Snooze scheduled for', alarm.snoozeDuration, 'minutes');
+        // Track the snooze alongside the booked occurrences
+        await updateAlarm(alarmId, { notificationIds: [...notificationIds, snoozeId] });
+        
+        console.log('[App] Snooze', snoozeNumber, 'scheduled for', snoozeMinutes, 'minutes');
       } catch (error) {
         console.error('[App] Error handling snooze:', error);
       }
     },
     
-    onDismiss: async (alarmId: string) => {
+    onDismiss: async (alarmId: string, chainStep?: { chainId: string; stepIndex: number }) => {
       try {
         console.log('[App] Dismiss action for alarm:', alarmId);
         
+        // A chain follow-up was answered, book the step after it
+        if (chainStep) {
+          await advanceChain(chainStep.chainId, chainStep.stepIndex + 1);
+          return;
+        }
+        
+        // Dismissing an alarm starts every chain it triggers
+        for (const chain of chains.filter(c => c.triggerAlarmId === alarmId)) {
+          await advanceChain(chain.id, 0);
+        }
+        
         const alarm = getAlarmById(alarmId);
         if (!alarm) {
           console.error('[App] Alarm not found for dismiss:', alarmId);
           return;
         }
         
-        // Cancel old notification first
-        if (alarm.notificationId) {
-          await cancelSchedule(alarm.notificationId);
-          console.log('[App] Cancelled old notification:', alarm.notificationId);
-        }
+        // Stop nag mode re-ringing the occurrence that was just answered
+        const remainingIds = await cancelNags(alarm);
         
-        // If alarm repeats, reschedule for next occurrence
-        if (alarm.repeats.length > 0) {
-          const notificationId = await rescheduleRepeatingAlarm(alarm);
+        // If alarm repeats, keep the window of future occurrences booked
+        if (isRepeatingAlarm(alarm)) {
+          const notificationIds = await topUpAlarm({ ...alarm, notificationIds: remainingIds });
           
-          if (notificationId) {
-            await updateAlarm(alarmId, { notificationId });
-            console.log('[App] Repeating alarm rescheduled for next occurrence');
+          // That was the final occurrence of its active date range
+          if (notificationIds.length === 0 && isAlarmExpired(alarm, clock.now(), exceptionLists)) {
+            await updateAlarm(alarmId, { isEnabled: false, notificationIds: [] });
+            console.log('[App] Repeating alarm disabled after its final occurrence');
+            return;
           }
+          
+          await updateAlarm(alarmId, { notificationIds });
+          console.log('[App] Repeating alarm window topped up');
         } else {
           // For one-time alarms, disable after dismiss
-          await updateAlarm(alarmId, { isEnabled: false, notificationId: undefined });
+          await updateAlarm(alarmId, { isEnabled: false, notificationIds: [] });
           console.log('[App] One-time alarm disabled after dismiss');
         }
       } catch (error) {
         console.error('[App] Error handling dismiss:', error);
       }
     },
+    
+    onReceived: async (alarmId: string) => {
+      try {
+        const alarm = getAlarmById(alarmId);
+        if (!alarm || !isRepeatingAlarm(alarm)) {
+          return;
+        }
+        
+        // An occurrence just fired, book the next one at the end of the window
+        const notificationIds = await topUpAlarm(alarm);
+        await updateAlarm(alarmId, { notificationIds });
+        console.log('[App] Repeating alarm window topped up after firing');
+      } catch (error) {
+        console.error('[App] Error topping up fired alarm:', error);
+      }
+    },
+    
+    onPreAlertDismiss: async (alarmId: string, alarmAt?: string, occurrenceDate?: string) => {
+      try {
+        const alarm = getAlarmById(alarmId);
+        if (!alarm || !alarm.isEnabled || !alarm.preAlertCancelsAlarm || !alarmAt) {
+          return;
+        }
+        
+        console.log('[App] Heads-up dismissed, cancelling ring at', alarmAt);
+        
+        if (isRepeatingAlarm(alarm)) {
+          // Skip just the announced occurrence, keeping any other skip; the alarm re-arms for the next one.
+          // Heads-ups booked before occurrenceDate existed only know the ring time.
+          const skippedDate =
+            occurrenceDate ?? formatDateString(getAlarmCalendarDay(alarm, new Date(alarmAt)));
+          const skippedDates = alarm.skippedDates ?? [];
+          if (!skippedDates.includes(skippedDate)) {
+            await updateAlarm(alarmId, { skippedDates: [...skippedDates, skippedDate] });
+          }
+          console.log('[App] Repeating alarm skipped for', skippedDate);
+        } else {
+          await updateAlarm(alarmId, { isEnabled: false });
+          console.log('[App] One-time alarm cancelled from its heads-up');
+        }
+      } catch (error) {
+        console.error('[App] Error handling heads-up dismiss:', error);
+      }
+    },
   });
 
   return (
@@ -155,6 +234,27 @@ const AppContent: React.FC = () => {
             title: 'Settings',
           }}
         />
+        <Stack.Screen
+          name="ExceptionLists"
+          component={ExceptionListsScreen}
+          options={{
+            title: 'Holidays & Exceptions',
+          }}
+        />
+        <Stack.Screen
+          name="Upcoming"
+          component={UpcomingScreen}
+          options={{
+            title: 'Upcoming',
+          }}
+        />
+        <Stack.Screen
+          name="Chains"
+          component={ChainsScreen}
+          options={{
+            title: 'Alarm Chains',
+          }}
+        />
       </Stack.Navigator>
       <StatusBar style="light" />
     </NavigationContainer>
@@ -183,8 +283,9 @@ const App: React.FC = () => {
     try {
       console.log('[App] Initializing app...');
       
-      // Initialize notification service
-      await NotificationService.initialize();
+      // Initialize notification service with the global snooze buttons
+      const settings = await StorageService.getSettings();
+      await NotificationService.initialize(settings.snoozeOptions);
       console.log('[App] Notification service initialized');
       
       // Request notification permissions
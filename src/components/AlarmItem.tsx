@@ -3,12 +3,14 @@
  * 
  * Displays individual alarm in the alarm list.
  * Shows time, label, repeat days, and toggle switch.
- * Provides swipe or long-press actions for edit/delete.
+ * Provides swipe or long-press actions for edit/delete, and
+ * skip-next / pause-until actions for repeating alarms. Countdown timers show
+ * a live remaining time with pause/resume and add-a-minute actions.
  * 
  * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -16,13 +18,38 @@ import {
   Switch,
   TouchableOpacity,
   Alert,
+  Platform,
 } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 
 // Types
-import { Alarm, WeekDay } from '../types/alarm.types';
+import { Alarm, Clock, ExceptionDateList, QuietHours, WeekDay } from '../types/alarm.types';
 
 // Utils
-import { formatAlarmTime, getAlarmDescription } from '../utils/timeCalculations';
+import {
+  formatAlarmTime,
+  getAlarmDescription,
+  isAlarmExpired,
+  isAlarmSuspended,
+  isRepeatingAlarm,
+  describeAlarmSuspension,
+  describeActiveRange,
+  describeRecurrenceRule,
+  addDays,
+  startOfDay,
+  formatDateString,
+  formatDateToTime,
+  findNextAlarmTime,
+  formatCountdown,
+  formatTimerDuration,
+  formatSnoozeSummary,
+  getTimerRemainingMs,
+  getAlarmCalendarDay,
+  getOccurrenceTime,
+  getAlarmTimeOnDay,
+  describeSolarAnchor,
+} from '../utils/timeCalculations';
+import { formatTimeZoneName, getDeviceTimeZone } from '../utils/timeZone';
 
 // Constants
 import { WEEK_DAYS } from '../constants/alarm.constants';
@@ -32,16 +59,77 @@ import { WEEK_DAYS } from '../constants/alarm.constants';
  */
 interface AlarmItemProps {
   alarm: Alarm;
+  /** Reference instant for the "next trigger" description */
+  now: Date;
+  /** Clock driving the live countdown of timers */
+  clock: Clock;
+  /** Exception-date lists the alarm may opt into */
+  exceptionLists: ExceptionDateList[];
+  /** Quiet-hours settings, if switched on (they can move or drop the next ring) */
+  quietHours?: QuietHours;
   onToggle: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onSkipNext: (id: string) => void;
+  /** Pause until a calendar date (YYYY-MM-DD) */
+  onPauseUntil: (id: string, date: string) => void;
+  onResume: (id: string) => void;
+  onPauseTimer: (id: string) => void;
+  onResumeTimer: (id: string) => void;
+  onExtendTimer: (id: string) => void;
 }
 
+/**
+ * Live countdown of a timer, re-rendered every second while it runs
+ */
+const TimerCountdown: React.FC<{ alarm: Alarm; clock: Clock }> = ({ alarm, clock }) => {
+  const [now, setNow] = useState(() => clock.now());
+  const isRunning = alarm.isEnabled && alarm.timer?.endsAt !== undefined;
+
+  useEffect(() => {
+    setNow(clock.now());
+    if (!isRunning) {
+      return;
+    }
+
+    const interval = setInterval(() => setNow(clock.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clock, isRunning, alarm.timer?.endsAt]);
+
+  // A switched-off timer shows its full length, ready to restart
+  const remainingMs = alarm.isEnabled
+    ? getTimerRemainingMs(alarm, now)
+    : (alarm.timer?.durationSeconds ?? 0) * 1000;
+
+  return (
+    <Text style={[styles.time, !alarm.isEnabled && styles.timeDisabled]}>
+      {formatCountdown(remainingMs)}
+    </Text>
+  );
+};
+
 /**
  * AlarmItem Component
  */
 export const AlarmItem: React.FC<AlarmItemProps> = React.memo(
-  ({ alarm, onToggle, onEdit, onDelete }) => {
+  ({
+    alarm,
+    now,
+    clock,
+    exceptionLists,
+    quietHours,
+    onToggle,
+    onEdit,
+    onDelete,
+    onSkipNext,
+    onPauseUntil,
+    onResume,
+    onPauseTimer,
+    onResumeTimer,
+    onExtendTimer,
+  }) => {
+    const [showPausePicker, setShowPausePicker] = useState(false);
+
     /**
      * Handle toggle
      */
@@ -78,19 +166,127 @@ export const AlarmItem: React.FC<AlarmItemProps> = React.memo(
     };
 
     /**
-     * Format time for display
+     * Handle pause date selection
+     */
+    const handlePauseDateChange = (event: any, selectedDate?: Date) => {
+      setShowPausePicker(false);
+      if (event.type === 'set' && selectedDate) {
+        onPauseUntil(alarm.id, formatDateString(selectedDate));
+      }
+    };
+
+    /**
+     * Today's computed ring time of a sun-relative alarm (null when the sun doesn't rise/set)
      */
-    const displayTime = formatAlarmTime(alarm.time, false);
+    const solarToday = alarm.solar ? getOccurrenceTime(alarm, getAlarmCalendarDay(alarm, now)) : null;
+
+    /**
+     * Time of a shift rotation's next ring, in the alarm's zone (each shift has its own time)
+     */
+    const nextShiftTime = (() => {
+      if (alarm.recurrence?.type !== 'rotation') {
+        return undefined;
+      }
+
+      const next = findNextAlarmTime(alarm, now, exceptionLists);
+      return next ? getAlarmTimeOnDay(alarm, getAlarmCalendarDay(alarm, next)) : undefined;
+    })();
+
+    /**
+     * Format time for display (today's computed time for sun-relative alarms,
+     * the next shift's time for rotations)
+     */
+    const displayTime = alarm.solar
+      ? solarToday
+        ? formatAlarmTime(formatDateToTime(solarToday), false)
+        : '--:--'
+      : formatAlarmTime(nextShiftTime ?? alarm.time, false);
+
+    /**
+     * For alarms pinned to another zone, show the ring time in both zones
+     */
+    const zoneLabel = (() => {
+      const deviceTimeZone = getDeviceTimeZone();
+      if (!alarm.timeZone || alarm.timeZone === deviceTimeZone || alarm.solar) {
+        return null;
+      }
+
+      const pinned = `${displayTime} ${formatTimeZoneName(alarm.timeZone)}`;
+      const next = findNextAlarmTime(alarm, now, exceptionLists);
+      if (!next) {
+        return pinned;
+      }
+
+      const local = formatAlarmTime(formatDateToTime(next), false);
+      return `${pinned} · ${local} ${formatTimeZoneName(deviceTimeZone)}`;
+    })();
+
+    /**
+     * Timer state: running, paused, or rung and waiting to be dismissed
+     */
+    const timer = alarm.timer;
+    const isTimerPaused = timer !== undefined && timer.endsAt === undefined;
+    const isTimerDone =
+      timer?.endsAt !== undefined && new Date(timer.endsAt).getTime() <= now.getTime();
+
+    /**
+     * Describe when a timer rings
+     */
+    const describeTimer = (): string => {
+      if (isTimerPaused) {
+        return '⏸ Paused';
+      }
+      if (!timer?.endsAt || isTimerDone) {
+        return "Time's up";
+      }
+      return `Rings at ${formatAlarmTime(formatDateToTime(new Date(timer.endsAt)), false)}`;
+    };
 
     /**
      * Get alarm description (e.g., "Today at 7:30 AM")
      */
-    const description = alarm.isEnabled ? getAlarmDescription(alarm) : 'Disabled';
+    const description = !alarm.isEnabled
+      ? 'Disabled'
+      : timer
+        ? describeTimer()
+        : getAlarmDescription(alarm, now, exceptionLists, quietHours);
+
+    /**
+     * Flag dated alarms whose time has passed (they will not ring)
+     */
+    const isExpired = alarm.isEnabled && !timer && isAlarmExpired(alarm, now, exceptionLists);
+
+    /**
+     * Skip and pause only apply to enabled repeating alarms
+     */
+    const canSuspend = alarm.isEnabled && isRepeatingAlarm(alarm);
+    const isSuspended = canSuspend && isAlarmSuspended(alarm, now);
+    const suspension = isSuspended ? describeAlarmSuspension(alarm, now) : null;
+
+    /**
+     * Active date range of a repeating alarm (e.g. "ends Dec 20")
+     */
+    const activeRange = describeActiveRange(alarm, now);
+
+    /**
+     * Snooze settings (e.g. "10 → 5 → 3 min, max 3")
+     */
+    const snoozeSummary = formatSnoozeSummary(alarm);
 
     /**
      * Render repeat days
      */
     const renderRepeatDays = () => {
+      if (timer) {
+        return (
+          <Text style={styles.repeatText}>⏱ {formatTimerDuration(timer.durationSeconds)} timer</Text>
+        );
+      }
+
+      if (alarm.recurrence) {
+        return <Text style={styles.repeatText}>{describeRecurrenceRule(alarm.recurrence)}</Text>;
+      }
+
       if (alarm.repeats.length === 0) {
         return <Text style={styles.repeatText}>One-time alarm</Text>;
       }
@@ -152,16 +348,33 @@ export const AlarmItem: React.FC<AlarmItemProps> = React.memo(
     return (
       <TouchableOpacity
         style={[styles.container, !alarm.isEnabled && styles.containerDisabled]}
-        onPress={handleEdit}
+        onPress={timer ? undefined : handleEdit}
         onLongPress={handleDelete}
         activeOpacity={0.7}
       >
         <View style={styles.content}>
           {/* Left section: Time and details */}
           <View style={styles.leftSection}>
-            <Text style={[styles.time, !alarm.isEnabled && styles.timeDisabled]}>
-              {displayTime}
-            </Text>
+            {timer ? (
+              <TimerCountdown alarm={alarm} clock={clock} />
+            ) : (
+              <Text style={[styles.time, !alarm.isEnabled && styles.timeDisabled]}>
+                {displayTime}
+              </Text>
+            )}
+
+            {alarm.solar && (
+              <Text style={[styles.zoneText, !alarm.isEnabled && styles.labelDisabled]}>
+                {alarm.solar.event === 'sunrise' ? '🌅' : '🌇'} {describeSolarAnchor(alarm.solar)}
+                {solarToday ? ' · today' : ` · no ${alarm.solar.event} today`}
+              </Text>
+            )}
+
+            {zoneLabel && (
+              <Text style={[styles.zoneText, !alarm.isEnabled && styles.labelDisabled]}>
+                🌐 {zoneLabel}
+              </Text>
+            )}
             
             {alarm.label && (
               <Text style={[styles.label, !alarm.isEnabled && styles.labelDisabled]}>
@@ -179,9 +392,21 @@ export const AlarmItem: React.FC<AlarmItemProps> = React.memo(
             )}
             
             {renderRepeatDays()}
+
+            {activeRange && (
+              <Text style={[styles.rangeText, !alarm.isEnabled && styles.labelDisabled]}>
+                📅 {activeRange}
+              </Text>
+            )}
             
             {alarm.isEnabled && (
-              <Text style={styles.nextTrigger}>{description}</Text>
+              <Text style={[styles.nextTrigger, isExpired && styles.nextTriggerExpired]}>
+                {isExpired ? `⚠️ ${description}` : description}
+              </Text>
+            )}
+
+            {suspension && (
+              <Text style={styles.suspensionText}>⏸ {suspension}</Text>
             )}
           </View>
 
@@ -196,14 +421,65 @@ export const AlarmItem: React.FC<AlarmItemProps> = React.memo(
           </View>
         </View>
 
-        {/* Snooze indicator */}
-        {alarm.snoozeEnabled && (
+        {/* Timer actions */}
+        {timer && (
+          <View style={styles.footer}>
+            <Text style={styles.footerText}>
+              {snoozeSummary ? `💤 Snooze: ${snoozeSummary}` : ''}
+            </Text>
+
+            <View style={styles.actions}>
+              {alarm.isEnabled && !isTimerDone && (
+                <TouchableOpacity
+                  onPress={() => (isTimerPaused ? onResumeTimer(alarm.id) : onPauseTimer(alarm.id))}
+                >
+                  <Text style={styles.actionText}>{isTimerPaused ? 'Resume' : 'Pause'}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => onExtendTimer(alarm.id)}>
+                <Text style={styles.actionText}>+1 min</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Snooze indicator and skip/pause actions */}
+        {!timer && (alarm.snoozeEnabled || canSuspend) && (
           <View style={styles.footer}>
             <Text style={styles.footerText}>
-              💤 Snooze: {alarm.snoozeDuration} min
+              {snoozeSummary ? `💤 Snooze: ${snoozeSummary}` : ''}
             </Text>
+
+            {canSuspend && (
+              <View style={styles.actions}>
+                {isSuspended ? (
+                  <TouchableOpacity onPress={() => onResume(alarm.id)}>
+                    <Text style={styles.actionText}>Resume</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <>
+                    <TouchableOpacity onPress={() => onSkipNext(alarm.id)}>
+                      <Text style={styles.actionText}>Skip next</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setShowPausePicker(true)}>
+                      <Text style={styles.actionText}>Pause…</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            )}
           </View>
         )}
+
+        {showPausePicker && (
+          <DateTimePicker
+            value={addDays(startOfDay(now), 1)}
+            mode="date"
+            minimumDate={addDays(startOfDay(now), 1)}
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={handlePauseDateChange}
+          />
+        )}
       </TouchableOpacity>
     );
   }
@@ -253,6 +529,11 @@ const styles = StyleSheet.create({
     color: '#333333',
     marginBottom: 2,
   },
+  zoneText: {
+    fontSize: 13,
+    color: '#666666',
+    marginBottom: 4,
+  },
   labelDisabled: {
     color: '#999999',
   },
@@ -269,6 +550,11 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginTop: 4,
   },
+  rangeText: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 4,
+  },
   daysContainer: {
     flexDirection: 'row',
     marginTop: 8,
@@ -305,12 +591,33 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontWeight: '500',
   },
+  nextTriggerExpired: {
+    color: '#d32f2f',
+  },
+  suspensionText: {
+    fontSize: 12,
+    color: '#ff9800',
+    marginTop: 4,
+    fontWeight: '500',
+  },
   footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginTop: 12,
     paddingTop: 12,
     borderTopWidth: 1,
     borderTopColor: '#eeeeee',
   },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#6200ee',
+    fontWeight: '600',
+  },
   footerText: {
     fontSize: 12,
     color: '#666666',
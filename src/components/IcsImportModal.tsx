@@ -0,0 +1,177 @@
+/**
+ * IcsImportModal Component
+ *
+ * Modal for pasting iCalendar (.ics) or other file text to import.
+ * Used for alarm import and for exception-date lists.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+
+/**
+ * IcsImportModal Props
+ */
+interface IcsImportModalProps {
+  visible: boolean;
+  onImport: (icsText: string) => void;
+  onClose: () => void;
+  title?: string;
+  hint?: string;
+  placeholder?: string;
+}
+
+/**
+ * IcsImportModal Component
+ */
+export const IcsImportModal: React.FC<IcsImportModalProps> = ({
+  visible,
+  onImport,
+  onClose,
+  title = 'Import Calendar',
+  hint = 'Paste the contents of an .ics file. Each event becomes an alarm.',
+  placeholder = 'BEGIN:VCALENDAR\n...',
+}) => {
+  const [icsText, setIcsText] = useState('');
+
+  /**
+   * Hand the pasted text to the caller and reset the field
+   */
+  const handleImport = () => {
+    onImport(icsText);
+    setIcsText('');
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modal}>
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>{title}</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Pasted calendar text */}
+            <View style={styles.content}>
+              <Text style={styles.hint}>{hint}</Text>
+              <TextInput
+                style={styles.input}
+                value={icsText}
+                onChangeText={setIcsText}
+                placeholder={placeholder}
+                placeholderTextColor="#999999"
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                textAlignVertical="top"
+              />
+            </View>
+
+            {/* Footer */}
+            <View style={styles.footer}>
+              <TouchableOpacity
+                style={[styles.importButton, !icsText.trim() && styles.importButtonDisabled]}
+                onPress={handleImport}
+                disabled={!icsText.trim()}
+              >
+                <Text style={styles.importButtonText}>Import</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eeeeee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#666666',
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  input: {
+    height: 240,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#333333',
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eeeeee',
+  },
+  importButton: {
+    backgroundColor: '#6200ee',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    backgroundColor: '#cccccc',
+  },
+  importButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
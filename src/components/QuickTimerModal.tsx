@@ -0,0 +1,212 @@
+/**
+ * QuickTimerModal Component
+ *
+ * Modal for starting a countdown timer ("ring in 25 minutes").
+ * Offers preset durations and accepts a custom number of minutes.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+} from 'react-native';
+
+// Constants
+import { QUICK_TIMER_PRESETS, MAX_TIMER_MINUTES } from '../constants/alarm.constants';
+
+// Utils
+import { formatTimerDuration } from '../utils/timeCalculations';
+
+/**
+ * QuickTimerModal Props
+ */
+interface QuickTimerModalProps {
+  visible: boolean;
+  onStart: (durationMinutes: number, label: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * QuickTimerModal Component
+ */
+export const QuickTimerModal: React.FC<QuickTimerModalProps> = ({
+  visible,
+  onStart,
+  onClose,
+}) => {
+  const [customMinutes, setCustomMinutes] = useState('');
+  const [label, setLabel] = useState('');
+
+  const parsedMinutes = parseInt(customMinutes, 10);
+  const isCustomValid =
+    !isNaN(parsedMinutes) && parsedMinutes > 0 && parsedMinutes <= MAX_TIMER_MINUTES;
+
+  /**
+   * Start a timer and reset the form
+   */
+  const handleStart = (minutes: number) => {
+    onStart(minutes, label.trim());
+    setCustomMinutes('');
+    setLabel('');
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modal}>
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Quick Timer</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.content}>
+              {/* Label */}
+              <TextInput
+                style={styles.input}
+                placeholder="Label (optional), e.g. Tea"
+                value={label}
+                onChangeText={setLabel}
+                maxLength={50}
+              />
+
+              {/* Presets */}
+              <View style={styles.presets}>
+                {QUICK_TIMER_PRESETS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={styles.presetButton}
+                    onPress={() => handleStart(minutes)}
+                  >
+                    <Text style={styles.presetText}>{formatTimerDuration(minutes * 60)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Custom duration */}
+              <View style={styles.customRow}>
+                <TextInput
+                  style={[styles.input, styles.customInput]}
+                  placeholder="Minutes"
+                  value={customMinutes}
+                  onChangeText={setCustomMinutes}
+                  keyboardType="number-pad"
+                  maxLength={4}
+                />
+                <TouchableOpacity
+                  style={[styles.startButton, !isCustomValid && styles.startButtonDisabled]}
+                  onPress={() => handleStart(parsedMinutes)}
+                  disabled={!isCustomValid}
+                >
+                  <Text style={styles.startButtonText}>Start</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eeeeee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#666666',
+  },
+  content: {
+    padding: 16,
+  },
+  input: {
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 16,
+  },
+  presetButton: {
+    width: '23%',
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#f3e5ff',
+    alignItems: 'center',
+  },
+  presetText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  customInput: {
+    flex: 1,
+  },
+  startButton: {
+    backgroundColor: '#6200ee',
+    borderRadius: 8,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  startButtonDisabled: {
+    backgroundColor: '#cccccc',
+  },
+  startButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,477 @@
+/**
+ * RecurrenceEditor Component
+ *
+ * Editor for monthly, yearly, interval and business-day recurrence rules.
+ * Shown in place of WeekDayPicker when an alarm doesn't repeat on a plain weekly pattern.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+// Types
+import { RecurrenceRule, WeekDay, WeekdayOrdinal } from '../types/alarm.types';
+
+// Constants
+import { WEEK_DAYS, MONTH_NAMES, NUMBER_TO_WEEKDAY } from '../constants/alarm.constants';
+
+// Utils
+import {
+  describeRecurrenceRule,
+  formatWeekdayOrdinal,
+  formatDateLabel,
+  formatDateString,
+  parseDateString,
+} from '../utils/timeCalculations';
+
+/**
+ * Ordinals offered for "Nth weekday of the month" rules
+ */
+const WEEKDAY_ORDINALS: WeekdayOrdinal[] = [1, 2, 3, 4, -1];
+
+/**
+ * Longest interval offered for every-N-days/weeks rules
+ */
+const MAX_INTERVAL = 30;
+
+/**
+ * Days in each month for yearly rules (Feb allows 29, which rings in leap years only)
+ */
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * RecurrenceEditor Props
+ */
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule;
+  onRuleChange: (rule: RecurrenceRule) => void;
+  /** Reference instant for date labels */
+  now: Date;
+}
+
+/**
+ * RecurrenceEditor Component
+ */
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ rule, onRuleChange, now }) => {
+  const [showAnchorPicker, setShowAnchorPicker] = useState(false);
+
+  /**
+   * Render a row of selectable chips
+   */
+  const renderChips = <T extends string | number>(
+    options: readonly T[],
+    isSelected: (option: T) => boolean,
+    onSelect: (option: T) => void,
+    getLabel: (option: T) => string
+  ) => (
+    <View style={styles.chipContainer}>
+      {options.map((option) => {
+        const selected = isSelected(option);
+        return (
+          <TouchableOpacity
+            key={String(option)}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(option)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+              {getLabel(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  /**
+   * Render a -/+ stepper for a day of month or an interval
+   */
+  const renderDayStepper = (value: number, max: number, onChange: (value: number) => void) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value <= 1 ? max : value - 1)}
+      >
+        <Text style={styles.stepperButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value >= max ? 1 : value + 1)}
+      >
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  /**
+   * Render monthly rule options
+   */
+  const renderMonthly = () => {
+    const modes = ['monthly-day', 'monthly-last-day', 'monthly-weekday'] as const;
+    const modeLabels: Record<typeof modes[number], string> = {
+      'monthly-day': 'Day of month',
+      'monthly-last-day': 'Last day',
+      'monthly-weekday': 'Weekday',
+    };
+
+    /**
+     * Switch monthly mode, keeping sensible defaults
+     */
+    const selectMode = (mode: typeof modes[number]) => {
+      if (mode === rule.type) {
+        return;
+      }
+      if (mode === 'monthly-day') {
+        onRuleChange({ type: 'monthly-day', dayOfMonth: 1 });
+      } else if (mode === 'monthly-last-day') {
+        onRuleChange({ type: 'monthly-last-day' });
+      } else {
+        onRuleChange({ type: 'monthly-weekday', ordinal: 1, weekday: 'Mon' });
+      }
+    };
+
+    return (
+      <>
+        {renderChips(modes, (mode) => mode === rule.type, selectMode, (mode) => modeLabels[mode])}
+
+        {rule.type === 'monthly-day' && (
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Day</Text>
+            {renderDayStepper(rule.dayOfMonth, 31, (dayOfMonth) =>
+              onRuleChange({ type: 'monthly-day', dayOfMonth })
+            )}
+          </View>
+        )}
+
+        {rule.type === 'monthly-weekday' && (
+          <>
+            {renderChips(
+              WEEKDAY_ORDINALS,
+              (ordinal) => ordinal === rule.ordinal,
+              (ordinal) => onRuleChange({ ...rule, ordinal }),
+              (ordinal) => formatWeekdayOrdinal(ordinal)
+            )}
+            {renderChips<WeekDay>(
+              WEEK_DAYS,
+              (weekday) => weekday === rule.weekday,
+              (weekday) => onRuleChange({ ...rule, weekday }),
+              (weekday) => weekday
+            )}
+          </>
+        )}
+      </>
+    );
+  };
+
+  /**
+   * Render yearly rule options
+   */
+  const renderYearly = () => {
+    if (rule.type !== 'yearly') {
+      return null;
+    }
+
+    const maxDay = MAX_DAYS_IN_MONTH[rule.month - 1];
+    const monthNumbers = MONTH_NAMES.map((_, index) => index + 1);
+
+    return (
+      <>
+        {renderChips(
+          monthNumbers,
+          (month) => month === rule.month,
+          (month) =>
+            onRuleChange({
+              type: 'yearly',
+              month,
+              dayOfMonth: Math.min(rule.dayOfMonth, MAX_DAYS_IN_MONTH[month - 1]),
+            }),
+          (month) => MONTH_NAMES[month - 1]
+        )}
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Day</Text>
+          {renderDayStepper(rule.dayOfMonth, maxDay, (dayOfMonth) =>
+            onRuleChange({ ...rule, dayOfMonth })
+          )}
+        </View>
+      </>
+    );
+  };
+
+  /**
+   * Render every-N-days/weeks rule options
+   */
+  const renderInterval = () => {
+    if (rule.type !== 'interval-days' && rule.type !== 'interval-weeks') {
+      return null;
+    }
+
+    const units = ['interval-days', 'interval-weeks'] as const;
+    const anchor = parseDateString(rule.anchorDate);
+
+    /**
+     * Switch between days and weeks, keeping interval and anchor
+     */
+    const selectUnit = (unit: typeof units[number]) => {
+      if (unit === rule.type) {
+        return;
+      }
+      if (unit === 'interval-days') {
+        onRuleChange({ type: 'interval-days', interval: rule.interval, anchorDate: rule.anchorDate });
+      } else {
+        onRuleChange({
+          type: 'interval-weeks',
+          interval: rule.interval,
+          anchorDate: rule.anchorDate,
+          weekdays: [NUMBER_TO_WEEKDAY[anchor.getDay()]],
+        });
+      }
+    };
+
+    /**
+     * Toggle a weekday, never leaving the set empty
+     */
+    const toggleWeekday = (weekday: WeekDay) => {
+      if (rule.type !== 'interval-weeks') {
+        return;
+      }
+      const weekdays = rule.weekdays.includes(weekday)
+        ? rule.weekdays.filter((d) => d !== weekday)
+        : [...rule.weekdays, weekday];
+      if (weekdays.length > 0) {
+        onRuleChange({ ...rule, weekdays });
+      }
+    };
+
+    /**
+     * Handle anchor date change from picker
+     */
+    const handleAnchorChange = (event: any, selectedDate?: Date) => {
+      if (Platform.OS === 'android') {
+        setShowAnchorPicker(false);
+      }
+      if (selectedDate) {
+        onRuleChange({ ...rule, anchorDate: formatDateString(selectedDate) });
+      }
+    };
+
+    return (
+      <>
+        {renderChips(
+          units,
+          (unit) => unit === rule.type,
+          selectUnit,
+          (unit) => (unit === 'interval-days' ? 'Days' : 'Weeks')
+        )}
+
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Every</Text>
+          {renderDayStepper(rule.interval, MAX_INTERVAL, (interval) =>
+            onRuleChange({ ...rule, interval })
+          )}
+        </View>
+
+        {rule.type === 'interval-weeks' &&
+          renderChips<WeekDay>(
+            WEEK_DAYS,
+            (weekday) => rule.weekdays.includes(weekday),
+            toggleWeekday,
+            (weekday) => weekday
+          )}
+
+        <TouchableOpacity style={styles.row} onPress={() => setShowAnchorPicker(true)}>
+          <Text style={styles.rowLabel}>Starting</Text>
+          <Text style={styles.anchorText}>{formatDateLabel(anchor, now)} ›</Text>
+        </TouchableOpacity>
+
+        {showAnchorPicker && (
+          <DateTimePicker
+            value={anchor}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleAnchorChange}
+          />
+        )}
+      </>
+    );
+  };
+
+  /**
+   * Render business-day rule options
+   */
+  const renderBusiness = () => {
+    if (rule.type !== 'business-days' && rule.type !== 'business-day-of-month') {
+      return null;
+    }
+
+    const modes = ['business-days', 'business-day-of-month'] as const;
+
+    /**
+     * Switch between every business day and one per month, keeping the workweek
+     */
+    const selectMode = (mode: typeof modes[number]) => {
+      if (mode === rule.type) {
+        return;
+      }
+      if (mode === 'business-days') {
+        onRuleChange({ type: 'business-days', workweek: rule.workweek });
+      } else {
+        onRuleChange({ type: 'business-day-of-month', ordinal: 1, workweek: rule.workweek });
+      }
+    };
+
+    /**
+     * Toggle a working day, never leaving the workweek empty
+     */
+    const toggleWorkday = (weekday: WeekDay) => {
+      const workweek = rule.workweek.includes(weekday)
+        ? rule.workweek.filter((d) => d !== weekday)
+        : [...rule.workweek, weekday];
+      if (workweek.length > 0) {
+        onRuleChange({ ...rule, workweek: WEEK_DAYS.filter((d) => workweek.includes(d)) });
+      }
+    };
+
+    return (
+      <>
+        {renderChips(
+          modes,
+          (mode) => mode === rule.type,
+          selectMode,
+          (mode) => (mode === 'business-days' ? 'Every business day' : 'Once a month')
+        )}
+
+        {rule.type === 'business-day-of-month' &&
+          renderChips(
+            WEEKDAY_ORDINALS,
+            (ordinal) => ordinal === rule.ordinal,
+            (ordinal) => onRuleChange({ ...rule, ordinal }),
+            (ordinal) => formatWeekdayOrdinal(ordinal)
+          )}
+
+        <Text style={styles.rowLabel}>Workweek</Text>
+        {renderChips<WeekDay>(
+          WEEK_DAYS,
+          (weekday) => rule.workweek.includes(weekday),
+          toggleWorkday,
+          (weekday) => weekday
+        )}
+
+        <Text style={styles.hintText}>
+          Dates in the holiday lists picked below don't count as business days
+        </Text>
+      </>
+    );
+  };
+
+  /**
+   * Pick the editor for the rule's family
+   */
+  const renderRuleOptions = () => {
+    switch (rule.type) {
+      case 'yearly':
+        return renderYearly();
+      case 'interval-days':
+      case 'interval-weeks':
+        return renderInterval();
+      case 'business-days':
+      case 'business-day-of-month':
+        return renderBusiness();
+      default:
+        return renderMonthly();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {renderRuleOptions()}
+
+      {/* Rule summary */}
+      <Text style={styles.infoText}>{describeRecurrenceRule(rule)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 2,
+    borderColor: '#f0f0f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6200ee',
+    borderColor: '#6200ee',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#e8e8e8',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  anchorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,454 @@
+/**
+ * RotationEditor Component
+ *
+ * Editor for shift-rotation recurrence rules (e.g. 4 on / 4 off, or 2 days,
+ * 2 nights, then 4 off). Day types carry their own alarm time; the cycle
+ * repeats from its start date. A preview shows the next four weeks.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  Switch,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+// Types
+import { RecurrenceRule, ShiftDayType } from '../types/alarm.types';
+
+// Constants
+import {
+  MAX_ROTATION_DAYS,
+  MAX_SHIFT_DAY_TYPES,
+  NUMBER_TO_WEEKDAY,
+  ROTATION_PREVIEW_DAYS,
+  ROTATION_PRESETS,
+} from '../constants/alarm.constants';
+
+// Utils
+import {
+  addDays,
+  combineDayAndTime,
+  describeRecurrenceRule,
+  formatAlarmTime,
+  formatDateLabel,
+  formatDateString,
+  formatDateToTime,
+  getRotationDayType,
+  parseDateString,
+  startOfDay,
+} from '../utils/timeCalculations';
+
+type RotationRule = Extract<RecurrenceRule, { type: 'rotation' }>;
+
+/**
+ * Time given to a day type when its alarm is switched on
+ */
+const DEFAULT_SHIFT_TIME = '06:00';
+
+/**
+ * RotationEditor Props
+ */
+interface RotationEditorProps {
+  rule: RotationRule;
+  onRuleChange: (rule: RotationRule) => void;
+  /** Reference instant for date labels and the preview */
+  now: Date;
+}
+
+/**
+ * RotationEditor Component
+ */
+export const RotationEditor: React.FC<RotationEditorProps> = ({ rule, onRuleChange, now }) => {
+  const [showAnchorPicker, setShowAnchorPicker] = useState(false);
+  const [timePickerIndex, setTimePickerIndex] = useState<number | null>(null);
+
+  const anchor = parseDateString(rule.anchorDate);
+
+  /**
+   * Replace one day type
+   */
+  const updateDayType = (index: number, updates: Partial<ShiftDayType>) => {
+    onRuleChange({
+      ...rule,
+      dayTypes: rule.dayTypes.map((dayType, i) => (i === index ? { ...dayType, ...updates } : dayType)),
+    });
+  };
+
+  /**
+   * Remove a day type; cycle days that used it fall back to the first remaining one
+   */
+  const removeDayType = (index: number) => {
+    const dayTypes = rule.dayTypes.filter((_, i) => i !== index);
+    const cycle = rule.cycle.map((typeIndex) =>
+      typeIndex === index ? 0 : typeIndex > index ? typeIndex - 1 : typeIndex
+    );
+    onRuleChange({ ...rule, dayTypes, cycle });
+  };
+
+  /**
+   * Step a cycle day on to the next day type
+   */
+  const cycleDayType = (position: number) => {
+    onRuleChange({
+      ...rule,
+      cycle: rule.cycle.map((typeIndex, i) =>
+        i === position ? (typeIndex + 1) % rule.dayTypes.length : typeIndex
+      ),
+    });
+  };
+
+  /**
+   * Lengthen (repeating the last day) or shorten the cycle
+   */
+  const resizeCycle = (length: number) => {
+    if (length < 1 || length > MAX_ROTATION_DAYS) {
+      return;
+    }
+    const cycle =
+      length < rule.cycle.length
+        ? rule.cycle.slice(0, length)
+        : [...rule.cycle, rule.cycle[rule.cycle.length - 1] ?? 0];
+    onRuleChange({ ...rule, cycle });
+  };
+
+  /**
+   * Handle a day type's time change from picker
+   */
+  const handleTimeChange = (event: any, selectedDate?: Date) => {
+    const index = timePickerIndex;
+    if (Platform.OS === 'android') {
+      setTimePickerIndex(null);
+    }
+    if (index !== null && selectedDate) {
+      updateDayType(index, { time: formatDateToTime(selectedDate) });
+    }
+  };
+
+  /**
+   * Handle anchor date change from picker
+   */
+  const handleAnchorChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowAnchorPicker(false);
+    }
+    if (selectedDate) {
+      onRuleChange({ ...rule, anchorDate: formatDateString(selectedDate) });
+    }
+  };
+
+  /**
+   * Render the next four weeks, one row per week
+   */
+  const renderPreview = () => {
+    const start = startOfDay(now);
+    const weeks: Date[][] = [];
+    for (let i = 0; i < ROTATION_PREVIEW_DAYS; i++) {
+      if (i % 7 === 0) {
+        weeks.push([]);
+      }
+      weeks[weeks.length - 1].push(addDays(start, i));
+    }
+
+    return weeks.map((week) => (
+      <View key={formatDateString(week[0])} style={styles.previewWeek}>
+        {week.map((day) => {
+          const dayType = getRotationDayType(rule, day);
+          const rings = dayType?.time !== undefined;
+          return (
+            <View key={formatDateString(day)} style={[styles.previewDay, rings && styles.previewDayRings]}>
+              <Text style={[styles.previewDate, rings && styles.previewTextRings]}>
+                {NUMBER_TO_WEEKDAY[day.getDay()]} {day.getDate()}
+              </Text>
+              <Text style={[styles.previewType, rings && styles.previewTextRings]} numberOfLines={1}>
+                {dayType?.name ?? '–'}
+              </Text>
+              {dayType?.time !== undefined && (
+                <Text style={[styles.previewTime, styles.previewTextRings]}>{dayType.time}</Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    ));
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Presets */}
+      <View style={styles.chipContainer}>
+        {ROTATION_PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.label}
+            style={styles.chip}
+            onPress={() => onRuleChange({ ...rule, dayTypes: preset.dayTypes, cycle: preset.cycle })}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.chipText}>{preset.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Day types */}
+      <Text style={styles.heading}>Shifts</Text>
+      {rule.dayTypes.map((dayType, index) => (
+        <View key={index} style={styles.dayTypeRow}>
+          <TextInput
+            style={styles.dayTypeInput}
+            value={dayType.name}
+            onChangeText={(name) => updateDayType(index, { name })}
+            maxLength={12}
+          />
+          <Switch
+            value={dayType.time !== undefined}
+            onValueChange={(rings) => updateDayType(index, { time: rings ? DEFAULT_SHIFT_TIME : undefined })}
+            trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+            thumbColor={dayType.time !== undefined ? '#6200ee' : '#f4f3f4'}
+          />
+          <TouchableOpacity
+            style={styles.timeButton}
+            disabled={dayType.time === undefined}
+            onPress={() => setTimePickerIndex(index)}
+          >
+            <Text style={dayType.time !== undefined ? styles.anchorText : styles.mutedText}>
+              {dayType.time !== undefined ? formatAlarmTime(dayType.time, false) : 'No alarm'}
+            </Text>
+          </TouchableOpacity>
+          {rule.dayTypes.length > 1 && (
+            <TouchableOpacity onPress={() => removeDayType(index)}>
+              <Text style={styles.removeText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+      {rule.dayTypes.length < MAX_SHIFT_DAY_TYPES && (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() =>
+            onRuleChange({
+              ...rule,
+              dayTypes: [...rule.dayTypes, { name: `Shift ${rule.dayTypes.length + 1}`, time: DEFAULT_SHIFT_TIME }],
+            })
+          }
+        >
+          <Text style={styles.anchorText}>+ Add shift</Text>
+        </TouchableOpacity>
+      )}
+
+      {timePickerIndex !== null && rule.dayTypes[timePickerIndex]?.time !== undefined && (
+        <DateTimePicker
+          value={combineDayAndTime(now, rule.dayTypes[timePickerIndex].time!)}
+          mode="time"
+          is24Hour={false}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleTimeChange}
+        />
+      )}
+
+      {/* Cycle */}
+      <View style={styles.row}>
+        <Text style={styles.heading}>Cycle</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => resizeCycle(rule.cycle.length - 1)}>
+            <Text style={styles.stepperButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{rule.cycle.length}</Text>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => resizeCycle(rule.cycle.length + 1)}>
+            <Text style={styles.stepperButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      <View style={styles.chipContainer}>
+        {rule.cycle.map((typeIndex, position) => {
+          const dayType = rule.dayTypes[typeIndex];
+          const rings = dayType?.time !== undefined;
+          return (
+            <TouchableOpacity
+              key={position}
+              style={[styles.chip, rings && styles.chipSelected]}
+              onPress={() => cycleDayType(position)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, rings && styles.chipTextSelected]}>
+                {position + 1}. {dayType?.name ?? '?'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.mutedText}>Tap a day to switch its shift</Text>
+
+      <TouchableOpacity style={[styles.row, styles.anchorRow]} onPress={() => setShowAnchorPicker(true)}>
+        <Text style={styles.rowLabel}>Day 1 of the cycle</Text>
+        <Text style={styles.anchorText}>{formatDateLabel(anchor, now)} ›</Text>
+      </TouchableOpacity>
+
+      {showAnchorPicker && (
+        <DateTimePicker
+          value={anchor}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleAnchorChange}
+        />
+      )}
+
+      {/* Preview */}
+      <Text style={styles.heading}>Next Four Weeks</Text>
+      {renderPreview()}
+
+      {/* Rule summary */}
+      <Text style={styles.infoText}>{describeRecurrenceRule(rule)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 2,
+    borderColor: '#f0f0f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6200ee',
+    borderColor: '#6200ee',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  dayTypeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  dayTypeInput: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    color: '#333333',
+  },
+  timeButton: {
+    minWidth: 80,
+    alignItems: 'flex-end',
+  },
+  removeText: {
+    fontSize: 16,
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  anchorRow: {
+    marginTop: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#e8e8e8',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  anchorText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  previewWeek: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 4,
+  },
+  previewDay: {
+    flex: 1,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+  },
+  previewDayRings: {
+    backgroundColor: '#6200ee',
+  },
+  previewDate: {
+    fontSize: 10,
+    color: '#999999',
+  },
+  previewType: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  previewTime: {
+    fontSize: 10,
+  },
+  previewTextRings: {
+    color: '#ffffff',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,213 @@
+/**
+ * TimeZonePicker Component
+ *
+ * Modal component for pinning an alarm to a time zone.
+ * Lists common zones and accepts any IANA zone name typed into the search field.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Component Hierarchy
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  FlatList,
+  SafeAreaView,
+} from 'react-native';
+
+// Constants
+import { COMMON_TIME_ZONES } from '../constants/alarm.constants';
+
+// Utils
+import { formatTimeZoneName, getDeviceTimeZone, isValidTimeZone } from '../utils/timeZone';
+
+/**
+ * TimeZonePicker Props
+ */
+interface TimeZonePickerProps {
+  visible: boolean;
+  /** Selected zone; undefined means "follow the device" */
+  selectedTimeZone?: string;
+  onTimeZoneSelect: (timeZone: string | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Sentinel list entry for "follow the device"
+ */
+const DEVICE_ZONE = '';
+
+/**
+ * TimeZonePicker Component
+ */
+export const TimeZonePicker: React.FC<TimeZonePickerProps> = ({
+  visible,
+  selectedTimeZone,
+  onTimeZoneSelect,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+
+  /**
+   * Zones matching the search, plus the typed name itself if it's a valid zone
+   */
+  const zones: string[] = (() => {
+    const search = query.trim().toLowerCase();
+    const matches: string[] = COMMON_TIME_ZONES.filter((zone) => zone.toLowerCase().includes(search));
+    const typed = query.trim();
+    const extra = typed && !matches.includes(typed) && isValidTimeZone(typed) ? [typed] : [];
+    return search ? [...extra, ...matches] : [DEVICE_ZONE, ...matches];
+  })();
+
+  /**
+   * Handle zone selection
+   */
+  const handleSelect = (zone: string) => {
+    onTimeZoneSelect(zone === DEVICE_ZONE ? undefined : zone);
+    setQuery('');
+    onClose();
+  };
+
+  /**
+   * Render zone item
+   */
+  const renderZoneItem = ({ item }: { item: string }) => {
+    const isSelected = item === (selectedTimeZone ?? DEVICE_ZONE);
+
+    return (
+      <TouchableOpacity
+        style={[styles.zoneItem, isSelected && styles.zoneItemSelected]}
+        onPress={() => handleSelect(item)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.zoneName, isSelected && styles.zoneNameSelected]}>
+          {item === DEVICE_ZONE ? 'Device time' : formatTimeZoneName(item)}
+        </Text>
+        <Text style={styles.zoneSubtext}>
+          {item === DEVICE_ZONE ? `Follows the phone (now ${getDeviceTimeZone()})` : item}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modal}>
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Time Zone</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Search */}
+            <TextInput
+              style={styles.search}
+              placeholder="Search or type a zone, e.g. Asia/Seoul"
+              value={query}
+              onChangeText={setQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            {/* Zone list */}
+            <FlatList
+              data={zones}
+              renderItem={renderZoneItem}
+              keyExtractor={(item) => item || 'device'}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+            />
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eeeeee',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 24,
+    color: '#666666',
+  },
+  search: {
+    margin: 16,
+    marginBottom: 0,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  listContent: {
+    padding: 16,
+  },
+  zoneItem: {
+    backgroundColor: '#f8f8f8',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: '#f8f8f8',
+  },
+  zoneItemSelected: {
+    backgroundColor: '#f3e5ff',
+    borderColor: '#6200ee',
+  },
+  zoneName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  zoneNameSelected: {
+    color: '#6200ee',
+  },
+  zoneSubtext: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
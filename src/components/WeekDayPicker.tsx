@@ -14,7 +14,7 @@ import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { WeekDay } from '../types/alarm.types';
 
 // Constants
-import { WEEK_DAYS } from '../constants/alarm.constants';
+import { DEFAULT_WORKWEEK, WEEK_DAYS } from '../constants/alarm.constants';
 
 /**
  * WeekDayPicker Props
@@ -22,6 +22,10 @@ import { WEEK_DAYS } from '../constants/alarm.constants';
 interface WeekDayPickerProps {
   selectedDays: WeekDay[];
   onDaysChange: (days: WeekDay[]) => void;
+  /** Working days picked by the Workdays shortcut (the rest are the weekend) */
+  workweek?: WeekDay[];
+  /** Replaces the repeat summary below the buttons */
+  summary?: string;
 }
 
 /**
@@ -30,6 +34,8 @@ interface WeekDayPickerProps {
 export const WeekDayPicker: React.FC<WeekDayPickerProps> = ({
   selectedDays,
   onDaysChange,
+  workweek = DEFAULT_WORKWEEK,
+  summary,
 }) => {
   /**
    * Toggle day selection
@@ -52,17 +58,17 @@ export const WeekDayPicker: React.FC<WeekDayPickerProps> = ({
   };
 
   /**
-   * Quick select weekdays (Mon-Fri)
+   * Quick select the working days of the workweek
    */
-  const selectWeekdays = () => {
-    onDaysChange(['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+  const selectWorkdays = () => {
+    onDaysChange(WEEK_DAYS.filter((day) => workweek.includes(day)));
   };
 
   /**
-   * Quick select weekends (Sat-Sun)
+   * Quick select the days outside the workweek
    */
   const selectWeekends = () => {
-    onDaysChange(['Sat', 'Sun']);
+    onDaysChange(WEEK_DAYS.filter((day) => !workweek.includes(day)));
   };
 
   /**
@@ -95,8 +101,8 @@ export const WeekDayPicker: React.FC<WeekDayPickerProps> = ({
 
       {/* Quick selection buttons */}
       <View style={styles.quickSelectContainer}>
-        <TouchableOpacity style={styles.quickButton} onPress={selectWeekdays}>
-          <Text style={styles.quickButtonText}>Weekdays</Text>
+        <TouchableOpacity style={styles.quickButton} onPress={selectWorkdays}>
+          <Text style={styles.quickButtonText}>Workdays</Text>
         </TouchableOpacity>
         
         <TouchableOpacity style={styles.quickButton} onPress={selectWeekends}>
@@ -114,9 +120,10 @@ export const WeekDayPicker: React.FC<WeekDayPickerProps> = ({
 
       {/* Selection info */}
       <Text style={styles.infoText}>
-        {selectedDays.length === 0
-          ? 'One-time alarm (select days to repeat)'
-          : `Repeats on ${selectedDays.length} day${selectedDays.length > 1 ? 's' : ''}`}
+        {summary ??
+          (selectedDays.length === 0
+            ? 'One-time alarm (select days to repeat)'
+            : `Repeats on ${selectedDays.length} day${selectedDays.length > 1 ? 's' : ''}`)}
       </Text>
     </View>
   );
@@ -6,5 +6,10 @@
 
 export { AlarmItem } from './AlarmItem';
 export { WeekDayPicker } from './WeekDayPicker';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { RotationEditor } from './RotationEditor';
 export { SoundPicker } from './SoundPicker';
+export { TimeZonePicker } from './TimeZonePicker';
+export { IcsImportModal } from './IcsImportModal';
+export { QuickTimerModal } from './QuickTimerModal';
 
@@ -4,7 +4,16 @@
  * Application-wide constants for alarm functionality
  */
 
-import { WeekDay, StorageKey } from '../types/alarm.types';
+import {
+  WeekDay,
+  StorageKey,
+  DstGapPolicy,
+  DstOverlapPolicy,
+  SolarEvent,
+  QuietHours,
+  QuietHoursMode,
+  ShiftDayType,
+} from '../types/alarm.types';
 
 /**
  * Default snooze duration in minutes
@@ -21,6 +30,38 @@ export const MIN_SNOOZE_DURATION = 1;
  */
 export const MAX_SNOOZE_DURATION = 60;
 
+/**
+ * Durations offered by the quick-timer entry, in minutes
+ */
+export const QUICK_TIMER_PRESETS = [1, 5, 10, 15, 25, 30, 45, 60];
+
+/**
+ * Longest timer that can be started, in minutes
+ */
+export const MAX_TIMER_MINUTES = 24 * 60;
+
+/**
+ * Seconds added by a timer's "+1 min" action
+ */
+export const TIMER_EXTEND_SECONDS = 60;
+
+/**
+ * Number of future occurrences kept booked for each repeating alarm.
+ * All alarms share PENDING_NOTIFICATION_LIMIT, so with many alarms enabled
+ * each gets fewer (the soonest rings are booked first).
+ */
+export const SCHEDULE_WINDOW_SIZE = 10;
+
+/**
+ * Most notifications an app may have pending; iOS silently drops the rest
+ */
+export const PENDING_NOTIFICATION_LIMIT = 64;
+
+/**
+ * Pending-notification slots kept free for notifications booked on the spot (e.g. snoozes)
+ */
+export const RESERVED_NOTIFICATION_SLOTS = 4;
+
 /**
  * All weekdays in order
  */
@@ -52,12 +93,24 @@ export const NUMBER_TO_WEEKDAY: Record<number, WeekDay> = {
   6: 'Sat',
 };
 
+/**
+ * Short month names, indexed by Date.getMonth()
+ */
+export const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+] as const;
+
 /**
  * AsyncStorage keys
  */
 export const STORAGE_KEYS = {
   ALARMS: StorageKey.ALARMS,
   SETTINGS: StorageKey.SETTINGS,
+  EXCEPTION_LISTS: StorageKey.EXCEPTION_LISTS,
+  CHAINS: StorageKey.CHAINS,
+  RING_LOG: StorageKey.RING_LOG,
+  MISSED_ALARMS: StorageKey.MISSED_ALARMS,
 } as const;
 
 /**
@@ -84,10 +137,99 @@ export const NOTIFICATION_CHANNEL = {
  */
 export const NOTIFICATION_CATEGORY = {
   ID: 'alarm-category',
+  /** Same as ID but without the Snooze action, for rings that can't be snoozed (again) */
+  NO_SNOOZE_ID: 'alarm-category-no-snooze',
+  /** Prefix of categories offering several snooze lengths, e.g. "alarm-category-snooze-5-15-60" */
+  SNOOZE_CHOICES_ID_PREFIX: 'alarm-category-snooze-',
   SNOOZE_ACTION: 'snooze',
+  /** Prefix of actions that snooze for a fixed length, e.g. "snooze-15" */
+  SNOOZE_FOR_ACTION_PREFIX: 'snooze-',
   DISMISS_ACTION: 'dismiss',
 } as const;
 
+/**
+ * Snooze limits offered in the alarm editor (snoozes per ring)
+ */
+export const SNOOZE_MAX_COUNT_OPTIONS = [1, 2, 3, 5];
+
+/**
+ * Snooze lengths that can be offered as notification buttons (minutes)
+ */
+export const SNOOZE_OPTION_CHOICES = [1, 5, 10, 15, 30, 60];
+
+/**
+ * Maximum number of snooze buttons on a notification
+ * Android shows at most three actions, so Dismiss plus the first two snooze lengths stay visible there
+ */
+export const MAX_SNOOZE_OPTIONS = 3;
+
+/**
+ * Progressive snooze schedules offered in the alarm editor (minutes per snooze)
+ */
+export const SNOOZE_SCHEDULE_PRESETS = [
+  [10, 5, 3],
+  [15, 10, 5],
+  [20, 10, 5, 2],
+];
+
+/**
+ * Notification channel for heads-up notifications sent ahead of an alarm
+ * Kept separate so it stays below the MAX-importance alarm channel
+ */
+export const PRE_ALERT_CHANNEL = {
+  ID: 'pre-alert-channel',
+  NAME: 'Heads-up Notifications',
+  DESCRIPTION: 'Quiet reminders shortly before an alarm rings',
+} as const;
+
+/**
+ * Notification category for heads-up notifications
+ */
+export const PRE_ALERT_CATEGORY = {
+  ID: 'pre-alert-category',
+  DONE_ACTION: 'pre-alert-done',
+  DISMISS_ACTION: 'pre-alert-dismiss',
+} as const;
+
+/**
+ * Heads-up offsets offered in the alarm editor (minutes before the ring)
+ */
+export const PRE_ALERT_OPTIONS = [5, 10, 15, 30, 60];
+
+/**
+ * Heads-up offset used when the heads-up is first switched on (minutes)
+ */
+export const DEFAULT_PRE_ALERT_MINUTES = 15;
+
+/**
+ * Nag mode re-ring intervals offered in the alarm editor (minutes)
+ */
+export const NAG_INTERVAL_OPTIONS = [1, 2, 5, 10];
+
+/**
+ * Nag mode re-ring limits offered in the alarm editor
+ */
+export const NAG_MAX_COUNT_OPTIONS = [1, 3, 5, 10];
+
+/**
+ * Nag mode settings used when it is first switched on
+ */
+export const DEFAULT_NAG_INTERVAL_MINUTES = 5;
+export const DEFAULT_NAG_MAX_COUNT = 3;
+
+/**
+ * Solar events offered for sun-relative alarms
+ */
+export const SOLAR_EVENT_OPTIONS: { value: SolarEvent; label: string }[] = [
+  { value: 'sunrise', label: 'Sunrise' },
+  { value: 'sunset', label: 'Sunset' },
+];
+
+/**
+ * Offsets offered for sun-relative alarms (minutes; negative rings before the event)
+ */
+export const SOLAR_OFFSET_OPTIONS = [-60, -30, -15, 0, 15, 30, 60];
+
 /**
  * Time format patterns
  */
@@ -97,6 +239,163 @@ export const TIME_FORMAT = {
   DISPLAY_12H: 'h:mm A',
 } as const;
 
+/**
+ * Daylight-saving gap policy for alarms that don't set one
+ * Matches how clocks and calendars treat a skipped time: 02:30 rings at 03:30
+ */
+export const DEFAULT_DST_GAP_POLICY: DstGapPolicy = 'shift-forward';
+
+/**
+ * Daylight-saving overlap policy for alarms that don't set one
+ */
+export const DEFAULT_DST_OVERLAP_POLICY: DstOverlapPolicy = 'earlier';
+
+/**
+ * Daylight-saving policy choices offered in the alarm editor
+ */
+export const DST_GAP_POLICY_OPTIONS: { value: DstGapPolicy; label: string }[] = [
+  { value: 'shift-forward', label: 'Shift forward' },
+  { value: 'end-of-gap', label: 'At the change' },
+  { value: 'skip', label: 'Skip that day' },
+];
+
+export const DST_OVERLAP_POLICY_OPTIONS: { value: DstOverlapPolicy; label: string }[] = [
+  { value: 'earlier', label: 'First time' },
+  { value: 'later', label: 'Second time' },
+];
+
+/**
+ * Time zones offered when pinning an alarm to a zone (any valid IANA name can also be typed)
+ */
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Cairo',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+] as const;
+
+/**
+ * How many days ahead the Upcoming screen can look
+ */
+export const AGENDA_DAY_OPTIONS = [1, 3, 7, 14];
+
+/**
+ * Default number of days shown on the Upcoming screen
+ */
+export const DEFAULT_AGENDA_DAYS = 7;
+
+/**
+ * Proximity windows (minutes) offered for similar-alarm warnings; 0 only flags exact collisions
+ */
+export const CONFLICT_WINDOW_OPTIONS = [0, 5, 15, 30];
+
+/**
+ * Default proximity window for similar-alarm warnings
+ */
+export const DEFAULT_CONFLICT_WINDOW_MINUTES = 5;
+
+/**
+ * How many days ahead occurrences are compared when checking for similar alarms
+ * A month covers weekly and monthly patterns
+ */
+export const CONFLICT_HORIZON_DAYS = 31;
+
+/**
+ * Quiet hours applied when they are first switched on
+ */
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  start: '23:00',
+  end: '06:00',
+  days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  mode: 'defer',
+};
+
+/**
+ * Choices for what quiet hours do to the rings they cover
+ */
+export const QUIET_HOURS_MODE_OPTIONS: { value: QuietHoursMode; label: string }[] = [
+  { value: 'defer', label: 'Ring when they end' },
+  { value: 'suppress', label: "Don't ring" },
+];
+
+/**
+ * Delays (minutes) offered between the steps of an alarm chain
+ */
+export const CHAIN_DELAY_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
+
+/**
+ * Delay given to a newly added chain step
+ */
+export const DEFAULT_CHAIN_DELAY_MINUTES = 15;
+
+/**
+ * Working days used until the user sets their own workweek
+ */
+export const DEFAULT_WORKWEEK: WeekDay[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+/**
+ * Longest shift cycle, in days, the rotation editor builds
+ */
+export const MAX_ROTATION_DAYS = 28;
+
+/**
+ * Most day types (e.g. Day, Night, Off) a rotation can use
+ */
+export const MAX_SHIFT_DAY_TYPES = 4;
+
+/**
+ * Days shown in the rotation editor's preview
+ */
+export const ROTATION_PREVIEW_DAYS = 28;
+
+/**
+ * Common shift rotations offered as starting points
+ * Each cycle entry indexes the preset's day types; the last day type is the day off
+ */
+export const ROTATION_PRESETS: { label: string; dayTypes: ShiftDayType[]; cycle: number[] }[] = [
+  {
+    label: '4 on, 4 off',
+    dayTypes: [{ name: 'On', time: '06:00' }, { name: 'Off' }],
+    cycle: [0, 0, 0, 0, 1, 1, 1, 1],
+  },
+  {
+    label: '2 days, 2 nights, 4 off',
+    dayTypes: [{ name: 'Day', time: '05:30' }, { name: 'Night', time: '17:30' }, { name: 'Off' }],
+    cycle: [0, 0, 1, 1, 2, 2, 2, 2],
+  },
+  {
+    label: '3 on, 3 off',
+    dayTypes: [{ name: 'On', time: '06:00' }, { name: 'Off' }],
+    cycle: [0, 0, 0, 1, 1, 1],
+  },
+];
+
+/**
+ * Minutes a ring may go unseen before it counts as missed
+ * (leaves time for a late delivery or a response from the notification tray)
+ */
+export const MISSED_ALARM_GRACE_MINUTES = 10;
+
+/**
+ * Minutes from now that a missed alarm rings again when rescheduled from the report
+ */
+export const MISSED_ALARM_RESCHEDULE_MINUTES = 1;
+
 /**
  * Maximum number of alarms allowed
  */
@@ -110,4 +409,3 @@ export const UI_CONSTANTS = {
   FAB_OFFSET_BOTTOM: 16,
   FAB_OFFSET_RIGHT: 16,
 } as const;
-
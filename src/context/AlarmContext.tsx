@@ -9,11 +9,40 @@
  * Reference: Docs/API_REFERENCE.md - AlarmContext
  */
 
-import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { Alarm, AlarmInput } from '../types/alarm.types';
+import React, { createContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  Alarm,
+  AlarmChain,
+  AlarmInput,
+  ChainStep,
+  Clock,
+  ExceptionDateList,
+  MissedAlarm,
+  QuietHours,
+  ReconciliationReport,
+} from '../types/alarm.types';
 import { StorageService } from '../services/StorageService';
 import { SchedulerService } from '../services/SchedulerService';
-import { DEFAULT_SETTINGS } from '../constants/alarm.constants';
+import { ReconciliationService } from '../services/ReconciliationService';
+import { MissedAlarmService } from '../services/MissedAlarmService';
+import {
+  DEFAULT_SETTINGS,
+  MISSED_ALARM_RESCHEDULE_MINUTES,
+  TIMER_EXTEND_SECONDS,
+} from '../constants/alarm.constants';
+import { systemClock } from '../utils/clock';
+import {
+  findNextAlarmTime,
+  formatDateString,
+  formatDateToTime,
+  formatTimerDuration,
+  getOccurrenceDay,
+  getTimerRemainingMs,
+  isAlarmExpired,
+  isRepeatingAlarm,
+} from '../utils/timeCalculations';
+import { normalizeExceptionDates } from '../utils/exceptionDates';
 
 /**
  * AlarmContext value interface
@@ -23,15 +52,49 @@ interface AlarmContextValue {
   alarms: Alarm[];
   loading: boolean;
   error: string | null;
+  lastReconciliation: ReconciliationReport | null;
+  clock: Clock;
+  exceptionLists: ExceptionDateList[];
+  quietHours: QuietHours | undefined;
+  chains: AlarmChain[];
+  missedAlarms: MissedAlarm[];
   
   // CRUD Operations
   addAlarm: (alarmInput: AlarmInput) => Promise<void>;
   updateAlarm: (id: string, updates: Partial<Alarm>) => Promise<void>;
   deleteAlarm: (id: string) => Promise<void>;
   toggleAlarm: (id: string) => Promise<void>;
+  skipNextOccurrence: (id: string) => Promise<void>;
+  pauseAlarmUntil: (id: string, date: string) => Promise<void>;
+  resumeAlarm: (id: string) => Promise<void>;
+  
+  // Countdown timers
+  startTimer: (durationMinutes: number, label?: string) => Promise<void>;
+  pauseTimer: (id: string) => Promise<void>;
+  resumeTimer: (id: string) => Promise<void>;
+  extendTimer: (id: string) => Promise<void>;
+  
+  // Exception-date lists
+  addExceptionList: (name: string, dates: string[]) => Promise<ExceptionDateList>;
+  updateExceptionList: (id: string, updates: Partial<Pick<ExceptionDateList, 'name' | 'dates'>>) => Promise<void>;
+  deleteExceptionList: (id: string) => Promise<void>;
+  
+  // Quiet hours
+  setQuietHours: (quietHours: QuietHours | undefined) => Promise<void>;
+  
+  // Alarm chains
+  addChain: (name: string, triggerAlarmId: string, steps: ChainStep[]) => Promise<AlarmChain>;
+  updateChain: (id: string, updates: Partial<Pick<AlarmChain, 'name' | 'triggerAlarmId' | 'steps'>>) => Promise<void>;
+  deleteChain: (id: string) => Promise<void>;
+  advanceChain: (chainId: string, stepIndex: number) => Promise<void>;
+  
+  // Missed alarms
+  rescheduleMissedAlarm: (id: string) => Promise<void>;
+  dismissMissedAlarms: (ids?: string[]) => Promise<void>;
   
   // Utility
   refreshAlarms: () => Promise<void>;
+  reconcileAlarms: () => Promise<ReconciliationReport | null>;
   getAlarmById: (id: string) => Alarm | undefined;
 }
 
@@ -45,16 +108,30 @@ export const AlarmContext = createContext<AlarmContextValue | undefined>(undefin
  */
 interface AlarmProviderProps {
   children: ReactNode;
+  /** Source of "now" for scheduling and display (defaults to system time) */
+  clock?: Clock;
 }
 
 /**
  * AlarmProvider component
  * Wraps the app to provide alarm state and operations
  */
-export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
+export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children, clock = systemClock }) => {
   const [alarms, setAlarms] = useState<Alarm[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [lastReconciliation, setLastReconciliation] = useState<ReconciliationReport | null>(null);
+  const [exceptionLists, setExceptionLists] = useState<ExceptionDateList[]>([]);
+  const [quietHours, setQuietHoursState] = useState<QuietHours | undefined>(undefined);
+  const [chains, setChains] = useState<AlarmChain[]>([]);
+  const [missedAlarms, setMissedAlarms] = useState<MissedAlarm[]>([]);
+  const reconcilingRef = useRef(false);
+
+  // Scheduling must agree with the provider on what "now" is, which dates are exceptions
+  // and when quiet hours are
+  SchedulerService.setClock(clock);
+  SchedulerService.setExceptionLists(exceptionLists);
+  SchedulerService.setQuietHours(quietHours);
 
   /**
    * Load alarms from storage on mount
@@ -63,6 +140,74 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
     loadAlarms();
   }, []);
 
+  /**
+   * Reconcile stored alarms with OS-scheduled notifications and persist repairs
+   * Also reports missed rings and tops up the rolling window of repeating alarms
+   * @returns The reconciliation report, or null if a pass was already running or failed
+   */
+  const reconcileAlarms = useCallback(async (): Promise<ReconciliationReport | null> => {
+    if (reconcilingRef.current) {
+      return null;
+    }
+    
+    reconcilingRef.current = true;
+    try {
+      const storedLists = await StorageService.getExceptionLists();
+      SchedulerService.setExceptionLists(storedLists);
+      setExceptionLists(storedLists);
+      
+      const settings = await StorageService.getSettings();
+      SchedulerService.setQuietHours(settings.quietHours);
+      setQuietHoursState(settings.quietHours);
+      
+      const storedChains = await StorageService.getChains();
+      setChains(storedChains);
+      
+      const storedAlarms = await StorageService.getAlarms();
+      
+      // Look for rings that never arrived before repairs rebook anything
+      try {
+        setMissedAlarms(await MissedAlarmService.detectMissed(storedAlarms, clock.now()));
+      } catch (err) {
+        console.error('[AlarmContext] Failed to detect missed alarms:', err);
+      }
+      
+      const { alarms: repairedAlarms, report } = await ReconciliationService.reconcile(
+        storedAlarms,
+        clock.now(),
+        storedChains
+      );
+      
+      await StorageService.saveAlarms(repairedAlarms);
+      setAlarms(repairedAlarms);
+      setLastReconciliation(report);
+      
+      return report;
+    } catch (err) {
+      console.error('[AlarmContext] Failed to reconcile alarms:', err);
+      return null;
+    } finally {
+      reconcilingRef.current = false;
+    }
+  }, [clock]);
+
+  /**
+   * Reconcile again whenever the app returns to the foreground
+   */
+  useEffect(() => {
+    let previousState: AppStateStatus = AppState.currentState;
+    
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (previousState.match(/inactive|background/) && nextState === 'active') {
+        console.log('[AlarmContext] App returned to foreground, reconciling');
+        reconcileAlarms();
+      }
+      previousState = nextState;
+    });
+    
+    return () => subscription.remove();
+  }, [reconcileAlarms]);
+
   /**
    * Load alarms from AsyncStorage
    */
@@ -76,6 +221,9 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       
       setAlarms(storedAlarms);
       console.log('[AlarmContext] Loaded alarms:', storedAlarms.length);
+      
+      // Repair drift between storage and the OS schedule
+      await reconcileAlarms();
     } catch (err) {
       const errorMessage = 'Failed to load alarms';
       console.error('[AlarmContext]', errorMessage, err);
@@ -111,7 +259,7 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       
       // Generate UUID (simple version for now)
       const id = `alarm-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
+      const now = clock.now().toISOString();
       
       // Create complete alarm object
       const newAlarm: Alarm = {
@@ -119,15 +267,21 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
         id,
         createdAt: now,
         updatedAt: now,
-        notificationId: undefined,
+        notificationIds: [],
       };
       
-      // Schedule notification if alarm is enabled
+      // Refuse dated alarms whose time has already passed
+      if (newAlarm.isEnabled && isAlarmExpired(newAlarm, clock.now(), exceptionLists)) {
+        throw new Error('Alarm date and time have already passed');
+      }
+      
+      // Schedule notifications if alarm is enabled
       if (newAlarm.isEnabled) {
         try {
-          const notificationId = await SchedulerService.scheduleAlarm(newAlarm);
-          newAlarm.notificationId = notificationId;
-          console.log('[AlarmContext] Alarm scheduled:', notificationId);
+          const notificationIds = await SchedulerService.scheduleAlarm(newAlarm);
+          newAlarm.notificationIds = notificationIds;
+          newAlarm.lastScheduledAt = SchedulerService.getOneTimeRingAt(newAlarm);
+          console.log('[AlarmContext] Alarm scheduled:', notificationIds);
         } catch (err) {
           console.error('[AlarmContext] Failed to schedule alarm:', err);
           throw new Error('Failed to schedule alarm notification');
@@ -147,7 +301,7 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       setError(errorMessage);
       throw err;
     }
-  }, []);
+  }, [clock, exceptionLists]);
 
   /**
    * Update an existing alarm
@@ -169,29 +323,49 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
         ...updates,
         id, // Ensure ID doesn't change
         createdAt: existingAlarm.createdAt, // Preserve creation time
-        updatedAt: new Date().toISOString(),
+        updatedAt: clock.now().toISOString(),
       };
       
       // Handle scheduling changes
       const needsReschedule = 
         updates.time !== undefined ||
         updates.repeats !== undefined ||
+        'recurrence' in updates ||
+        'date' in updates ||
+        'activeFrom' in updates ||
+        'activeUntil' in updates ||
+        'skippedDates' in updates ||
+        'pausedUntil' in updates ||
+        'exceptionListIds' in updates ||
+        'timeZone' in updates ||
+        'dstGapPolicy' in updates ||
+        'dstOverlapPolicy' in updates ||
+        'solar' in updates ||
+        'isCritical' in updates ||
+        'timer' in updates ||
+        'preAlertMinutes' in updates ||
+        'nagIntervalMinutes' in updates ||
+        'nagMaxCount' in updates ||
         updates.isEnabled !== undefined ||
         updates.soundUri !== undefined;
       
       if (needsReschedule) {
-        // Cancel old notification if exists
-        if (existingAlarm.notificationId) {
-          await SchedulerService.cancelAlarm(existingAlarm.notificationId);
+        // Refuse to re-arm dated alarms whose time has already passed
+        if (updatedAlarm.isEnabled && isAlarmExpired(updatedAlarm, clock.now(), exceptionLists)) {
+          throw new Error('Alarm date and time have already passed');
         }
         
-        // Schedule new notification if enabled
+        // Cancel old notifications
+        await SchedulerService.cancelAlarmNotifications(existingAlarm.notificationIds);
+        
+        // Schedule new notifications if enabled
         if (updatedAlarm.isEnabled) {
-          const notificationId = await SchedulerService.scheduleAlarm(updatedAlarm);
-          updatedAlarm.notificationId = notificationId;
-          console.log('[AlarmContext] Alarm rescheduled:', notificationId);
+          const notificationIds = await SchedulerService.scheduleAlarm(updatedAlarm);
+          updatedAlarm.notificationIds = notificationIds;
+          updatedAlarm.lastScheduledAt = SchedulerService.getOneTimeRingAt(updatedAlarm);
+          console.log('[AlarmContext] Alarm rescheduled:', notificationIds);
         } else {
-          updatedAlarm.notificationId = undefined;
+          updatedAlarm.notificationIds = [];
         }
       }
       
@@ -208,7 +382,7 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       setError(errorMessage);
       throw err;
     }
-  }, [alarms]);
+  }, [alarms, clock, exceptionLists]);
 
   /**
    * Delete an alarm
@@ -224,10 +398,8 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
         throw new Error('Alarm not found');
       }
       
-      // Cancel notification if exists
-      if (alarm.notificationId) {
-        await SchedulerService.cancelAlarm(alarm.notificationId);
-      }
+      // Cancel all booked notifications
+      await SchedulerService.cancelAlarmNotifications(alarm.notificationIds);
       
       // Delete from storage
       await StorageService.deleteAlarm(id);
@@ -259,7 +431,18 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       }
       
       const newEnabledState = !alarm.isEnabled;
-      await updateAlarm(id, { isEnabled: newEnabledState });
+      
+      // Switching a finished timer back on restarts its countdown
+      if (alarm.timer && newEnabledState) {
+        const endsAt = new Date(clock.now().getTime() + alarm.timer.durationSeconds * 1000);
+        await updateAlarm(id, {
+          isEnabled: true,
+          time: formatDateToTime(endsAt),
+          timer: { durationSeconds: alarm.timer.durationSeconds, endsAt: endsAt.toISOString() },
+        });
+      } else {
+        await updateAlarm(id, { isEnabled: newEnabledState });
+      }
       
       console.log('[AlarmContext] Alarm toggled:', id, 'enabled:', newEnabledState);
     } catch (err) {
@@ -268,8 +451,600 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
       setError(errorMessage);
       throw err;
     }
+  }, [alarms, clock, updateAlarm]);
+
+  /**
+   * Skip the next occurrence of a repeating alarm
+   * The alarm re-arms itself for the occurrence after it
+   */
+  const skipNextOccurrence = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Skipping next occurrence:', id);
+      
+      const alarm = alarms.find(a => a.id === id);
+      if (!alarm) {
+        throw new Error('Alarm not found');
+      }
+      
+      // Skip whatever would ring next, on top of any skip already set
+      const next = findNextAlarmTime(alarm, clock.now(), exceptionLists, quietHours);
+      if (!next) {
+        throw new Error('Alarm has no upcoming occurrence to skip');
+      }
+      
+      await updateAlarm(id, {
+        skippedDates: [
+          ...(alarm.skippedDates ?? []),
+          formatDateString(getOccurrenceDay(alarm, next, quietHours)),
+        ],
+      });
+      
+      console.log('[AlarmContext] Occurrence skipped:', id, next.toISOString());
+    } catch (err) {
+      const errorMessage = 'Failed to skip alarm';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [alarms, clock, exceptionLists, quietHours, updateAlarm]);
+
+  /**
+   * Pause a repeating alarm until a date
+   * @param date - Calendar date (YYYY-MM-DD) the alarm rings again from
+   */
+  const pauseAlarmUntil = useCallback(async (id: string, date: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Pausing alarm:', id, 'until:', date);
+      
+      // Skips the pause covers are redundant; ones on or after the day it rings again still apply
+      const alarm = alarms.find(a => a.id === id);
+      const skippedDates = alarm?.skippedDates?.filter(skipped => skipped >= date);
+      
+      await updateAlarm(id, {
+        pausedUntil: date,
+        skippedDates: skippedDates && skippedDates.length > 0 ? skippedDates : undefined,
+      });
+    } catch (err) {
+      const errorMessage = 'Failed to pause alarm';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
   }, [alarms, updateAlarm]);
 
+  /**
+   * Clear any skip or pause so the alarm rings at its next regular occurrence
+   */
+  const resumeAlarm = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Resuming alarm:', id);
+      
+      await updateAlarm(id, { pausedUntil: undefined, skippedDates: undefined });
+    } catch (err) {
+      const errorMessage = 'Failed to resume alarm';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [updateAlarm]);
+
+  /**
+   * Start a countdown timer that rings once when it runs out
+   * @param durationMinutes - Length of the countdown
+   * @param label - Optional label (defaults to e.g. "25 min timer")
+   */
+  const startTimer = useCallback(async (durationMinutes: number, label?: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Starting timer:', durationMinutes, 'minutes');
+      
+      const durationSeconds = Math.round(durationMinutes * 60);
+      if (durationSeconds <= 0) {
+        throw new Error('Timer duration must be positive');
+      }
+      
+      const endsAt = new Date(clock.now().getTime() + durationSeconds * 1000);
+      
+      await addAlarm({
+        label: label?.trim() || `${formatTimerDuration(durationSeconds)} timer`,
+        time: formatDateToTime(endsAt),
+        repeats: [],
+        isEnabled: true,
+        soundUri: DEFAULT_SETTINGS.defaultSound,
+        snoozeEnabled: true,
+        snoozeDuration: DEFAULT_SETTINGS.defaultSnoozeDuration,
+        timer: { durationSeconds, endsAt: endsAt.toISOString() },
+      });
+    } catch (err) {
+      const errorMessage = 'Failed to start timer';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [addAlarm, clock]);
+
+  /**
+   * Stop a running timer's countdown, keeping the time left
+   */
+  const pauseTimer = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Pausing timer:', id);
+      
+      const alarm = alarms.find(a => a.id === id);
+      if (!alarm?.timer?.endsAt) {
+        throw new Error('Timer not found or not running');
+      }
+      
+      const remainingSeconds = Math.ceil(getTimerRemainingMs(alarm, clock.now()) / 1000);
+      await updateAlarm(id, {
+        timer: { durationSeconds: alarm.timer.durationSeconds, remainingSeconds },
+      });
+    } catch (err) {
+      const errorMessage = 'Failed to pause timer';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [alarms, clock, updateAlarm]);
+
+  /**
+   * Restart a paused timer's countdown from the time it had left
+   */
+  const resumeTimer = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Resuming timer:', id);
+      
+      const alarm = alarms.find(a => a.id === id);
+      if (!alarm?.timer || alarm.timer.endsAt !== undefined) {
+        throw new Error('Timer not found or not paused');
+      }
+      
+      const endsAt = new Date(clock.now().getTime() + (alarm.timer.remainingSeconds ?? 0) * 1000);
+      await updateAlarm(id, {
+        time: formatDateToTime(endsAt),
+        timer: { durationSeconds: alarm.timer.durationSeconds, endsAt: endsAt.toISOString() },
+      });
+    } catch (err) {
+      const errorMessage = 'Failed to resume timer';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [alarms, clock, updateAlarm]);
+
+  /**
+   * Add a minute to a timer
+   * A timer that already rang starts a fresh one-minute countdown
+   */
+  const extendTimer = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Extending timer:', id);
+      
+      const alarm = alarms.find(a => a.id === id);
+      if (!alarm?.timer) {
+        throw new Error('Timer not found');
+      }
+      
+      const durationSeconds = alarm.timer.durationSeconds + TIMER_EXTEND_SECONDS;
+      
+      if (alarm.timer.endsAt === undefined) {
+        await updateAlarm(id, {
+          timer: {
+            durationSeconds,
+            remainingSeconds: (alarm.timer.remainingSeconds ?? 0) + TIMER_EXTEND_SECONDS,
+          },
+        });
+        return;
+      }
+      
+      const now = clock.now().getTime();
+      const currentEnd = new Date(alarm.timer.endsAt).getTime();
+      const isRunning = alarm.isEnabled && currentEnd > now;
+      const endsAt = new Date((isRunning ? currentEnd : now) + TIMER_EXTEND_SECONDS * 1000);
+      
+      await updateAlarm(id, {
+        isEnabled: true,
+        time: formatDateToTime(endsAt),
+        timer: { durationSeconds, endsAt: endsAt.toISOString() },
+      });
+    } catch (err) {
+      const errorMessage = 'Failed to extend timer';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [alarms, clock, updateAlarm]);
+
+  /**
+   * Rebook enabled alarms that opted into an exception list after its dates changed
+   * @param listId - ID of the changed list
+   * @param lists - Exception lists after the change
+   * @param transform - Optional change applied to each affected alarm
+   */
+  const rebookAlarmsUsingList = async (
+    listId: string,
+    lists: ExceptionDateList[],
+    transform: (alarm: Alarm) => Alarm = alarm => alarm
+  ) => {
+    SchedulerService.setExceptionLists(lists);
+    
+    const storedAlarms = await StorageService.getAlarms();
+    const updatedAlarms: Alarm[] = [];
+    
+    for (const alarm of storedAlarms) {
+      if (!alarm.exceptionListIds?.includes(listId)) {
+        updatedAlarms.push(alarm);
+        continue;
+      }
+      
+      const updatedAlarm = transform(alarm);
+      if (updatedAlarm.isEnabled) {
+        updatedAlarm.notificationIds = await SchedulerService.rescheduleAlarm(updatedAlarm);
+      }
+      updatedAlarms.push(updatedAlarm);
+    }
+    
+    await StorageService.saveAlarms(updatedAlarms);
+    setAlarms(updatedAlarms);
+  };
+
+  /**
+   * Create a named exception-date list
+   * @param name - List name, e.g. "Company holidays 2027"
+   * @param dates - Calendar dates (YYYY-MM-DD)
+   * @returns The created list
+   */
+  const addExceptionList = useCallback(async (name: string, dates: string[]) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Adding exception list:', name);
+      
+      const now = clock.now().toISOString();
+      const list: ExceptionDateList = {
+        id: `exceptions-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        dates: normalizeExceptionDates(dates),
+        createdAt: now,
+        updatedAt: now,
+      };
+      
+      await StorageService.addExceptionList(list);
+      setExceptionLists(prev => [...prev, list]);
+      
+      console.log('[AlarmContext] Exception list added:', list.id);
+      return list;
+    } catch (err) {
+      const errorMessage = 'Failed to add exception list';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [clock]);
+
+  /**
+   * Rename an exception-date list or replace its dates
+   * Alarms that opted into the list are rebooked when its dates change
+   */
+  const updateExceptionList = useCallback(async (
+    id: string,
+    updates: Partial<Pick<ExceptionDateList, 'name' | 'dates'>>
+  ) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Updating exception list:', id);
+      
+      const existingList = exceptionLists.find(l => l.id === id);
+      if (!existingList) {
+        throw new Error('Exception list not found');
+      }
+      
+      const updatedList: ExceptionDateList = {
+        ...existingList,
+        ...updates,
+        dates: updates.dates ? normalizeExceptionDates(updates.dates) : existingList.dates,
+        updatedAt: clock.now().toISOString(),
+      };
+      const updatedLists = exceptionLists.map(l => l.id === id ? updatedList : l);
+      
+      await StorageService.updateExceptionList(updatedList);
+      setExceptionLists(updatedLists);
+      
+      if (updates.dates) {
+        await rebookAlarmsUsingList(id, updatedLists);
+      }
+      
+      console.log('[AlarmContext] Exception list updated:', id);
+    } catch (err) {
+      const errorMessage = 'Failed to update exception list';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [exceptionLists, clock]);
+
+  /**
+   * Delete an exception-date list and opt every alarm out of it
+   */
+  const deleteExceptionList = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Deleting exception list:', id);
+      
+      const updatedLists = exceptionLists.filter(l => l.id !== id);
+      
+      await StorageService.deleteExceptionList(id);
+      setExceptionLists(updatedLists);
+      
+      await rebookAlarmsUsingList(id, updatedLists, alarm => ({
+        ...alarm,
+        exceptionListIds: alarm.exceptionListIds?.filter(listId => listId !== id),
+      }));
+      
+      console.log('[AlarmContext] Exception list deleted:', id);
+    } catch (err) {
+      const errorMessage = 'Failed to delete exception list';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [exceptionLists]);
+
+  /**
+   * Change or switch off quiet hours and rebook every enabled alarm under them
+   * Rebooking also restores occurrences the previous quiet hours suppressed
+   */
+  const setQuietHours = useCallback(async (updatedQuietHours: QuietHours | undefined) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Updating quiet hours:', updatedQuietHours ?? 'off');
+      
+      await StorageService.updateSettings({ quietHours: updatedQuietHours });
+      SchedulerService.setQuietHours(updatedQuietHours);
+      setQuietHoursState(updatedQuietHours);
+      
+      const storedAlarms = await StorageService.getAlarms();
+      const updatedAlarms: Alarm[] = [];
+      
+      for (const alarm of storedAlarms) {
+        // Timers and critical alarms without heads-ups ring through quiet hours, so their bookings stand
+        if (!alarm.isEnabled || alarm.timer || (alarm.isCritical && !alarm.preAlertMinutes)) {
+          updatedAlarms.push(alarm);
+          continue;
+        }
+        
+        const notificationIds = await SchedulerService.rescheduleAlarm(alarm);
+        updatedAlarms.push({ ...alarm, notificationIds });
+      }
+      
+      await StorageService.saveAlarms(updatedAlarms);
+      setAlarms(updatedAlarms);
+      
+      console.log('[AlarmContext] Quiet hours updated');
+    } catch (err) {
+      const errorMessage = 'Failed to update quiet hours';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Create an alarm chain
+   * @param name - Chain name, e.g. "Morning routine"
+   * @param triggerAlarmId - Alarm whose dismissal starts the chain
+   * @param steps - Follow-ups, each booked relative to the dismissal before it
+   * @returns The created chain
+   */
+  const addChain = useCallback(async (name: string, triggerAlarmId: string, steps: ChainStep[]) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Adding chain:', name);
+      
+      const now = clock.now().toISOString();
+      const chain: AlarmChain = {
+        id: `chain-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        triggerAlarmId,
+        steps,
+        createdAt: now,
+        updatedAt: now,
+      };
+      
+      await StorageService.addChain(chain);
+      setChains(prev => [...prev, chain]);
+      
+      console.log('[AlarmContext] Chain added:', chain.id);
+      return chain;
+    } catch (err) {
+      const errorMessage = 'Failed to add chain';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [clock]);
+
+  /**
+   * Rename a chain, change the alarm that starts it, or edit its steps
+   * A follow-up already booked keeps its time; later steps use the new settings
+   */
+  const updateChain = useCallback(async (
+    id: string,
+    updates: Partial<Pick<AlarmChain, 'name' | 'triggerAlarmId' | 'steps'>>
+  ) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Updating chain:', id);
+      
+      const storedChains = await StorageService.getChains();
+      const existingChain = storedChains.find(c => c.id === id);
+      if (!existingChain) {
+        throw new Error('Chain not found');
+      }
+      
+      const updatedChain: AlarmChain = {
+        ...existingChain,
+        ...updates,
+        updatedAt: clock.now().toISOString(),
+      };
+      
+      await StorageService.updateChain(updatedChain);
+      setChains(storedChains.map(c => c.id === id ? updatedChain : c));
+      
+      console.log('[AlarmContext] Chain updated:', id);
+    } catch (err) {
+      const errorMessage = 'Failed to update chain';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [clock]);
+
+  /**
+   * Delete a chain and cancel its pending follow-up
+   */
+  const deleteChain = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      console.log('[AlarmContext] Deleting chain:', id);
+      
+      const chain = (await StorageService.getChains()).find(c => c.id === id);
+      if (chain?.pendingNotificationId) {
+        await SchedulerService.cancelAlarm(chain.pendingNotificationId);
+      }
+      
+      await StorageService.deleteChain(id);
+      setChains(prev => prev.filter(c => c.id !== id));
+      
+      console.log('[AlarmContext] Chain deleted:', id);
+    } catch (err) {
+      const errorMessage = 'Failed to delete chain';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Book a chain's follow-up relative to now, replacing any follow-up still pending
+   * Called when the trigger alarm (stepIndex 0) or the previous follow-up is dismissed;
+   * past the last step the chain simply stops
+   * @param chainId - Chain to advance
+   * @param stepIndex - Step to book next
+   */
+  const advanceChain = useCallback(async (chainId: string, stepIndex: number) => {
+    try {
+      setError(null);
+      
+      // Read from storage, since this runs from notification responses
+      const storedChains = await StorageService.getChains();
+      const chain = storedChains.find(c => c.id === chainId);
+      if (!chain) {
+        console.warn('[AlarmContext] Chain not found:', chainId);
+        return;
+      }
+      
+      // Restarting a chain drops the follow-up left over from its last run
+      if (chain.pendingNotificationId) {
+        await SchedulerService.cancelAlarm(chain.pendingNotificationId);
+      }
+      
+      let pendingNotificationId: string | undefined;
+      if (stepIndex < chain.steps.length) {
+        const triggerAlarm = (await StorageService.getAlarms()).find(a => a.id === chain.triggerAlarmId);
+        pendingNotificationId = await SchedulerService.scheduleChainStep(
+          chain,
+          stepIndex,
+          triggerAlarm?.soundUri ?? DEFAULT_SETTINGS.defaultSound
+        );
+        console.log('[AlarmContext] Chain advanced:', chainId, 'to step', stepIndex);
+      } else {
+        console.log('[AlarmContext] Chain finished:', chainId);
+      }
+      
+      const updatedChain: AlarmChain = { ...chain, pendingNotificationId };
+      await StorageService.updateChain(updatedChain);
+      setChains(storedChains.map(c => c.id === chainId ? updatedChain : c));
+    } catch (err) {
+      const errorMessage = 'Failed to advance chain';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Ring a missed alarm again shortly, then drop it from the missed-alarm report
+   * A one-time alarm switched off after its missed ring is switched back on, so reconciliation
+   * keeps the catch-up and switches the alarm off again once it has rung. Switched-off
+   * repeating alarms can't be rescheduled, since switching them on would book every occurrence.
+   * @param id - Missed alarm ID
+   */
+  const rescheduleMissedAlarm = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      
+      const missed = missedAlarms.find(m => m.id === id);
+      if (!missed) {
+        throw new Error('Missed alarm not found');
+      }
+      
+      const alarm = alarms.find(a => a.id === missed.alarmId);
+      if (!alarm) {
+        throw new Error('Alarm not found');
+      }
+      if (!alarm.isEnabled && isRepeatingAlarm(alarm)) {
+        throw new Error('Alarm is switched off');
+      }
+      
+      const notificationId = await SchedulerService.scheduleCatchUp(
+        alarm,
+        new Date(missed.expectedAt),
+        MISSED_ALARM_RESCHEDULE_MINUTES
+      );
+      
+      // Track the catch-up alongside the booked occurrences
+      const updatedAlarm: Alarm = {
+        ...alarm,
+        isEnabled: true,
+        notificationIds: [...alarm.notificationIds, notificationId],
+        updatedAt: clock.now().toISOString(),
+      };
+      await StorageService.updateAlarm(updatedAlarm);
+      setAlarms(prev => prev.map(a => a.id === alarm.id ? updatedAlarm : a));
+      
+      setMissedAlarms(await MissedAlarmService.resolveMissed([id]));
+      console.log('[AlarmContext] Missed alarm rescheduled:', id);
+    } catch (err) {
+      const errorMessage = 'Failed to reschedule missed alarm';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [alarms, missedAlarms, clock]);
+
+  /**
+   * Drop missed alarms from the report without ringing them
+   * @param ids - Missed alarm IDs (all of them if omitted)
+   */
+  const dismissMissedAlarms = useCallback(async (ids?: string[]) => {
+    try {
+      setError(null);
+      setMissedAlarms(await MissedAlarmService.resolveMissed(ids ?? missedAlarms.map(m => m.id)));
+      console.log('[AlarmContext] Missed alarms dismissed');
+    } catch (err) {
+      const errorMessage = 'Failed to dismiss missed alarms';
+      console.error('[AlarmContext]', errorMessage, err);
+      setError(errorMessage);
+      throw err;
+    }
+  }, [missedAlarms]);
+
   /**
    * Context value
    */
@@ -277,11 +1052,35 @@ export const AlarmProvider: React.FC<AlarmProviderProps> = ({ children }) => {
     alarms,
     loading,
     error,
+    lastReconciliation,
+    clock,
+    exceptionLists,
+    quietHours,
+    chains,
+    missedAlarms,
     addAlarm,
     updateAlarm,
     deleteAlarm,
     toggleAlarm,
+    skipNextOccurrence,
+    pauseAlarmUntil,
+    resumeAlarm,
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    extendTimer,
+    addExceptionList,
+    updateExceptionList,
+    deleteExceptionList,
+    setQuietHours,
+    addChain,
+    updateChain,
+    deleteChain,
+    advanceChain,
+    rescheduleMissedAlarm,
+    dismissMissedAlarms,
     refreshAlarms,
+    reconcileAlarms,
     getAlarmById,
   };
 
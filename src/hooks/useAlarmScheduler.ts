@@ -8,20 +8,23 @@
  */
 
 import { useCallback } from 'react';
-import { Alarm } from '../types/alarm.types';
+import { AgendaEntry, Alarm, AlarmConflict } from '../types/alarm.types';
 import { SchedulerService } from '../services/SchedulerService';
 
 /**
  * useAlarmScheduler return type
  */
 interface UseAlarmSchedulerReturn {
-  scheduleAlarm: (alarm: Alarm) => Promise<string>;
+  scheduleAlarm: (alarm: Alarm) => Promise<string[]>;
   cancelSchedule: (notificationId: string) => Promise<void>;
-  rescheduleAlarm: (alarm: Alarm) => Promise<string>;
-  scheduleSnooze: (alarm: Alarm, durationMinutes: number) => Promise<string>;
-  rescheduleRepeatingAlarm: (alarm: Alarm) => Promise<string | null>;
-  rescheduleAllAlarms: (alarms: Alarm[]) => Promise<Map<string, string>>;
+  rescheduleAlarm: (alarm: Alarm) => Promise<string[]>;
+  scheduleSnooze: (alarm: Alarm, durationMinutes: number, snoozeNumber?: number) => Promise<string>;
+  topUpAlarm: (alarm: Alarm) => Promise<string[]>;
+  cancelNags: (alarm: Alarm) => Promise<string[]>;
+  rescheduleAllAlarms: (alarms: Alarm[]) => Promise<Map<string, string[]>>;
   validateAlarm: (alarm: Alarm) => boolean;
+  getAgenda: (alarms: Alarm[], days: number) => AgendaEntry[];
+  findConflicts: (alarm: Alarm, alarms: Alarm[], windowMinutes: number) => AlarmConflict[];
 }
 
 /**
@@ -34,10 +37,10 @@ interface UseAlarmSchedulerReturn {
  * const { scheduleAlarm, cancelSchedule, scheduleSnooze } = useAlarmScheduler();
  * 
  * // Schedule alarm
- * const notificationId = await scheduleAlarm(alarm);
+ * const notificationIds = await scheduleAlarm(alarm);
  * 
- * // Cancel schedule
- * await cancelSchedule(notificationId);
+ * // Cancel one booked occurrence
+ * await cancelSchedule(notificationIds[0]);
  * 
  * // Schedule snooze
  * await scheduleSnooze(alarm, 10); // 10 minutes
@@ -46,7 +49,7 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
   /**
    * Schedule an alarm
    */
-  const scheduleAlarm = useCallback(async (alarm: Alarm): Promise<string> => {
+  const scheduleAlarm = useCallback(async (alarm: Alarm): Promise<string[]> => {
     try {
       return await SchedulerService.scheduleAlarm(alarm);
     } catch (error) {
@@ -70,7 +73,7 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
   /**
    * Reschedule an alarm
    */
-  const rescheduleAlarm = useCallback(async (alarm: Alarm): Promise<string> => {
+  const rescheduleAlarm = useCallback(async (alarm: Alarm): Promise<string[]> => {
     try {
       return await SchedulerService.rescheduleAlarm(alarm);
     } catch (error) {
@@ -83,9 +86,9 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
    * Schedule a snooze notification
    */
   const scheduleSnooze = useCallback(
-    async (alarm: Alarm, durationMinutes: number): Promise<string> => {
+    async (alarm: Alarm, durationMinutes: number, snoozeNumber?: number): Promise<string> => {
       try {
-        return await SchedulerService.scheduleSnooze(alarm, durationMinutes);
+        return await SchedulerService.scheduleSnooze(alarm, durationMinutes, snoozeNumber);
       } catch (error) {
         console.error('[useAlarmScheduler] Failed to schedule snooze:', error);
         throw error;
@@ -95,14 +98,29 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
   );
 
   /**
-   * Reschedule a repeating alarm for next occurrence
+   * Top up the rolling window of booked occurrences
    */
-  const rescheduleRepeatingAlarm = useCallback(
-    async (alarm: Alarm): Promise<string | null> => {
+  const topUpAlarm = useCallback(
+    async (alarm: Alarm): Promise<string[]> => {
       try {
-        return await SchedulerService.rescheduleRepeatingAlarm(alarm);
+        return await SchedulerService.topUpAlarm(alarm);
       } catch (error) {
-        console.error('[useAlarmScheduler] Failed to reschedule repeating alarm:', error);
+        console.error('[useAlarmScheduler] Failed to top up alarm:', error);
+        throw error;
+      }
+    },
+    []
+  );
+
+  /**
+   * Cancel nag-mode re-rings of occurrences that have already rung
+   */
+  const cancelNags = useCallback(
+    async (alarm: Alarm): Promise<string[]> => {
+      try {
+        return await SchedulerService.cancelNags(alarm);
+      } catch (error) {
+        console.error('[useAlarmScheduler] Failed to cancel re-rings:', error);
         throw error;
       }
     },
@@ -113,7 +131,7 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
    * Reschedule all alarms
    */
   const rescheduleAllAlarms = useCallback(
-    async (alarms: Alarm[]): Promise<Map<string, string>> => {
+    async (alarms: Alarm[]): Promise<Map<string, string[]>> => {
       try {
         return await SchedulerService.rescheduleAllAlarms(alarms);
       } catch (error) {
@@ -136,14 +154,39 @@ export const useAlarmScheduler = (): UseAlarmSchedulerReturn => {
     }
   }, []);
 
+  /**
+   * List every upcoming ring in the next few days
+   */
+  const getAgenda = useCallback((alarms: Alarm[], days: number): AgendaEntry[] => {
+    try {
+      return SchedulerService.getAgenda(alarms, days);
+    } catch (error) {
+      console.error('[useAlarmScheduler] Failed to build agenda:', error);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Find alarms ringing at or near the same time as an alarm
+   */
+  const findConflicts = useCallback(
+    (alarm: Alarm, alarms: Alarm[], windowMinutes: number): AlarmConflict[] => {
+      return SchedulerService.findConflicts(alarm, alarms, windowMinutes);
+    },
+    []
+  );
+
   return {
     scheduleAlarm,
     cancelSchedule,
     rescheduleAlarm,
     scheduleSnooze,
-    rescheduleRepeatingAlarm,
+    topUpAlarm,
+    cancelNags,
     rescheduleAllAlarms,
     validateAlarm,
+    getAgenda,
+    findConflicts,
   };
 };
 
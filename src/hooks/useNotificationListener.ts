@@ -10,41 +10,55 @@
 
 import { useEffect } from 'react';
 import * as Notifications from 'expo-notifications';
-import { NotificationAction } from '../types/alarm.types';
+import { NotificationAction, NotificationData } from '../types/alarm.types';
+import { NotificationService } from '../services/NotificationService';
+import { MissedAlarmService } from '../services/MissedAlarmService';
 
 /**
  * Notification listener callbacks
  */
 interface NotificationListenerCallbacks {
-  onSnooze: (alarmId: string) => Promise<void>;
-  onDismiss: (alarmId: string) => Promise<void>;
+  /**
+   * `snoozeCount` is how many times the ring being snoozed was already snoozed;
+   * `minutes` is set when the user picked one of several snooze lengths
+   */
+  onSnooze: (alarmId: string, snoozeCount: number, minutes?: number) => Promise<void>;
+  /** `chainStep` is set when the dismissed notification was a chain follow-up */
+  onDismiss: (alarmId: string, chainStep?: { chainId: string; stepIndex: number }) => Promise<void>;
+  /** Called when an alarm notification fires while the app is running */
+  onReceived?: (alarmId: string) => Promise<void>;
+  /**
+   * Called when a heads-up is completed or dismissed; `alarmAt` is the ring it announced
+   * and `occurrenceDate` the calendar day of that occurrence
+   */
+  onPreAlertDismiss?: (alarmId: string, alarmAt?: string, occurrenceDate?: string) => Promise<void>;
 }
 
 /**
  * useNotificationListener hook
  * Sets up global notification response listeners
  * 
- * @param callbacks - Object with onSnooze and onDismiss callbacks
+ * @param callbacks - Object with onSnooze, onDismiss and optional onReceived/onPreAlertDismiss callbacks
  * 
  * @example
  * // In App.tsx
  * useNotificationListener({
- *   onSnooze: async (alarmId) => {
+ *   onSnooze: async (alarmId, snoozeCount) => {
  *     const alarm = getAlarmById(alarmId);
- *     if (alarm) {
- *       await scheduleSnooze(alarm, alarm.snoozeDuration);
+ *     if (alarm && hasSnoozesLeft(alarm, snoozeCount)) {
+ *       await scheduleSnooze(alarm, getSnoozeMinutes(alarm, snoozeCount + 1), snoozeCount + 1);
  *     }
  *   },
  *   onDismiss: async (alarmId) => {
  *     const alarm = getAlarmById(alarmId);
- *     if (alarm && alarm.repeats.length > 0) {
- *       await rescheduleRepeatingAlarm(alarm);
+ *     if (alarm && isRepeatingAlarm(alarm)) {
+ *       await topUpAlarm(alarm);
  *     }
  *   }
  * });
  */
 export const useNotificationListener = (callbacks: NotificationListenerCallbacks) => {
-  const { onSnooze, onDismiss } = callbacks;
+  const { onSnooze, onDismiss, onReceived, onPreAlertDismiss } = callbacks;
 
   useEffect(() => {
     console.log('[useNotificationListener] Setting up notification listeners');
@@ -61,6 +75,23 @@ export const useNotificationListener = (callbacks: NotificationListenerCallbacks
         
         // Notification will be displayed according to notification handler
         // configured in NotificationService
+        
+        const alarmId = notification.request.content.data?.alarmId as string | undefined;
+        
+        // The ring arrived, so it can't have been missed
+        if (alarmId) {
+          void MissedAlarmService.recordObserved(
+            notification.request.content.data as NotificationData,
+            'delivered',
+            new Date(notification.date)
+          );
+        }
+        
+        if (alarmId && onReceived) {
+          onReceived(alarmId).catch((error) => {
+            console.error('[useNotificationListener] Error handling received notification:', error);
+          });
+        }
       }
     );
 
@@ -87,28 +118,53 @@ export const useNotificationListener = (callbacks: NotificationListenerCallbacks
           return;
         }
 
+        // Chain follow-ups report which step was answered
+        const { chainId, chainStep: stepIndex } = data as NotificationData;
+        const chainStep =
+          chainId !== undefined && stepIndex !== undefined ? { chainId, stepIndex } : undefined;
+
+        // Any answer, even a tap, shows the ring reached the user
+        await MissedAlarmService.recordObserved(data as NotificationData, 'responded', new Date());
+        
         try {
           // Dismiss the notification first to prevent repeated popups
           await Notifications.dismissNotificationAsync(notification.request.identifier);
           console.log('[useNotificationListener] Notification dismissed:', notification.request.identifier);
           
-          // Handle snooze action
-          if (actionIdentifier === NotificationAction.SNOOZE) {
-            console.log('[useNotificationListener] Snooze action triggered for alarm:', alarmId);
-            await onSnooze(alarmId);
+          // Heads-up notifications never count as dismissing the alarm itself
+          if ((data as NotificationData).isPreAlert) {
+            if (
+              (actionIdentifier === NotificationAction.PRE_ALERT_DONE ||
+                actionIdentifier === NotificationAction.PRE_ALERT_DISMISS) &&
+              onPreAlertDismiss
+            ) {
+              console.log('[useNotificationListener] Heads-up action triggered for alarm:', alarmId);
+              const { alarmAt, occurrenceDate } = data as NotificationData;
+              await onPreAlertDismiss(alarmId, alarmAt, occurrenceDate);
+            }
+          }
+          
+          // Handle snooze action (the alarm's own length, or one picked from several)
+          else if (
+            actionIdentifier === NotificationAction.SNOOZE ||
+            NotificationService.parseSnoozeActionId(actionIdentifier) !== null
+          ) {
+            const minutes = NotificationService.parseSnoozeActionId(actionIdentifier) ?? undefined;
+            console.log('[useNotificationListener] Snooze action triggered for alarm:', alarmId, minutes);
+            await onSnooze(alarmId, (data as NotificationData).snoozeCount ?? 0, minutes);
           }
           
           // Handle dismiss action
           else if (actionIdentifier === NotificationAction.DISMISS) {
             console.log('[useNotificationListener] Dismiss action triggered for alarm:', alarmId);
-            await onDismiss(alarmId);
+            await onDismiss(alarmId, chainStep);
           }
           
           // Handle default action (notification tap without action button)
           else if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
             console.log('[useNotificationListener] Default action (notification tap) for alarm:', alarmId);
             // Treat as dismiss
-            await onDismiss(alarmId);
+            await onDismiss(alarmId, chainStep);
           }
         } catch (error) {
           console.error('[useNotificationListener] Error handling notification response:', error);
@@ -124,7 +180,7 @@ export const useNotificationListener = (callbacks: NotificationListenerCallbacks
       notificationReceivedSubscription.remove();
       notificationResponseSubscription.remove();
     };
-  }, [onSnooze, onDismiss]);
+  }, [onSnooze, onDismiss, onReceived, onPreAlertDismiss]);
 };
 
 /**
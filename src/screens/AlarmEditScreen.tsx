@@ -23,39 +23,124 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 // Hooks
-import { useAlarms } from '../hooks';
+import { useAlarms, useAlarmScheduler } from '../hooks';
 
 // Components
 import { WeekDayPicker } from '../components/WeekDayPicker';
+import { RecurrenceEditor } from '../components/RecurrenceEditor';
+import { RotationEditor } from '../components/RotationEditor';
 import { SoundPicker } from '../components/SoundPicker';
+import { TimeZonePicker } from '../components/TimeZonePicker';
 
 // Types
-import { RootStackParamList, WeekDay, AlarmInput } from '../types/alarm.types';
+import {
+  RootStackParamList,
+  WeekDay,
+  AlarmConflict,
+  AlarmInput,
+  RecurrenceRule,
+  DstGapPolicy,
+  DstOverlapPolicy,
+  SolarAnchor,
+  SolarEvent,
+} from '../types/alarm.types';
 
 // Constants
-import { DEFAULT_SNOOZE_DURATION } from '../constants/alarm.constants';
+import {
+  DEFAULT_SNOOZE_DURATION,
+  DEFAULT_DST_GAP_POLICY,
+  DEFAULT_DST_OVERLAP_POLICY,
+  DST_GAP_POLICY_OPTIONS,
+  DST_OVERLAP_POLICY_OPTIONS,
+  SOLAR_EVENT_OPTIONS,
+  SOLAR_OFFSET_OPTIONS,
+  PRE_ALERT_OPTIONS,
+  DEFAULT_PRE_ALERT_MINUTES,
+  SNOOZE_MAX_COUNT_OPTIONS,
+  SNOOZE_OPTION_CHOICES,
+  MAX_SNOOZE_OPTIONS,
+  SNOOZE_SCHEDULE_PRESETS,
+  NAG_INTERVAL_OPTIONS,
+  NAG_MAX_COUNT_OPTIONS,
+  DEFAULT_NAG_INTERVAL_MINUTES,
+  DEFAULT_NAG_MAX_COUNT,
+  DEFAULT_CONFLICT_WINDOW_MINUTES,
+  DEFAULT_WORKWEEK,
+  ROTATION_PRESETS,
+} from '../constants/alarm.constants';
 import { DEFAULT_SOUND_ID, getSoundName } from '../constants/sounds';
 
 // Utils
-import { formatDateToTime, getCurrentTimeString } from '../utils/timeCalculations';
+import {
+  formatAlarmTime,
+  formatDateToTime,
+  getCurrentTimeString,
+  formatDateString,
+  formatDateLabel,
+  parseDateString,
+  combineDayAndTime,
+  startOfDay,
+  addDays,
+  formatSnoozeOption,
+  describeAlarmConflict,
+} from '../utils/timeCalculations';
+import { formatTimeZoneName, resolveWallClockTime } from '../utils/timeZone';
+import { getSolarEventTime, isValidCoordinate } from '../utils/solar';
+
+// Services
+import { StorageService } from '../services/StorageService';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'AlarmEdit'>;
 
+/**
+ * Repeat modes offered in the Repeat section
+ */
+type RepeatMode = 'weekly' | 'business' | 'monthly' | 'yearly' | 'interval' | 'rotation';
+
+const REPEAT_MODES: { mode: RepeatMode; label: string }[] = [
+  { mode: 'weekly', label: 'Weekly' },
+  { mode: 'business', label: 'Workdays' },
+  { mode: 'monthly', label: 'Monthly' },
+  { mode: 'yearly', label: 'Yearly' },
+  { mode: 'interval', label: 'Every N' },
+  { mode: 'rotation', label: 'Shifts' },
+];
+
 /**
  * AlarmEditScreen Component
  */
 export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
   const { alarmId, mode } = route.params || {};
-  const { alarms, addAlarm, updateAlarm } = useAlarms();
+  const { alarms, clock, exceptionLists, addAlarm, updateAlarm, deleteAlarm } = useAlarms();
+  const { findConflicts } = useAlarmScheduler();
   
   // Find existing alarm if editing
   const existingAlarm = alarmId ? alarms.find((a) => a.id === alarmId) : undefined;
 
   // Form state
-  const [time, setTime] = useState<string>(existingAlarm?.time || getCurrentTimeString());
+  const [time, setTime] = useState<string>(existingAlarm?.time || getCurrentTimeString(clock.now()));
+  const [timeZone, setTimeZone] = useState<string | undefined>(existingAlarm?.timeZone);
+  const [dstGapPolicy, setDstGapPolicy] = useState<DstGapPolicy>(
+    existingAlarm?.dstGapPolicy || DEFAULT_DST_GAP_POLICY
+  );
+  const [dstOverlapPolicy, setDstOverlapPolicy] = useState<DstOverlapPolicy>(
+    existingAlarm?.dstOverlapPolicy || DEFAULT_DST_OVERLAP_POLICY
+  );
+  const [solarEvent, setSolarEvent] = useState<SolarEvent | undefined>(existingAlarm?.solar?.event);
+  const [solarOffset, setSolarOffset] = useState(existingAlarm?.solar?.offsetMinutes ?? 0);
+  const [latitudeText, setLatitudeText] = useState(
+    existingAlarm?.solar ? String(existingAlarm.solar.latitude) : ''
+  );
+  const [longitudeText, setLongitudeText] = useState(
+    existingAlarm?.solar ? String(existingAlarm.solar.longitude) : ''
+  );
   const [label, setLabel] = useState(existingAlarm?.label || '');
   const [description, setDescription] = useState(existingAlarm?.description || '');
   const [repeats, setRepeats] = useState<WeekDay[]>(existingAlarm?.repeats || []);
+  const [date, setDate] = useState<string | undefined>(existingAlarm?.date);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(
+    existingAlarm?.recurrence
+  );
   const [soundUri, setSoundUri] = useState(existingAlarm?.soundUri || DEFAULT_SOUND_ID);
   const [snoozeEnabled, setSnoozeEnabled] = useState(
     existingAlarm?.snoozeEnabled ?? true
@@ -63,26 +148,82 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
   const [snoozeDuration, setSnoozeDuration] = useState(
     existingAlarm?.snoozeDuration || DEFAULT_SNOOZE_DURATION
   );
+  const [nagIntervalMinutes, setNagIntervalMinutes] = useState<number | undefined>(
+    existingAlarm?.nagIntervalMinutes
+  );
+  const [nagMaxCount, setNagMaxCount] = useState(
+    existingAlarm?.nagMaxCount ?? DEFAULT_NAG_MAX_COUNT
+  );
+  const [preAlertMinutes, setPreAlertMinutes] = useState<number | undefined>(
+    existingAlarm?.preAlertMinutes
+  );
+  const [preAlertCancelsAlarm, setPreAlertCancelsAlarm] = useState(
+    existingAlarm?.preAlertCancelsAlarm ?? false
+  );
+  const [snoozeMaxCount, setSnoozeMaxCount] = useState<number | undefined>(
+    existingAlarm?.snoozeMaxCount
+  );
+  const [snoozeOptions, setSnoozeOptions] = useState<number[] | undefined>(
+    existingAlarm?.snoozeOptions
+  );
+  const [snoozeSchedule, setSnoozeSchedule] = useState<number[] | undefined>(
+    existingAlarm?.snoozeSchedule
+  );
   const [isEnabled, setIsEnabled] = useState(existingAlarm?.isEnabled ?? true);
+  const [isCritical, setIsCritical] = useState(existingAlarm?.isCritical ?? false);
+  const [activeFrom, setActiveFrom] = useState<string | undefined>(existingAlarm?.activeFrom);
+  const [activeUntil, setActiveUntil] = useState<string | undefined>(existingAlarm?.activeUntil);
+  const [exceptionListIds, setExceptionListIds] = useState<string[]>(
+    existingAlarm?.exceptionListIds || []
+  );
 
   // Time picker state
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [pickerDate, setPickerDate] = useState(() => {
     if (existingAlarm?.time) {
       const [hours, minutes] = existingAlarm.time.split(':').map(Number);
-      const date = new Date();
+      const date = clock.now();
       date.setHours(hours, minutes, 0, 0);
       return date;
     }
-    return new Date();
+    return clock.now();
   });
 
+  // Date picker state
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Active date range picker state (which end of the range is being picked)
+  const [rangePicker, setRangePicker] = useState<'from' | 'until' | null>(null);
+
   // Sound picker state
   const [showSoundPicker, setShowSoundPicker] = useState(false);
 
+  // Time zone picker state
+  const [showTimeZonePicker, setShowTimeZonePicker] = useState(false);
+
   // Saving state
   const [isSaving, setIsSaving] = useState(false);
 
+  // Similar alarms found on save, awaiting merge / keep both / cancel
+  const [pendingSave, setPendingSave] = useState<{
+    alarmData: AlarmInput;
+    conflicts: AlarmConflict[];
+  } | null>(null);
+  const [conflictWindowMinutes, setConflictWindowMinutes] = useState(DEFAULT_CONFLICT_WINDOW_MINUTES);
+  const [workweek, setWorkweek] = useState<WeekDay[]>(DEFAULT_WORKWEEK);
+
+  /**
+   * Load the similar-alarm warning window and the workweek from settings
+   */
+  useEffect(() => {
+    const loadSettings = async () => {
+      const settings = await StorageService.getSettings();
+      setConflictWindowMinutes(settings.conflictWindowMinutes ?? DEFAULT_CONFLICT_WINDOW_MINUTES);
+      setWorkweek(settings.workweek ?? DEFAULT_WORKWEEK);
+    };
+    loadSettings();
+  }, []);
+
   /**
    * Handle time change from picker
    */
@@ -105,6 +246,182 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
     setShowTimePicker(true);
   };
 
+  /**
+   * Current repeat mode, derived from the recurrence rule
+   */
+  const repeatMode: RepeatMode = (() => {
+    switch (recurrence?.type) {
+      case undefined:
+        return 'weekly';
+      case 'yearly':
+        return 'yearly';
+      case 'interval-days':
+      case 'interval-weeks':
+        return 'interval';
+      case 'rotation':
+        return 'rotation';
+      case 'business-days':
+      case 'business-day-of-month':
+        return 'business';
+      default:
+        return 'monthly';
+    }
+  })();
+
+  /**
+   * Switch repeat mode, seeding new rules from today's date
+   */
+  const handleRepeatModeChange = (mode: RepeatMode) => {
+    if (mode === repeatMode) {
+      return;
+    }
+
+    const today = clock.now();
+    if (mode === 'weekly') {
+      setRecurrence(undefined);
+    } else if (mode === 'monthly') {
+      setRecurrence({ type: 'monthly-day', dayOfMonth: today.getDate() });
+    } else if (mode === 'yearly') {
+      setRecurrence({ type: 'yearly', month: today.getMonth() + 1, dayOfMonth: today.getDate() });
+    } else if (mode === 'business') {
+      setRecurrence({ type: 'business-days', workweek });
+    } else if (mode === 'rotation') {
+      // Start from the simplest preset, ringing at the time already picked
+      const [working, off] = ROTATION_PRESETS[0].dayTypes;
+      setRecurrence({
+        type: 'rotation',
+        anchorDate: formatDateString(today),
+        dayTypes: [{ ...working, time }, off],
+        cycle: ROTATION_PRESETS[0].cycle,
+      });
+    } else {
+      setRecurrence({ type: 'interval-days', interval: 2, anchorDate: formatDateString(today) });
+    }
+  };
+
+  /**
+   * Handle date change from picker
+   */
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+
+    if (selectedDate) {
+      setDate(formatDateString(selectedDate));
+    }
+  };
+
+  /**
+   * Handle date selection for either end of the active date range
+   */
+  const handleRangeDateChange = (event: any, selectedDate?: Date) => {
+    const picking = rangePicker;
+    setRangePicker(null);
+
+    if (event.type === 'set' && selectedDate) {
+      const picked = formatDateString(selectedDate);
+      if (picking === 'from') {
+        setActiveFrom(picked);
+      } else {
+        setActiveUntil(picked);
+      }
+    }
+  };
+
+  /**
+   * Add or remove a snooze length offered as a notification button
+   */
+  const toggleSnoozeOption = (minutes: number) => {
+    const current = snoozeOptions ?? [];
+    
+    if (current.includes(minutes)) {
+      const remaining = current.filter((option) => option !== minutes);
+      setSnoozeOptions(remaining.length > 0 ? remaining : undefined);
+    } else if (current.length >= MAX_SNOOZE_OPTIONS) {
+      Alert.alert('Too Many Buttons', `A notification can offer up to ${MAX_SNOOZE_OPTIONS} snooze lengths`);
+    } else {
+      setSnoozeOptions([...current, minutes].sort((a, b) => a - b));
+    }
+  };
+
+  /**
+   * Toggle between "next time HH:mm comes around" and a specific calendar date
+   */
+  const handleSpecificDateToggle = (enabled: boolean) => {
+    if (!enabled) {
+      setDate(undefined);
+      return;
+    }
+
+    // Default to the next day the chosen time comes around
+    const now = clock.now();
+    const today = startOfDay(now);
+    const todayAtTime = combineDayAndTime(today, time);
+    setDate(formatDateString(todayAtTime.getTime() > now.getTime() ? today : addDays(today, 1)));
+  };
+
+  /**
+   * Opt in or out of an exception-date list
+   */
+  const handleExceptionListToggle = (listId: string, enabled: boolean) => {
+    setExceptionListIds((prev) =>
+      enabled ? [...prev, listId] : prev.filter((id) => id !== listId)
+    );
+  };
+
+  /**
+   * Sun-relative anchor from the entered event, offset and coordinates
+   * Null when the coordinates are missing or out of range
+   */
+  const getSolarAnchor = (): SolarAnchor | null => {
+    if (!solarEvent) {
+      return null;
+    }
+    
+    // Accept decimal commas, e.g. "52,37"
+    const latitude = parseFloat(latitudeText.replace(',', '.'));
+    const longitude = parseFloat(longitudeText.replace(',', '.'));
+    if (!isValidCoordinate(latitude, longitude)) {
+      return null;
+    }
+    
+    return { event: solarEvent, latitude, longitude, offsetMinutes: solarOffset };
+  };
+
+  /**
+   * Instant a sun-relative alarm rings on a calendar date
+   * Null when the sun doesn't rise/set that day at the location
+   */
+  const getSolarTrigger = (anchor: SolarAnchor, year: number, month: number, day: number): Date | null => {
+    const eventTime = getSolarEventTime(year, month, day, anchor.latitude, anchor.longitude, anchor.event);
+    return eventTime && new Date(eventTime.getTime() + anchor.offsetMinutes * 60 * 1000);
+  };
+
+  /**
+   * Today's ring time of a sun-relative alarm, shown as a preview
+   */
+  const solarAnchor = getSolarAnchor();
+  const today = clock.now();
+  const solarPreview = solarAnchor
+    ? getSolarTrigger(solarAnchor, today.getFullYear(), today.getMonth() + 1, today.getDate())
+    : null;
+
+  /**
+   * Instant a dated alarm would ring, in its pinned zone if any
+   * Null when the clocks skip the time that day and the gap policy is 'skip'
+   * (or, for sun-relative alarms, when the sun doesn't rise/set that day)
+   */
+  const getDatedTrigger = (alarmDate: string): Date | null => {
+    const [year, month, day] = alarmDate.split('-').map(Number);
+    if (solarAnchor) {
+      return getSolarTrigger(solarAnchor, year, month, day);
+    }
+    
+    const [hours, minutes] = time.split(':').map(Number);
+    return resolveWallClockTime(year, month, day, hours, minutes, timeZone, dstGapPolicy, dstOverlapPolicy);
+  };
+
   /**
    * Handle save
    */
@@ -121,19 +438,114 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
         return;
       }
 
-      setIsSaving(true);
+      if (solarEvent && !solarAnchor) {
+        Alert.alert(
+          'Invalid Location',
+          'Enter latitude (-90 to 90) and longitude (-180 to 180) in decimal degrees'
+        );
+        return;
+      }
+
+      // Shift rotations ring at their shifts' times, so at least one shift needs one
+      const rotationTime =
+        recurrence?.type === 'rotation'
+          ? recurrence.cycle.map((index) => recurrence.dayTypes[index]?.time).find(Boolean)
+          : undefined;
+      if (recurrence?.type === 'rotation' && !rotationTime) {
+        Alert.alert('No Alarm Days', 'Give at least one shift in the cycle an alarm time');
+        return;
+      }
+
+      // Dated one-time alarms must still be ahead of us
+      const alarmRepeats = recurrence ? [] : repeats;
+      const alarmDate = !recurrence && repeats.length === 0 ? date : undefined;
+      const datedTrigger = alarmDate ? getDatedTrigger(alarmDate) : undefined;
+      if (isEnabled && datedTrigger === null) {
+        Alert.alert(
+          solarAnchor ? 'No Sun Event' : 'Time Skipped',
+          solarAnchor
+            ? `There is no ${solarAnchor.event} at this location on that date`
+            : `The clocks skip ${time} on that date for daylight saving`
+        );
+        return;
+      }
+      if (isEnabled && datedTrigger && datedTrigger.getTime() <= clock.now().getTime()) {
+        Alert.alert('Date Has Passed', 'Please choose a date and time in the future');
+        return;
+      }
+
+      // The active date range only applies to repeating alarms
+      const isRepeating = alarmRepeats.length > 0 || recurrence !== undefined;
+      const rangeFrom = isRepeating ? activeFrom : undefined;
+      const rangeUntil = isRepeating ? activeUntil : undefined;
+      if (rangeFrom && rangeUntil && rangeUntil < rangeFrom) {
+        Alert.alert('Invalid Date Range', 'The end date must be on or after the start date');
+        return;
+      }
+      if (isEnabled && rangeUntil && rangeUntil < formatDateString(clock.now())) {
+        Alert.alert('Date Range Has Ended', 'Please choose an end date in the future');
+        return;
+      }
 
       const alarmData: AlarmInput = {
         label: label.trim(),
         description: description.trim(),
-        time,
-        repeats,
+        // Sun-relative alarms keep today's computed time for sorting and display fallbacks;
+        // shift rotations keep the time of the cycle's first ringing shift
+        time: solarPreview ? formatDateToTime(solarPreview) : rotationTime ?? time,
+        solar: solarAnchor ?? undefined,
+        timeZone,
+        dstGapPolicy,
+        dstOverlapPolicy,
+        repeats: alarmRepeats,
+        recurrence,
+        date: alarmDate,
+        activeFrom: rangeFrom,
+        activeUntil: rangeUntil,
         isEnabled,
         soundUri,
         snoozeEnabled,
         snoozeDuration,
+        snoozeMaxCount: snoozeEnabled ? snoozeMaxCount : undefined,
+        snoozeSchedule: snoozeEnabled ? snoozeSchedule : undefined,
+        snoozeOptions: snoozeEnabled ? snoozeOptions : undefined,
+        nagIntervalMinutes,
+        nagMaxCount: nagIntervalMinutes !== undefined ? nagMaxCount : undefined,
+        preAlertMinutes,
+        preAlertCancelsAlarm: preAlertMinutes !== undefined ? preAlertCancelsAlarm : undefined,
+        isCritical: isCritical || undefined,
+        exceptionListIds: exceptionListIds.filter((id) =>
+          exceptionLists.some((list) => list.id === id)
+        ),
       };
 
+      // Ask before saving an alarm that rings at or near the same time as another
+      const now = clock.now().toISOString();
+      const conflicts = findConflicts(
+        { ...alarmData, id: alarmId ?? '', createdAt: now, updatedAt: now, notificationIds: [] },
+        alarms,
+        conflictWindowMinutes
+      );
+      if (conflicts.length > 0) {
+        setPendingSave({ alarmData, conflicts });
+        return;
+      }
+
+      await saveAlarm(alarmData);
+    } catch (error) {
+      console.error('[AlarmEditScreen] Error saving alarm:', error);
+      Alert.alert('Error', 'Failed to save alarm. Please try again.');
+    }
+  };
+
+  /**
+   * Create or update the alarm and go back
+   */
+  const saveAlarm = async (alarmData: AlarmInput) => {
+    try {
+      setIsSaving(true);
+      setPendingSave(null);
+
       if (mode === 'edit' && alarmId) {
         // Update existing alarm
         await updateAlarm(alarmId, alarmData);
@@ -152,6 +564,31 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  /**
+   * Merge into the closest similar alarm: it takes these settings and no second alarm is kept
+   */
+  const handleMerge = async () => {
+    if (!pendingSave) {
+      return;
+    }
+
+    const target = pendingSave.conflicts[0].alarm;
+    try {
+      setIsSaving(true);
+      await updateAlarm(target.id, pendingSave.alarmData);
+      if (mode === 'edit' && alarmId) {
+        await deleteAlarm(alarmId);
+      }
+      setPendingSave(null);
+      navigation.goBack();
+    } catch (error) {
+      console.error('[AlarmEditScreen] Error merging alarm:', error);
+      Alert.alert('Error', 'Failed to merge alarms. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   /**
    * Handle cancel
    */
@@ -163,12 +600,95 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
       {/* Time Picker Section */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Time</Text>
-        <TouchableOpacity style={styles.timeButton} onPress={handleShowTimePicker}>
-          <Text style={styles.timeButtonText}>{time}</Text>
-        </TouchableOpacity>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Time</Text>
+          <TouchableOpacity onPress={() => setSolarEvent(solarEvent ? undefined : 'sunrise')}>
+            <Text style={styles.linkText}>{solarEvent ? 'Use clock time' : 'Relative to the sun'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {solarEvent ? (
+          <>
+            <View style={styles.durationButtons}>
+              {SOLAR_EVENT_OPTIONS.map(({ value, label: optionLabel }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.durationButton, solarEvent === value && styles.durationButtonActive]}
+                  onPress={() => setSolarEvent(value)}
+                >
+                  <Text
+                    style={[
+                      styles.policyButtonText,
+                      solarEvent === value && styles.durationButtonTextActive,
+                    ]}
+                  >
+                    {optionLabel}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.durationContainer}>
+              <Text style={styles.label}>Minutes before (−) or after (+)</Text>
+              <View style={styles.durationButtons}>
+                {SOLAR_OFFSET_OPTIONS.map((offset) => (
+                  <TouchableOpacity
+                    key={offset}
+                    style={[
+                      styles.durationButton,
+                      solarOffset === offset && styles.durationButtonActive,
+                    ]}
+                    onPress={() => setSolarOffset(offset)}
+                  >
+                    <Text
+                      style={[
+                        styles.durationButtonText,
+                        solarOffset === offset && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {offset > 0 ? `+${offset}` : offset < 0 ? `−${-offset}` : '0'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={[styles.coordinateRow, styles.durationContainer]}>
+              <TextInput
+                style={[styles.input, styles.coordinateInput]}
+                placeholder="Latitude, e.g. 40.71"
+                value={latitudeText}
+                onChangeText={setLatitudeText}
+                keyboardType="numbers-and-punctuation"
+                maxLength={12}
+              />
+              <TextInput
+                style={[styles.input, styles.coordinateInput]}
+                placeholder="Longitude, e.g. -74.01"
+                value={longitudeText}
+                onChangeText={setLongitudeText}
+                keyboardType="numbers-and-punctuation"
+                maxLength={12}
+              />
+            </View>
+
+            <Text style={styles.helperText}>
+              {!solarAnchor
+                ? 'Enter the location in decimal degrees (south and west are negative)'
+                : solarPreview
+                  ? `Today this rings at ${formatAlarmTime(formatDateToTime(solarPreview), false)}; the time is worked out again for every day`
+                  : `No ${solarEvent} at this location today`}
+            </Text>
+          </>
+        ) : recurrence?.type === 'rotation' ? (
+          <Text style={styles.helperText}>Each shift sets its own time under Repeat</Text>
+        ) : (
+          <TouchableOpacity style={styles.timeButton} onPress={handleShowTimePicker}>
+            <Text style={styles.timeButtonText}>{time}</Text>
+          </TouchableOpacity>
+        )}
         
-        {showTimePicker && (
+        {showTimePicker && !solarEvent && recurrence?.type !== 'rotation' && (
           <DateTimePicker
             value={pickerDate}
             mode="time"
@@ -179,6 +699,78 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
         )}
       </View>
 
+      {/* Time Zone */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Time Zone</Text>
+        <TouchableOpacity
+          style={styles.pickerButton}
+          onPress={() => setShowTimeZonePicker(true)}
+        >
+          <Text style={styles.pickerButtonText}>
+            {timeZone ? `${formatTimeZoneName(timeZone)} (${timeZone})` : 'Device time'}
+          </Text>
+          <Text style={styles.pickerButtonIcon}>›</Text>
+        </TouchableOpacity>
+        <Text style={styles.helperText}>
+          {solarEvent
+            ? 'Days follow the calendar of this zone; the sun sets the time'
+            : timeZone
+              ? `Rings at ${time} ${formatTimeZoneName(timeZone)} time, wherever you are`
+              : 'Rings at this time in whatever zone the phone is in'}
+        </Text>
+      </View>
+
+      {/* Daylight Saving (the sun's instant needs no wall-clock policy) */}
+      {!solarEvent && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Daylight Saving</Text>
+          <Text style={styles.label}>If clocks skip {time}</Text>
+          <View style={styles.durationButtons}>
+            {DST_GAP_POLICY_OPTIONS.map(({ value, label: optionLabel }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.durationButton, dstGapPolicy === value && styles.durationButtonActive]}
+                onPress={() => setDstGapPolicy(value)}
+              >
+                <Text
+                  style={[
+                    styles.policyButtonText,
+                    dstGapPolicy === value && styles.durationButtonTextActive,
+                  ]}
+                >
+                  {optionLabel}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.durationContainer}>
+            <Text style={styles.label}>If clocks repeat {time}, ring the</Text>
+            <View style={styles.durationButtons}>
+              {DST_OVERLAP_POLICY_OPTIONS.map(({ value, label: optionLabel }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.durationButton,
+                    dstOverlapPolicy === value && styles.durationButtonActive,
+                  ]}
+                  onPress={() => setDstOverlapPolicy(value)}
+                >
+                  <Text
+                    style={[
+                      styles.policyButtonText,
+                      dstOverlapPolicy === value && styles.durationButtonTextActive,
+                    ]}
+                  >
+                    {optionLabel}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+      )}
+
       {/* Label Input */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Label</Text>
@@ -208,9 +800,161 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
       {/* Repeat Days */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Repeat</Text>
-        <WeekDayPicker selectedDays={repeats} onDaysChange={setRepeats} />
+        <View style={[styles.durationButtons, styles.repeatModeButtons]}>
+          {REPEAT_MODES.map(({ mode, label: modeLabel }) => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.durationButton,
+                styles.repeatModeButton,
+                repeatMode === mode && styles.durationButtonActive,
+              ]}
+              onPress={() => handleRepeatModeChange(mode)}
+            >
+              <Text
+                style={[
+                  styles.durationButtonText,
+                  repeatMode === mode && styles.durationButtonTextActive,
+                ]}
+              >
+                {modeLabel}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {recurrence?.type === 'rotation' ? (
+          <RotationEditor rule={recurrence} onRuleChange={setRecurrence} now={clock.now()} />
+        ) : recurrence ? (
+          <RecurrenceEditor rule={recurrence} onRuleChange={setRecurrence} now={clock.now()} />
+        ) : (
+          <WeekDayPicker selectedDays={repeats} onDaysChange={setRepeats} workweek={workweek} />
+        )}
       </View>
 
+      {/* Specific Date (one-time alarms only) */}
+      {!recurrence && repeats.length === 0 && (
+        <View style={styles.section}>
+          <View style={styles.switchRow}>
+            <Text style={styles.sectionTitle}>On a Specific Date</Text>
+            <Switch
+              value={date !== undefined}
+              onValueChange={handleSpecificDateToggle}
+              trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+              thumbColor={date !== undefined ? '#6200ee' : '#f4f3f4'}
+            />
+          </View>
+
+          {date !== undefined && (
+            <TouchableOpacity
+              style={styles.pickerButton}
+              onPress={() => setShowDatePicker(true)}
+            >
+              <Text style={styles.pickerButtonText}>
+                {formatDateLabel(parseDateString(date), clock.now())}
+              </Text>
+              <Text style={styles.pickerButtonIcon}>›</Text>
+            </TouchableOpacity>
+          )}
+
+          {showDatePicker && date !== undefined && (
+            <DateTimePicker
+              value={parseDateString(date)}
+              mode="date"
+              minimumDate={startOfDay(clock.now())}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={handleDateChange}
+            />
+          )}
+
+          <Text style={styles.helperText}>
+            {date !== undefined
+              ? 'Rings once on this date, then turns off'
+              : 'Rings the next time this time comes around'}
+          </Text>
+        </View>
+      )}
+
+      {/* Active Date Range (repeating alarms only) */}
+      {(recurrence || repeats.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Active Dates</Text>
+
+          <View style={[styles.switchRow, styles.listRow]}>
+            <Text style={styles.listName}>Starts</Text>
+            <TouchableOpacity onPress={() => setRangePicker('from')}>
+              <Text style={styles.linkText}>
+                {activeFrom ? formatDateLabel(parseDateString(activeFrom), clock.now()) : 'Right away'}
+              </Text>
+            </TouchableOpacity>
+            {activeFrom && (
+              <TouchableOpacity onPress={() => setActiveFrom(undefined)}>
+                <Text style={styles.clearText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={[styles.switchRow, styles.listRow]}>
+            <Text style={styles.listName}>Ends</Text>
+            <TouchableOpacity onPress={() => setRangePicker('until')}>
+              <Text style={styles.linkText}>
+                {activeUntil ? formatDateLabel(parseDateString(activeUntil), clock.now()) : 'Never'}
+              </Text>
+            </TouchableOpacity>
+            {activeUntil && (
+              <TouchableOpacity onPress={() => setActiveUntil(undefined)}>
+                <Text style={styles.clearText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {rangePicker !== null && (
+            <DateTimePicker
+              value={parseDateString(
+                (rangePicker === 'from' ? activeFrom : activeUntil) ?? formatDateString(clock.now())
+              )}
+              mode="date"
+              minimumDate={rangePicker === 'until' && activeFrom ? parseDateString(activeFrom) : undefined}
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              onChange={handleRangeDateChange}
+            />
+          )}
+
+          <Text style={styles.helperText}>
+            {activeUntil
+              ? 'Repeats only between these dates, then turns off'
+              : 'Repeats only from the start date on, e.g. for a school term'}
+          </Text>
+        </View>
+      )}
+
+      {/* Exception-Date Lists (repeating alarms only) */}
+      {(recurrence || repeats.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Skip Holidays</Text>
+
+          {exceptionLists.map((list) => (
+            <View key={list.id} style={[styles.switchRow, styles.listRow]}>
+              <Text style={styles.listName}>
+                {list.name} ({list.dates.length})
+              </Text>
+              <Switch
+                value={exceptionListIds.includes(list.id)}
+                onValueChange={(enabled) => handleExceptionListToggle(list.id, enabled)}
+                trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+                thumbColor={exceptionListIds.includes(list.id) ? '#6200ee' : '#f4f3f4'}
+              />
+            </View>
+          ))}
+
+          <TouchableOpacity onPress={() => navigation.navigate('ExceptionLists')}>
+            <Text style={styles.linkText}>
+              {exceptionLists.length > 0 ? 'Manage lists ›' : 'Create a holiday list ›'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Sound Picker */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Sound</Text>
@@ -236,6 +980,46 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
         </View>
 
         {snoozeEnabled && (
+          <View style={styles.durationContainer}>
+            <Text style={styles.label}>Snooze Length</Text>
+            <View style={styles.durationButtons}>
+              <TouchableOpacity
+                style={[styles.durationButton, !snoozeSchedule && styles.durationButtonActive]}
+                onPress={() => setSnoozeSchedule(undefined)}
+              >
+                <Text
+                  style={[
+                    styles.policyButtonText,
+                    !snoozeSchedule && styles.durationButtonTextActive,
+                  ]}
+                >
+                  Fixed
+                </Text>
+              </TouchableOpacity>
+              {SNOOZE_SCHEDULE_PRESETS.map((preset) => {
+                const isSelected = snoozeSchedule?.join() === preset.join();
+                return (
+                  <TouchableOpacity
+                    key={preset.join()}
+                    style={[styles.durationButton, isSelected && styles.durationButtonActive]}
+                    onPress={() => setSnoozeSchedule(preset)}
+                  >
+                    <Text
+                      style={[
+                        styles.policyButtonText,
+                        isSelected && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {preset.join(' → ')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {snoozeEnabled && !snoozeSchedule && (
           <View style={styles.durationContainer}>
             <Text style={styles.label}>Snooze Duration (minutes)</Text>
             <View style={styles.durationButtons}>
@@ -261,6 +1045,226 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
             </View>
           </View>
         )}
+
+        {snoozeEnabled && (
+          <View style={styles.durationContainer}>
+            <Text style={styles.label}>Snooze Buttons</Text>
+            <View style={styles.durationButtons}>
+              <TouchableOpacity
+                style={[styles.durationButton, !snoozeOptions && styles.durationButtonActive]}
+                onPress={() => setSnoozeOptions(undefined)}
+              >
+                <Text
+                  style={[
+                    styles.policyButtonText,
+                    !snoozeOptions && styles.durationButtonTextActive,
+                  ]}
+                >
+                  Default
+                </Text>
+              </TouchableOpacity>
+              {SNOOZE_OPTION_CHOICES.map((minutes) => {
+                const isSelected = snoozeOptions?.includes(minutes) ?? false;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.durationButton, isSelected && styles.durationButtonActive]}
+                    onPress={() => toggleSnoozeOption(minutes)}
+                  >
+                    <Text
+                      style={[
+                        styles.policyButtonText,
+                        isSelected && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {formatSnoozeOption(minutes)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.helperText}>
+              Pick up to {MAX_SNOOZE_OPTIONS} lengths to offer on the notification, or use the
+              buttons from Settings
+            </Text>
+          </View>
+        )}
+
+        {snoozeEnabled && (
+          <View style={styles.durationContainer}>
+            <Text style={styles.label}>Maximum Snoozes</Text>
+            <View style={styles.durationButtons}>
+              {[undefined, ...SNOOZE_MAX_COUNT_OPTIONS].map((count) => (
+                <TouchableOpacity
+                  key={count ?? 'unlimited'}
+                  style={[
+                    styles.durationButton,
+                    snoozeMaxCount === count && styles.durationButtonActive,
+                  ]}
+                  onPress={() => setSnoozeMaxCount(count)}
+                >
+                  <Text
+                    style={[
+                      styles.durationButtonText,
+                      snoozeMaxCount === count && styles.durationButtonTextActive,
+                    ]}
+                  >
+                    {count ?? '∞'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+
+      {/* Nag Mode */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Keep Ringing</Text>
+          <Switch
+            value={nagIntervalMinutes !== undefined}
+            onValueChange={(value) =>
+              setNagIntervalMinutes(value ? DEFAULT_NAG_INTERVAL_MINUTES : undefined)
+            }
+            trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+            thumbColor={nagIntervalMinutes !== undefined ? '#6200ee' : '#f4f3f4'}
+          />
+        </View>
+
+        {nagIntervalMinutes !== undefined ? (
+          <>
+            <View style={styles.durationContainer}>
+              <Text style={styles.label}>Ring again every (minutes)</Text>
+              <View style={styles.durationButtons}>
+                {NAG_INTERVAL_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.durationButton,
+                      nagIntervalMinutes === minutes && styles.durationButtonActive,
+                    ]}
+                    onPress={() => setNagIntervalMinutes(minutes)}
+                  >
+                    <Text
+                      style={[
+                        styles.durationButtonText,
+                        nagIntervalMinutes === minutes && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {minutes}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.durationContainer}>
+              <Text style={styles.label}>Up to (times)</Text>
+              <View style={styles.durationButtons}>
+                {NAG_MAX_COUNT_OPTIONS.map((count) => (
+                  <TouchableOpacity
+                    key={count}
+                    style={[
+                      styles.durationButton,
+                      nagMaxCount === count && styles.durationButtonActive,
+                    ]}
+                    onPress={() => setNagMaxCount(count)}
+                  >
+                    <Text
+                      style={[
+                        styles.durationButtonText,
+                        nagMaxCount === count && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {count}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        ) : (
+          <Text style={styles.helperText}>
+            Ring again every few minutes until the alarm is dismissed
+          </Text>
+        )}
+      </View>
+
+      {/* Heads-up Notification */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Heads-up</Text>
+          <Switch
+            value={preAlertMinutes !== undefined}
+            onValueChange={(value) =>
+              setPreAlertMinutes(value ? DEFAULT_PRE_ALERT_MINUTES : undefined)
+            }
+            trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+            thumbColor={preAlertMinutes !== undefined ? '#6200ee' : '#f4f3f4'}
+          />
+        </View>
+
+        {preAlertMinutes !== undefined ? (
+          <>
+            <View style={styles.durationContainer}>
+              <Text style={styles.label}>Minutes before the alarm</Text>
+              <View style={styles.durationButtons}>
+                {PRE_ALERT_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.durationButton,
+                      preAlertMinutes === minutes && styles.durationButtonActive,
+                    ]}
+                    onPress={() => setPreAlertMinutes(minutes)}
+                  >
+                    <Text
+                      style={[
+                        styles.durationButtonText,
+                        preAlertMinutes === minutes && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {minutes}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={[styles.switchRow, styles.durationContainer]}>
+              <Text style={styles.label}>Done or Dismiss on the heads-up cancels that ring</Text>
+              <Switch
+                value={preAlertCancelsAlarm}
+                onValueChange={setPreAlertCancelsAlarm}
+                trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+                thumbColor={preAlertCancelsAlarm ? '#6200ee' : '#f4f3f4'}
+              />
+            </View>
+          </>
+        ) : (
+          <Text style={styles.helperText}>
+            Send a quieter notification shortly before the alarm rings
+          </Text>
+        )}
+      </View>
+
+      {/* Critical (rings through quiet hours) */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Critical</Text>
+          <Switch
+            value={isCritical}
+            onValueChange={setIsCritical}
+            trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+            thumbColor={isCritical ? '#6200ee' : '#f4f3f4'}
+          />
+        </View>
+        <Text style={styles.helperText}>
+          {isCritical
+            ? 'Rings even during quiet hours'
+            : 'Stays silent during quiet hours, if they are set up in Settings'}
+        </Text>
       </View>
 
       {/* Enable Alarm Toggle */}
@@ -281,6 +1285,45 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
         </Text>
       </View>
 
+      {/* Similar Alarm Warnings */}
+      {pendingSave && (
+        <View style={[styles.section, styles.conflictSection]}>
+          <Text style={styles.sectionTitle}>Similar Alarms</Text>
+          {pendingSave.conflicts.map((conflict) => (
+            <Text key={conflict.alarm.id} style={styles.conflictText}>
+              • {describeAlarmConflict(conflict, clock.now())}
+            </Text>
+          ))}
+          <Text style={styles.helperText}>
+            Merge saves these settings to "{pendingSave.conflicts[0].alarm.label}"
+            {mode === 'edit' ? ' and removes this alarm' : ' instead of adding a new alarm'}
+          </Text>
+          <View style={styles.conflictButtons}>
+            <TouchableOpacity
+              style={[styles.durationButton, styles.durationButtonActive]}
+              onPress={handleMerge}
+              disabled={isSaving}
+            >
+              <Text style={[styles.durationButtonText, styles.durationButtonTextActive]}>Merge</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.durationButton}
+              onPress={() => saveAlarm(pendingSave.alarmData)}
+              disabled={isSaving}
+            >
+              <Text style={styles.durationButtonText}>Keep Both</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.durationButton}
+              onPress={() => setPendingSave(null)}
+              disabled={isSaving}
+            >
+              <Text style={styles.durationButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Action Buttons */}
       <View style={styles.actionButtons}>
         <TouchableOpacity
@@ -309,6 +1352,14 @@ export const AlarmEditScreen: React.FC<Props> = ({ route, navigation }) => {
         onSoundSelect={setSoundUri}
         onClose={() => setShowSoundPicker(false)}
       />
+
+      {/* Time Zone Picker Modal */}
+      <TimeZonePicker
+        visible={showTimeZonePicker}
+        selectedTimeZone={timeZone}
+        onTimeZoneSelect={setTimeZone}
+        onClose={() => setShowTimeZonePicker(false)}
+      />
     </ScrollView>
   );
 };
@@ -347,6 +1398,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#6200ee',
   },
+  coordinateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  coordinateInput: {
+    flex: 1,
+  },
   input: {
     backgroundColor: '#f8f8f8',
     borderRadius: 8,
@@ -400,6 +1458,12 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#f8f8f8',
   },
+  repeatModeButtons: {
+    flexWrap: 'wrap',
+  },
+  repeatModeButton: {
+    flexBasis: '30%',
+  },
   durationButtonActive: {
     backgroundColor: '#f3e5ff',
     borderColor: '#6200ee',
@@ -412,11 +1476,51 @@ const styles = StyleSheet.create({
   durationButtonTextActive: {
     color: '#6200ee',
   },
+  policyButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    textAlign: 'center',
+  },
   helperText: {
     fontSize: 12,
     color: '#666666',
     marginTop: 8,
   },
+  listRow: {
+    marginBottom: 8,
+  },
+  listName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333333',
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#999999',
+    marginLeft: 12,
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#6200ee',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  conflictSection: {
+    borderWidth: 1,
+    borderColor: '#ffb74d',
+  },
+  conflictText: {
+    fontSize: 14,
+    color: '#333333',
+    marginBottom: 4,
+  },
+  conflictButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
   actionButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -2,7 +2,8 @@
  * AlarmListScreen - Main Screen
  * 
  * Displays list of all alarms with ability to toggle, edit, and delete.
- * Includes floating action button to create new alarms.
+ * Includes floating action buttons to create new alarms and start quick timers,
+ * and a banner listing alarms that were missed while the app could not ring them.
  * 
  * Reference: Docs/ARCHITECTURE.md - Screen Components
  */
@@ -16,6 +17,7 @@ import {
   Text,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useNavigation } from '@react-navigation/native';
@@ -25,9 +27,16 @@ import { useAlarms } from '../hooks';
 
 // Components
 import { AlarmItem } from '../components/AlarmItem';
+import { QuickTimerModal } from '../components/QuickTimerModal';
 
 // Types
-import { RootStackParamList, Alarm } from '../types/alarm.types';
+import { RootStackParamList, Alarm, MissedAlarm } from '../types/alarm.types';
+
+// Constants
+import { MISSED_ALARM_RESCHEDULE_MINUTES } from '../constants/alarm.constants';
+
+// Utils
+import { formatAlarmTime, formatDateLabel, formatDateToTime, isRepeatingAlarm } from '../utils/timeCalculations';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'AlarmList'>;
 
@@ -36,21 +45,51 @@ type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'AlarmList'>
  */
 export const AlarmListScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
-  const { alarms, loading, error, toggleAlarm, deleteAlarm, refreshAlarms } = useAlarms();
+  const {
+    alarms,
+    loading,
+    error,
+    clock,
+    exceptionLists,
+    quietHours,
+    toggleAlarm,
+    deleteAlarm,
+    skipNextOccurrence,
+    pauseAlarmUntil,
+    resumeAlarm,
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    extendTimer,
+    missedAlarms,
+    rescheduleMissedAlarm,
+    dismissMissedAlarms,
+    refreshAlarms,
+  } = useAlarms();
   const [refreshing, setRefreshing] = React.useState(false);
+  const [showQuickTimer, setShowQuickTimer] = React.useState(false);
+  const [showMissedDetails, setShowMissedDetails] = React.useState(false);
 
   /**
-   * Navigate to settings
+   * Header buttons: upcoming agenda and settings
    */
   React.useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
-        <TouchableOpacity
-          onPress={() => navigation.navigate('Settings')}
-          style={styles.settingsButton}
-        >
-          <Text style={styles.settingsButtonText}>⚙️</Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Upcoming')}
+            style={styles.settingsButton}
+          >
+            <Text style={styles.settingsButtonText}>📅</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Settings')}
+            style={styles.settingsButton}
+          >
+            <Text style={styles.settingsButtonText}>⚙️</Text>
+          </TouchableOpacity>
+        </View>
       ),
     });
   }, [navigation]);
@@ -86,6 +125,107 @@ export const AlarmListScreen: React.FC = () => {
     }
   };
 
+  /**
+   * Handle skipping an alarm's next occurrence
+   */
+  const handleSkipNext = async (id: string) => {
+    try {
+      await skipNextOccurrence(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to skip alarm:', error);
+    }
+  };
+
+  /**
+   * Handle pausing an alarm until a date
+   */
+  const handlePauseUntil = async (id: string, date: string) => {
+    try {
+      await pauseAlarmUntil(id, date);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to pause alarm:', error);
+    }
+  };
+
+  /**
+   * Handle resuming a skipped or paused alarm
+   */
+  const handleResume = async (id: string) => {
+    try {
+      await resumeAlarm(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to resume alarm:', error);
+    }
+  };
+
+  /**
+   * Handle starting a quick timer
+   */
+  const handleStartTimer = async (durationMinutes: number, label: string) => {
+    setShowQuickTimer(false);
+    try {
+      await startTimer(durationMinutes, label);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to start timer:', error);
+    }
+  };
+
+  /**
+   * Handle pausing a running timer
+   */
+  const handlePauseTimer = async (id: string) => {
+    try {
+      await pauseTimer(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to pause timer:', error);
+    }
+  };
+
+  /**
+   * Handle resuming a paused timer
+   */
+  const handleResumeTimer = async (id: string) => {
+    try {
+      await resumeTimer(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to resume timer:', error);
+    }
+  };
+
+  /**
+   * Handle adding a minute to a timer
+   */
+  const handleExtendTimer = async (id: string) => {
+    try {
+      await extendTimer(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to extend timer:', error);
+    }
+  };
+
+  /**
+   * Handle ringing a missed alarm again shortly
+   */
+  const handleRescheduleMissed = async (id: string) => {
+    try {
+      await rescheduleMissedAlarm(id);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to reschedule missed alarm:', error);
+      Alert.alert('Error', 'Failed to reschedule missed alarm');
+    }
+  };
+
+  /**
+   * Handle clearing missed alarms from the banner (all of them if no IDs are given)
+   */
+  const handleDismissMissed = async (ids?: string[]) => {
+    try {
+      await dismissMissedAlarms(ids);
+    } catch (error) {
+      console.error('[AlarmListScreen] Failed to dismiss missed alarms:', error);
+    }
+  };
+
   /**
    * Handle alarm edit
    */
@@ -106,12 +246,92 @@ export const AlarmListScreen: React.FC = () => {
   const renderAlarmItem = ({ item }: { item: Alarm }) => (
     <AlarmItem
       alarm={item}
+      now={clock.now()}
+      clock={clock}
+      exceptionLists={exceptionLists}
+      quietHours={quietHours}
       onToggle={handleToggle}
       onEdit={handleEdit}
       onDelete={handleDelete}
+      onSkipNext={handleSkipNext}
+      onPauseUntil={handlePauseUntil}
+      onResume={handleResume}
+      onPauseTimer={handlePauseTimer}
+      onResumeTimer={handleResumeTimer}
+      onExtendTimer={handleExtendTimer}
     />
   );
 
+  /**
+   * Render one missed alarm in the banner's details
+   * Switched-off repeating alarms and deleted alarms can only be dismissed
+   */
+  const renderMissedAlarm = (missed: MissedAlarm) => {
+    const expectedAt = new Date(missed.expectedAt);
+    const alarm = alarms.find((a) => a.id === missed.alarmId);
+
+    return (
+      <View key={missed.id} style={styles.missedItem}>
+        <View style={styles.missedItemText}>
+          <Text style={styles.missedItemLabel}>{missed.label || 'Alarm'}</Text>
+          <Text style={styles.missedItemTime}>
+            Should have rung {formatDateLabel(expectedAt, clock.now())} at{' '}
+            {formatAlarmTime(formatDateToTime(expectedAt), false)}
+            {alarm && !alarm.isEnabled ? ' · now switched off' : ''}
+          </Text>
+        </View>
+        {alarm && (alarm.isEnabled || !isRepeatingAlarm(alarm)) && (
+          <TouchableOpacity
+            style={styles.missedButton}
+            onPress={() => handleRescheduleMissed(missed.id)}
+          >
+            <Text style={styles.missedButtonText}>Reschedule</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={() => handleDismissMissed([missed.id])}>
+          <Text style={styles.missedDismissText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  /**
+   * Render the missed-alarms banner above the list
+   * Lists occurrences that passed without the app seeing them delivered or answered
+   */
+  const renderMissedBanner = () => {
+    if (missedAlarms.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.missedBanner}>
+        <TouchableOpacity
+          style={styles.missedHeader}
+          onPress={() => setShowMissedDetails(!showMissedDetails)}
+        >
+          <Text style={styles.missedTitle}>
+            ⚠️ {missedAlarms.length} alarm{missedAlarms.length === 1 ? '' : 's'} may not have rung
+          </Text>
+          <Text style={styles.missedToggle}>{showMissedDetails ? 'Hide' : 'Details'}</Text>
+        </TouchableOpacity>
+        {showMissedDetails && (
+          <>
+            <Text style={styles.missedHint}>
+              The app could not confirm these rang. The phone may have been off, the app
+              closed, or the notification cleared without being opened.
+              Reschedule rings one again in {MISSED_ALARM_RESCHEDULE_MINUTES} min.
+            </Text>
+            {missedAlarms.map(renderMissedAlarm)}
+            <TouchableOpacity onPress={() => handleDismissMissed()}>
+              <Text style={styles.missedDismissAll}>Dismiss All</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
   /**
    * Render empty state
    */
@@ -168,6 +388,7 @@ export const AlarmListScreen: React.FC = () => {
         renderItem={renderAlarmItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
+        ListHeaderComponent={renderMissedBanner}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl
@@ -178,6 +399,15 @@ export const AlarmListScreen: React.FC = () => {
         }
       />
       
+      {/* Quick Timer Button */}
+      <TouchableOpacity
+        style={styles.timerFab}
+        onPress={() => setShowQuickTimer(true)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.timerFabIcon}>⏱</Text>
+      </TouchableOpacity>
+
       {/* Floating Action Button */}
       <TouchableOpacity
         style={styles.fab}
@@ -186,6 +416,12 @@ export const AlarmListScreen: React.FC = () => {
       >
         <Text style={styles.fabIcon}>+</Text>
       </TouchableOpacity>
+
+      <QuickTimerModal
+        visible={showQuickTimer}
+        onStart={handleStartTimer}
+        onClose={() => setShowQuickTimer(false)}
+      />
     </View>
   );
 };
@@ -197,12 +433,15 @@ const styles = StyleSheet.create({
   },
   listContent: {
     padding: 16,
-    paddingBottom: 80, // Space for FAB
+    paddingBottom: 144, // Space for FABs
   },
   settingsButton: {
     marginRight: 8,
     padding: 8,
   },
+  headerButtons: {
+    flexDirection: 'row',
+  },
   settingsButtonText: {
     fontSize: 24,
   },
@@ -288,5 +527,96 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: 'bold',
   },
+  timerFab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 84,
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 6,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.25,
+    shadowRadius: 6,
+  },
+  timerFabIcon: {
+    fontSize: 24,
+  },
+  missedBanner: {
+    backgroundColor: '#fff3e0',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f57c00',
+  },
+  missedHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  missedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e65100',
+  },
+  missedToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  missedHint: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  missedItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ffcc80',
+  },
+  missedItemText: {
+    flex: 1,
+  },
+  missedItemLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  missedItemTime: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  missedButton: {
+    backgroundColor: '#6200ee',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  missedButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  missedDismissAll: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6200ee',
+    marginTop: 10,
+  },
+  missedDismissText: {
+    fontSize: 16,
+    color: '#999999',
+    padding: 4,
+  },
 });
 
@@ -0,0 +1,399 @@
+/**
+ * ChainsScreen - Alarm Chains / Follow-up Sequences
+ *
+ * Manages chains of follow-up reminders that start when an alarm is dismissed,
+ * e.g. wake up → "Leave for the bus" 20 minutes later. Each step is booked
+ * relative to the dismissal of the one before it.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Screen Components
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+
+// Hooks
+import { useAlarms } from '../hooks';
+
+// Types
+import { AlarmChain, ChainStep } from '../types/alarm.types';
+
+// Constants
+import { CHAIN_DELAY_OPTIONS, DEFAULT_CHAIN_DELAY_MINUTES } from '../constants/alarm.constants';
+
+// Utils
+import { formatAlarmTime, formatTimerDuration } from '../utils/timeCalculations';
+
+/**
+ * ChainsScreen Component
+ */
+export const ChainsScreen: React.FC = () => {
+  const { alarms, chains, addChain, updateChain, deleteChain } = useAlarms();
+  const [newChainName, setNewChainName] = useState('');
+
+  // Timers are one-off countdowns, so only clock alarms can start a chain
+  const triggerAlarms = alarms.filter((alarm) => !alarm.timer);
+
+  /**
+   * Create a new chain with a single follow-up, started by the first alarm
+   */
+  const handleCreateChain = async () => {
+    const name = newChainName.trim();
+    if (name.length === 0) {
+      Alert.alert('Error', 'Please enter a name for the chain');
+      return;
+    }
+    if (triggerAlarms.length === 0) {
+      Alert.alert('No Alarms', 'Create an alarm first, then chain follow-ups to it');
+      return;
+    }
+
+    try {
+      await addChain(name, triggerAlarms[0].id, [
+        { label: 'Next step', delayMinutes: DEFAULT_CHAIN_DELAY_MINUTES },
+      ]);
+      setNewChainName('');
+    } catch (error) {
+      console.error('[ChainsScreen] Failed to create chain:', error);
+      Alert.alert('Error', 'Failed to create chain');
+    }
+  };
+
+  /**
+   * Save changes to a chain, reporting failures
+   */
+  const saveChain = async (
+    chain: AlarmChain,
+    updates: Partial<Pick<AlarmChain, 'name' | 'triggerAlarmId' | 'steps'>>
+  ) => {
+    try {
+      await updateChain(chain.id, updates);
+    } catch (error) {
+      console.error('[ChainsScreen] Failed to update chain:', error);
+      Alert.alert('Error', 'Failed to update chain');
+    }
+  };
+
+  /**
+   * Replace one step of a chain
+   */
+  const saveStep = (chain: AlarmChain, index: number, updates: Partial<ChainStep>) => {
+    saveChain(chain, {
+      steps: chain.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)),
+    });
+  };
+
+  /**
+   * Delete a chain with confirmation
+   */
+  const handleDeleteChain = (chain: AlarmChain) => {
+    Alert.alert(
+      'Delete Chain',
+      `Are you sure you want to delete "${chain.name}"? A follow-up already booked is cancelled.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteChain(chain.id);
+            } catch (error) {
+              console.error('[ChainsScreen] Failed to delete chain:', error);
+              Alert.alert('Error', 'Failed to delete chain');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render a single step with its label and delay
+   */
+  const renderStep = (chain: AlarmChain, step: ChainStep, index: number) => (
+    <View key={index} style={styles.step}>
+      <View style={styles.stepHeader}>
+        <Text style={styles.stepNumber}>{index + 1}</Text>
+        <TextInput
+          style={styles.stepInput}
+          defaultValue={step.label}
+          onEndEditing={(event) => {
+            const label = event.nativeEvent.text.trim();
+            if (label.length > 0 && label !== step.label) {
+              saveStep(chain, index, { label });
+            }
+          }}
+          maxLength={50}
+        />
+        {chain.steps.length > 1 && (
+          <TouchableOpacity
+            onPress={() => saveChain(chain, { steps: chain.steps.filter((_, i) => i !== index) })}
+          >
+            <Text style={styles.deleteText}>✕</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.stepMeta}>
+        {formatTimerDuration(step.delayMinutes * 60)} after{' '}
+        {index === 0 ? 'the alarm' : `step ${index}`} is dismissed
+      </Text>
+      <View style={styles.chipContainer}>
+        {CHAIN_DELAY_OPTIONS.map((minutes) => (
+          <TouchableOpacity
+            key={minutes}
+            style={[styles.chip, step.delayMinutes === minutes && styles.chipActive]}
+            onPress={() => saveStep(chain, index, { delayMinutes: minutes })}
+          >
+            <Text style={[styles.chipText, step.delayMinutes === minutes && styles.chipTextActive]}>
+              {minutes}m
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  /**
+   * Render a single chain card
+   */
+  const renderChain = (chain: AlarmChain) => {
+    const totalMinutes = chain.steps.reduce((sum, step) => sum + step.delayMinutes, 0);
+
+    return (
+      <View key={chain.id} style={styles.section}>
+        <View style={styles.chainHeader}>
+          <Text style={styles.sectionTitle}>{chain.name}</Text>
+          <TouchableOpacity onPress={() => handleDeleteChain(chain)}>
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.chainMeta}>
+          {chain.steps.length} step{chain.steps.length === 1 ? '' : 's'} · about{' '}
+          {formatTimerDuration(totalMinutes * 60)} in total
+          {chain.pendingNotificationId ? ' · running' : ''}
+        </Text>
+
+        {/* Trigger alarm */}
+        <Text style={styles.label}>Starts When You Dismiss</Text>
+        <View style={styles.chipContainer}>
+          {triggerAlarms.map((alarm) => (
+            <TouchableOpacity
+              key={alarm.id}
+              style={[styles.chip, chain.triggerAlarmId === alarm.id && styles.chipActive]}
+              onPress={() => saveChain(chain, { triggerAlarmId: alarm.id })}
+            >
+              <Text
+                style={[styles.chipText, chain.triggerAlarmId === alarm.id && styles.chipTextActive]}
+              >
+                {formatAlarmTime(alarm.time, false)} {alarm.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {!triggerAlarms.some((alarm) => alarm.id === chain.triggerAlarmId) && (
+          <Text style={styles.warningText}>
+            The alarm that started this chain was deleted, pick another one
+          </Text>
+        )}
+
+        {/* Steps */}
+        <Text style={styles.label}>Follow-ups</Text>
+        {chain.steps.map((step, index) => renderStep(chain, step, index))}
+
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() =>
+            saveChain(chain, {
+              steps: [
+                ...chain.steps,
+                { label: 'Next step', delayMinutes: DEFAULT_CHAIN_DELAY_MINUTES },
+              ],
+            })
+          }
+        >
+          <Text style={styles.actionButtonText}>+ Add Step</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* New Chain */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>New Chain</Text>
+        <View style={styles.newChainRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Morning routine"
+            value={newChainName}
+            onChangeText={setNewChainName}
+            maxLength={50}
+          />
+          <TouchableOpacity style={styles.createButton} onPress={handleCreateChain}>
+            <Text style={styles.createButtonText}>Create</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.helperText}>
+          Dismissing the alarm books the first follow-up; dismissing each follow-up books the next
+        </Text>
+      </View>
+
+      {chains.map(renderChain)}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  newChainRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  createButton: {
+    backgroundColor: '#6200ee',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  createButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#d32f2f',
+    marginBottom: 12,
+  },
+  chainHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  chainMeta: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  step: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+    paddingTop: 12,
+    marginBottom: 4,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepNumber: {
+    width: 20,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#6200ee',
+  },
+  stepInput: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    color: '#333333',
+  },
+  stepMeta: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#f3e5ff',
+  },
+  chipActive: {
+    backgroundColor: '#6200ee',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6200ee',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionButton: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#6200ee',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#6200ee',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
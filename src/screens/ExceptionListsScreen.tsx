@@ -0,0 +1,347 @@
+/**
+ * ExceptionListsScreen - Holiday / Exception-Date Lists
+ *
+ * Manages named lists of dates (e.g. "Company holidays 2027") that repeating
+ * alarms can opt into to skip those days. Dates can be added one at a time or
+ * imported from dated text or an iCalendar (.ics) file.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Screen Components
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  Alert,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+// Hooks
+import { useAlarms } from '../hooks';
+
+// Components
+import { IcsImportModal } from '../components/IcsImportModal';
+
+// Types
+import { ExceptionDateList } from '../types/alarm.types';
+
+// Utils
+import { formatDateLabel, formatDateString, parseDateString } from '../utils/timeCalculations';
+import { parseExceptionDates } from '../utils/exceptionDates';
+
+/**
+ * ExceptionListsScreen Component
+ */
+export const ExceptionListsScreen: React.FC = () => {
+  const {
+    alarms,
+    clock,
+    exceptionLists,
+    addExceptionList,
+    updateExceptionList,
+    deleteExceptionList,
+  } = useAlarms();
+  const [newListName, setNewListName] = useState('');
+  const [datePickerListId, setDatePickerListId] = useState<string | null>(null);
+  const [importListId, setImportListId] = useState<string | null>(null);
+
+  /**
+   * Create a new empty list
+   */
+  const handleCreateList = async () => {
+    const name = newListName.trim();
+    if (name.length === 0) {
+      Alert.alert('Error', 'Please enter a name for the list');
+      return;
+    }
+
+    try {
+      await addExceptionList(name, []);
+      setNewListName('');
+    } catch (error) {
+      console.error('[ExceptionListsScreen] Failed to create list:', error);
+      Alert.alert('Error', 'Failed to create list');
+    }
+  };
+
+  /**
+   * Replace a list's dates, reporting failures
+   */
+  const saveDates = async (list: ExceptionDateList, dates: string[]) => {
+    try {
+      await updateExceptionList(list.id, { dates });
+    } catch (error) {
+      console.error('[ExceptionListsScreen] Failed to update list:', error);
+      Alert.alert('Error', 'Failed to update list');
+    }
+  };
+
+  /**
+   * Handle date selection for the list being edited
+   */
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    const list = exceptionLists.find((l) => l.id === datePickerListId);
+    setDatePickerListId(null);
+
+    if (list && event.type === 'set' && selectedDate) {
+      saveDates(list, [...list.dates, formatDateString(selectedDate)]);
+    }
+  };
+
+  /**
+   * Merge imported dates into the list being imported into
+   */
+  const handleImport = async (text: string) => {
+    const list = exceptionLists.find((l) => l.id === importListId);
+    setImportListId(null);
+
+    if (!list) {
+      return;
+    }
+
+    const { dates, skipped } = parseExceptionDates(text);
+    const added = dates.filter((date) => !list.dates.includes(date)).length;
+
+    if (added > 0) {
+      await saveDates(list, [...list.dates, ...dates]);
+    }
+
+    Alert.alert(
+      'Import Complete',
+      `Added ${added} date${added === 1 ? '' : 's'} to "${list.name}".` +
+        (skipped > 0 ? `\n${skipped} entr${skipped === 1 ? 'y' : 'ies'} without a date were skipped.` : '')
+    );
+  };
+
+  /**
+   * Delete a list with confirmation
+   */
+  const handleDeleteList = (list: ExceptionDateList) => {
+    Alert.alert(
+      'Delete List',
+      `Are you sure you want to delete "${list.name}"? Alarms using it will ring on these dates again.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteExceptionList(list.id);
+            } catch (error) {
+              console.error('[ExceptionListsScreen] Failed to delete list:', error);
+              Alert.alert('Error', 'Failed to delete list');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Render a single list card
+   */
+  const renderList = (list: ExceptionDateList) => {
+    const now = clock.now();
+    const usedBy = alarms.filter((alarm) => alarm.exceptionListIds?.includes(list.id)).length;
+
+    return (
+      <View key={list.id} style={styles.section}>
+        <View style={styles.listHeader}>
+          <Text style={styles.sectionTitle}>{list.name}</Text>
+          <TouchableOpacity onPress={() => handleDeleteList(list)}>
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.listMeta}>
+          {list.dates.length} date{list.dates.length === 1 ? '' : 's'} · used by {usedBy} alarm
+          {usedBy === 1 ? '' : 's'}
+        </Text>
+
+        {/* Dates */}
+        <View style={styles.chipContainer}>
+          {list.dates.map((date) => (
+            <TouchableOpacity
+              key={date}
+              style={styles.chip}
+              onPress={() => saveDates(list, list.dates.filter((d) => d !== date))}
+            >
+              <Text style={styles.chipText}>
+                {formatDateLabel(parseDateString(date), now)} ✕
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setDatePickerListId(list.id)}
+          >
+            <Text style={styles.actionButtonText}>+ Add Date</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setImportListId(list.id)}
+          >
+            <Text style={styles.actionButtonText}>Import</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* New List */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>New List</Text>
+        <View style={styles.newListRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Company holidays 2027"
+            value={newListName}
+            onChangeText={setNewListName}
+            maxLength={50}
+          />
+          <TouchableOpacity style={styles.createButton} onPress={handleCreateList}>
+            <Text style={styles.createButtonText}>Create</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.helperText}>
+          Repeating alarms that use a list don't ring on its dates
+        </Text>
+      </View>
+
+      {exceptionLists.map(renderList)}
+
+      {datePickerListId !== null && (
+        <DateTimePicker
+          value={clock.now()}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          onChange={handleDateChange}
+        />
+      )}
+
+      {/* Date Import Modal */}
+      <IcsImportModal
+        visible={importListId !== null}
+        onImport={handleImport}
+        onClose={() => setImportListId(null)}
+        title="Import Dates"
+        hint="Paste an .ics file, or one date per line (YYYY-MM-DD, optionally followed by a name)."
+        placeholder={'2027-01-01 New Year\'s Day\n2027-12-25 Christmas Day'}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  newListRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  createButton: {
+    backgroundColor: '#6200ee',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  createButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 8,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  listMeta: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#f3e5ff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6200ee',
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#6200ee',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#6200ee',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -1,8 +1,9 @@
 /**
  * SettingsScreen - App Settings Screen
  * 
- * Displays app settings including default snooze duration,
- * default sound, battery optimization warnings, and app info.
+ * Displays app settings including default snooze duration, snooze buttons,
+ * similar-alarm warnings, default sound, quiet hours, calendar import/export,
+ * battery optimization warnings, and app info.
  * 
  * Reference: Docs/ARCHITECTURE.md - Screen Components
  */
@@ -17,28 +18,71 @@ import {
   Switch,
   Alert,
   Linking,
+  Share,
+  Platform,
 } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useNavigation } from '@react-navigation/native';
 
 // Services
 import { StorageService } from '../services/StorageService';
+import { NotificationService } from '../services/NotificationService';
+
+// Hooks
+import { useAlarms } from '../hooks';
 
 // Components
 import { SoundPicker } from '../components/SoundPicker';
+import { IcsImportModal } from '../components/IcsImportModal';
+import { WeekDayPicker } from '../components/WeekDayPicker';
 
 // Constants
-import { DEFAULT_SETTINGS, MIN_SNOOZE_DURATION, MAX_SNOOZE_DURATION } from '../constants/alarm.constants';
+import {
+  DEFAULT_SETTINGS,
+  MIN_SNOOZE_DURATION,
+  MAX_SNOOZE_DURATION,
+  SNOOZE_OPTION_CHOICES,
+  MAX_SNOOZE_OPTIONS,
+  CONFLICT_WINDOW_OPTIONS,
+  DEFAULT_CONFLICT_WINDOW_MINUTES,
+  DEFAULT_QUIET_HOURS,
+  DEFAULT_WORKWEEK,
+  QUIET_HOURS_MODE_OPTIONS,
+  WEEK_DAYS,
+} from '../constants/alarm.constants';
 import { getSoundName } from '../constants/sounds';
 
 // Types
-import { AppSettings } from '../types/alarm.types';
+import { AppSettings, IcsImportWarning, QuietHours, RootStackParamList } from '../types/alarm.types';
+
+// Utils
+import { canExportToICS, parseAlarmsFromICS, serializeAlarmsToICS } from '../utils/icalendar';
+import {
+  combineDayAndTime,
+  formatAlarmTime,
+  formatDateToTime,
+  formatSnoozeOption,
+} from '../utils/timeCalculations';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
+
+/**
+ * Most per-event warnings listed in the import summary before truncating
+ */
+const MAX_LISTED_WARNINGS = 8;
 
 /**
  * SettingsScreen Component
  */
 export const SettingsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [showSoundPicker, setShowSoundPicker] = useState(false);
+  const [showIcsImport, setShowIcsImport] = useState(false);
+  const [quietTimePicker, setQuietTimePicker] = useState<'start' | 'end' | null>(null);
+  const { alarms, addAlarm, clock, exceptionLists, quietHours, setQuietHours, chains } = useAlarms();
 
   /**
    * Load settings on mount
@@ -86,6 +130,58 @@ export const SettingsScreen: React.FC = () => {
     saveSettings({ defaultSnoozeDuration: duration });
   };
 
+  /**
+   * Change or switch off quiet hours; alarms are rebooked under the new window
+   */
+  const handleQuietHoursChange = async (updatedQuietHours: QuietHours | undefined) => {
+    try {
+      await setQuietHours(updatedQuietHours);
+      // Keep later saves of other settings from restoring the old window
+      setSettings((current) => ({ ...current, quietHours: updatedQuietHours }));
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to update quiet hours:', error);
+      Alert.alert('Error', 'Failed to update quiet hours');
+    }
+  };
+
+  /**
+   * Handle a quiet-hours start or end time from the picker
+   */
+  const handleQuietTimeChange = (event: any, selectedDate?: Date) => {
+    const field = quietTimePicker;
+    setQuietTimePicker(null);
+
+    if (quietHours && field && event.type === 'set' && selectedDate) {
+      handleQuietHoursChange({ ...quietHours, [field]: formatDateToTime(selectedDate) });
+    }
+  };
+
+  /**
+   * Add or remove a snooze length offered on alarm notifications
+   * Re-registering the alarm category updates the buttons of pending alarms too
+   */
+  const handleSnoozeOptionToggle = async (minutes: number) => {
+    const current = settings.snoozeOptions ?? [];
+    let snoozeOptions: number[] | undefined;
+    
+    if (current.includes(minutes)) {
+      const remaining = current.filter((option) => option !== minutes);
+      snoozeOptions = remaining.length > 0 ? remaining : undefined;
+    } else if (current.length >= MAX_SNOOZE_OPTIONS) {
+      Alert.alert('Too Many Buttons', `A notification can offer up to ${MAX_SNOOZE_OPTIONS} snooze lengths`);
+      return;
+    } else {
+      snoozeOptions = [...current, minutes].sort((a, b) => a - b);
+    }
+    
+    await saveSettings({ snoozeOptions });
+    try {
+      await NotificationService.setupNotificationCategories(snoozeOptions);
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to update snooze buttons:', error);
+    }
+  };
+
   /**
    * Handle default sound change
    */
@@ -93,6 +189,71 @@ export const SettingsScreen: React.FC = () => {
     saveSettings({ defaultSound: soundId });
   };
 
+  /**
+   * Alarms that can be written as calendar events, and how many are left out
+   */
+  const exportableAlarms = alarms.filter(canExportToICS);
+  const leftOutCount = alarms.length - exportableAlarms.length;
+
+  /**
+   * Share all alarms as an iCalendar document
+   */
+  const handleExport = async () => {
+    if (exportableAlarms.length === 0) {
+      Alert.alert('Nothing to Export', 'Create an alarm first.');
+      return;
+    }
+
+    try {
+      await Share.share({
+        title: 'alarms.ics',
+        message: serializeAlarmsToICS(exportableAlarms, clock.now()),
+      });
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to export alarms:', error);
+      Alert.alert('Error', 'Failed to export alarms');
+    }
+  };
+
+  /**
+   * Import alarms from pasted iCalendar text and summarize any warnings
+   */
+  const handleImport = async (icsText: string) => {
+    setShowIcsImport(false);
+
+    const { alarms: imported, warnings } = parseAlarmsFromICS(icsText, clock.now());
+    const failures: IcsImportWarning[] = [];
+    let importedCount = 0;
+
+    for (const alarmInput of imported) {
+      try {
+        await addAlarm(alarmInput);
+        importedCount++;
+      } catch (error) {
+        console.error('[SettingsScreen] Failed to import alarm:', alarmInput.label, error);
+        failures.push({
+          eventIndex: -1,
+          summary: alarmInput.label,
+          message: error instanceof Error ? error.message : 'Failed to add alarm',
+        });
+      }
+    }
+
+    const problems = [...warnings, ...failures];
+    const listed = problems.slice(0, MAX_LISTED_WARNINGS).map(warning => {
+      const event = warning.summary ?? (warning.eventIndex >= 0 ? `Event ${warning.eventIndex + 1}` : 'Calendar');
+      return `• ${event}: ${warning.message}`;
+    });
+    if (problems.length > MAX_LISTED_WARNINGS) {
+      listed.push(`…and ${problems.length - MAX_LISTED_WARNINGS} more`);
+    }
+
+    Alert.alert(
+      `Imported ${importedCount} Alarm${importedCount === 1 ? '' : 's'}`,
+      listed.length > 0 ? listed.join('\n') : 'All events were imported exactly.'
+    );
+  };
+
   /**
    * Open battery optimization settings
    */
@@ -191,6 +352,85 @@ export const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Snooze Buttons */}
+        <View style={styles.settingItem}>
+          <Text style={styles.settingLabel}>Snooze Buttons</Text>
+          <Text style={styles.settingDescription}>
+            Snooze lengths offered on alarm notifications (up to {MAX_SNOOZE_OPTIONS}); none
+            selected shows a single Snooze button
+          </Text>
+          <View style={styles.durationButtons}>
+            {SNOOZE_OPTION_CHOICES.map((minutes) => {
+              const isSelected = settings.snoozeOptions?.includes(minutes) ?? false;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.durationButton, isSelected && styles.durationButtonActive]}
+                  onPress={() => handleSnoozeOptionToggle(minutes)}
+                >
+                  <Text
+                    style={[
+                      styles.durationButtonText,
+                      isSelected && styles.durationButtonTextActive,
+                    ]}
+                  >
+                    {formatSnoozeOption(minutes)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Similar Alarm Warnings */}
+        <View style={styles.settingItem}>
+          <Text style={styles.settingLabel}>Similar Alarm Warnings</Text>
+          <Text style={styles.settingDescription}>
+            Warn when saving an alarm that rings within this many minutes of another
+          </Text>
+          <View style={styles.durationButtons}>
+            {CONFLICT_WINDOW_OPTIONS.map((minutes) => {
+              const isSelected =
+                (settings.conflictWindowMinutes ?? DEFAULT_CONFLICT_WINDOW_MINUTES) === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.durationButton, isSelected && styles.durationButtonActive]}
+                  onPress={() => saveSettings({ conflictWindowMinutes: minutes })}
+                >
+                  <Text
+                    style={[
+                      styles.durationButtonText,
+                      isSelected && styles.durationButtonTextActive,
+                    ]}
+                  >
+                    {minutes === 0 ? 'Exact' : `${minutes} min`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Workweek */}
+        <View style={styles.settingItem}>
+          <Text style={styles.settingLabel}>Workweek</Text>
+          <Text style={styles.settingDescription}>
+            Working days for new business-day alarms and the Workdays shortcut
+          </Text>
+          <WeekDayPicker
+            selectedDays={settings.workweek ?? DEFAULT_WORKWEEK}
+            onDaysChange={(days) => {
+              // A workweek needs at least one working day
+              if (days.length > 0) {
+                saveSettings({ workweek: days });
+              }
+            }}
+            workweek={settings.workweek ?? DEFAULT_WORKWEEK}
+            summary={`Works ${WEEK_DAYS.filter((day) => (settings.workweek ?? DEFAULT_WORKWEEK).includes(day)).join(', ')}`}
+          />
+        </View>
+
         {/* Default Sound */}
         <View style={styles.settingItem}>
           <Text style={styles.settingLabel}>Default Alarm Sound</Text>
@@ -207,6 +447,143 @@ export const SettingsScreen: React.FC = () => {
         </View>
       </View>
 
+      {/* Quiet Hours Section */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.sectionTitle}>Quiet Hours</Text>
+          <Switch
+            value={quietHours !== undefined}
+            onValueChange={(value) => handleQuietHoursChange(value ? DEFAULT_QUIET_HOURS : undefined)}
+            trackColor={{ false: '#d1d1d1', true: '#bb86fc' }}
+            thumbColor={quietHours ? '#6200ee' : '#f4f3f4'}
+          />
+        </View>
+        <Text style={styles.settingDescription}>
+          Alarms and heads-ups stay silent during these hours, except alarms marked critical
+        </Text>
+
+        {quietHours && (
+          <>
+            <View style={[styles.settingItem, styles.quietTimeRow]}>
+              {(['start', 'end'] as const).map((field) => (
+                <TouchableOpacity
+                  key={field}
+                  style={[styles.pickerButton, styles.quietTimeButton]}
+                  onPress={() => setQuietTimePicker(field)}
+                >
+                  <Text style={styles.pickerButtonText}>
+                    {field === 'start' ? 'From' : 'Until'} {formatAlarmTime(quietHours[field], false)}
+                  </Text>
+                  <Text style={styles.pickerButtonIcon}>›</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Nights Starting On</Text>
+              <WeekDayPicker
+                selectedDays={quietHours.days}
+                onDaysChange={(days) => handleQuietHoursChange({ ...quietHours, days })}
+              />
+            </View>
+
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Alarms During Quiet Hours</Text>
+              <View style={styles.durationButtons}>
+                {QUIET_HOURS_MODE_OPTIONS.map(({ value, label }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.durationButton,
+                      quietHours.mode === value && styles.durationButtonActive,
+                    ]}
+                    onPress={() => handleQuietHoursChange({ ...quietHours, mode: value })}
+                  >
+                    <Text
+                      style={[
+                        styles.durationButtonText,
+                        quietHours.mode === value && styles.durationButtonTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+
+        {quietHours && quietTimePicker !== null && (
+          <DateTimePicker
+            value={combineDayAndTime(clock.now(), quietHours[quietTimePicker])}
+            mode="time"
+            is24Hour={false}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleQuietTimeChange}
+          />
+        )}
+      </View>
+
+      {/* Import / Export Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import / Export</Text>
+
+        <TouchableOpacity style={styles.settingItem} onPress={() => setShowIcsImport(true)}>
+          <Text style={styles.settingLabel}>Import from Calendar</Text>
+          <Text style={styles.settingDescription}>
+            Add alarms from iCalendar (.ics) events
+          </Text>
+          <Text style={styles.linkText}>Paste .ics ›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.settingItem} onPress={handleExport}>
+          <Text style={styles.settingLabel}>Export to Calendar</Text>
+          <Text style={styles.settingDescription}>
+            Share all alarms as an iCalendar (.ics) file
+            {leftOutCount > 0 ? ` (${leftOutCount} left out: timers and sun-relative alarms can't be exported)` : ''}
+          </Text>
+          <Text style={styles.linkText}>Export {exportableAlarms.length} alarm{exportableAlarms.length === 1 ? '' : 's'} ›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Holidays Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Holidays & Exceptions</Text>
+
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => navigation.navigate('ExceptionLists')}
+        >
+          <Text style={styles.settingLabel}>Exception-Date Lists</Text>
+          <Text style={styles.settingDescription}>
+            Dates that repeating alarms skip, like public or company holidays
+          </Text>
+          <Text style={styles.linkText}>
+            Manage {exceptionLists.length} list{exceptionLists.length === 1 ? '' : 's'} ›
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Chains Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Alarm Chains</Text>
+
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => navigation.navigate('Chains')}
+        >
+          <Text style={styles.settingLabel}>Follow-up Sequences</Text>
+          <Text style={styles.settingDescription}>
+            Reminders booked one after another once you dismiss an alarm, like "Leave for
+            the bus" 20 minutes after waking up
+          </Text>
+          <Text style={styles.linkText}>
+            Manage {chains.length} chain{chains.length === 1 ? '' : 's'} ›
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {/* System Settings Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>System</Text>
@@ -259,6 +636,13 @@ export const SettingsScreen: React.FC = () => {
         onSoundSelect={handleSoundChange}
         onClose={() => setShowSoundPicker(false)}
       />
+
+      {/* Calendar Import Modal */}
+      <IcsImportModal
+        visible={showIcsImport}
+        onImport={handleImport}
+        onClose={() => setShowIcsImport(false)}
+      />
     </ScrollView>
   );
 };
@@ -353,6 +737,19 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  quietTimeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  quietTimeButton: {
+    flex: 1,
+  },
   durationButton: {
     flex: 1,
     paddingVertical: 12,
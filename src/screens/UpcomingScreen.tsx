@@ -0,0 +1,220 @@
+/**
+ * UpcomingScreen - Agenda of Upcoming Rings
+ *
+ * Lists what will ring over the next few days across all enabled alarms,
+ * grouped by day, with skips, pauses and exception dates already applied.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Screen Components
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useNavigation } from '@react-navigation/native';
+
+// Hooks
+import { useAlarms, useAlarmScheduler } from '../hooks';
+
+// Types
+import { AgendaEntry, RootStackParamList } from '../types/alarm.types';
+
+// Constants
+import { AGENDA_DAY_OPTIONS, DEFAULT_AGENDA_DAYS } from '../constants/alarm.constants';
+
+// Utils
+import {
+  addDays,
+  formatAlarmTime,
+  formatDateLabel,
+  formatDateString,
+  formatDateToTime,
+  startOfDay,
+} from '../utils/timeCalculations';
+import { formatTimeZoneName } from '../utils/timeZone';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Upcoming'>;
+
+/**
+ * UpcomingScreen Component
+ */
+export const UpcomingScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { alarms, clock, exceptionLists } = useAlarms();
+  const { getAgenda } = useAlarmScheduler();
+  const [days, setDays] = useState(DEFAULT_AGENDA_DAYS);
+
+  const now = clock.now();
+
+  /**
+   * Rings in the window, grouped by local calendar day
+   * Exception lists are read by the scheduler, so a change to them refreshes the agenda too
+   */
+  const groups = useMemo(() => {
+    const byDay = new Map<string, AgendaEntry[]>();
+
+    for (const entry of getAgenda(alarms, days)) {
+      const key = formatDateString(entry.at);
+      byDay.set(key, [...(byDay.get(key) ?? []), entry]);
+    }
+
+    return Array.from(byDay.entries());
+  }, [alarms, days, exceptionLists, getAgenda]);
+
+  /**
+   * Heading for a day: Today, Tomorrow, or the date
+   */
+  const getDayTitle = (key: string, first: Date): string => {
+    if (key === formatDateString(now)) {
+      return 'Today';
+    }
+    if (key === formatDateString(addDays(startOfDay(now), 1))) {
+      return 'Tomorrow';
+    }
+    return formatDateLabel(first, now);
+  };
+
+  /**
+   * Render a single ring
+   */
+  const renderEntry = ({ alarm, at }: AgendaEntry) => (
+    <TouchableOpacity
+      key={`${alarm.id}-${at.getTime()}`}
+      style={styles.entry}
+      onPress={() => navigation.navigate('AlarmEdit', { alarmId: alarm.id, mode: 'edit' })}
+    >
+      <Text style={styles.entryTime}>{formatAlarmTime(formatDateToTime(at), false)}</Text>
+      <View style={styles.entryDetails}>
+        <Text style={styles.entryLabel} numberOfLines={1}>
+          {alarm.label}
+        </Text>
+        {alarm.timeZone && (
+          <Text style={styles.entryMeta}>{formatTimeZoneName(alarm.timeZone)} time</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* Window */}
+      <View style={styles.windowButtons}>
+        {AGENDA_DAY_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.windowButton, days === option && styles.windowButtonActive]}
+            onPress={() => setDays(option)}
+          >
+            <Text style={[styles.windowButtonText, days === option && styles.windowButtonTextActive]}>
+              {option === 1 ? '24 hours' : `${option} days`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {groups.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Nothing rings in this period</Text>
+          <Text style={styles.emptySubtext}>Skipped days and exception dates are left out</Text>
+        </View>
+      ) : (
+        groups.map(([key, entries]) => (
+          <View key={key} style={styles.section}>
+            <Text style={styles.sectionTitle}>{getDayTitle(key, entries[0].at)}</Text>
+            {entries.map(renderEntry)}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  windowButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  windowButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+  },
+  windowButtonActive: {
+    backgroundColor: '#6200ee',
+  },
+  windowButtonText: {
+    fontSize: 14,
+    color: '#666666',
+    fontWeight: '600',
+  },
+  windowButtonTextActive: {
+    color: '#ffffff',
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e0e0e0',
+  },
+  entryTime: {
+    width: 72,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6200ee',
+  },
+  entryDetails: {
+    flex: 1,
+  },
+  entryLabel: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666666',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999999',
+  },
+});
@@ -7,4 +7,7 @@
 export { AlarmListScreen } from './AlarmListScreen';
 export { AlarmEditScreen } from './AlarmEditScreen';
 export { SettingsScreen } from './SettingsScreen';
+export { ExceptionListsScreen } from './ExceptionListsScreen';
+export { UpcomingScreen } from './UpcomingScreen';
+export { ChainsScreen } from './ChainsScreen';
 
@@ -0,0 +1,267 @@
+/**
+ * MissedAlarmService - Missed Ring Detection
+ *
+ * Keeps a ledger of the rings booked with the OS and of what the app later saw
+ * of them (delivered, or answered by the user). A ring whose time has passed
+ * with neither is reported as missed. That can't tell a ring that never
+ * sounded (device off, app force-stopped, notification dropped by the OS) from
+ * one delivered in the background and swiped away, so the report only says
+ * the ring couldn't be confirmed.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Service Layer
+ */
+
+import { Alarm, MissedAlarm, NotificationData, RingRecord } from '../types/alarm.types';
+import { StorageService } from './StorageService';
+import { NotificationService } from './NotificationService';
+import { MISSED_ALARM_GRACE_MINUTES } from '../constants/alarm.constants';
+
+/**
+ * What the app saw of a ring
+ */
+type RingObservation = 'delivered' | 'responded';
+
+/**
+ * MissedAlarmService class
+ * Static methods for recording rings and detecting the ones that never arrived
+ */
+export class MissedAlarmService {
+  /**
+   * Ledger updates run one after another, since bookings and notification
+   * events can arrive at the same time
+   */
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Record rings just booked with the OS
+   * Bookkeeping failures are logged, never thrown, so they can't block a booking
+   * @param records - Rings to expect
+   */
+  static async recordBookings(records: RingRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    
+    await this.serialize(async () => {
+      try {
+        const bookedIds = new Set(records.map(record => record.notificationId));
+        const log = await StorageService.getRingLog();
+        await StorageService.saveRingLog([
+          ...log.filter(record => !bookedIds.has(record.notificationId)),
+          ...records,
+        ]);
+      } catch (error) {
+        console.error('[MissedAlarmService] Failed to record bookings:', error);
+      }
+    });
+  }
+
+  /**
+   * Stop expecting cancelled rings
+   * Rings whose time already passed are kept, since they rang (or were missed) before the cancel
+   * @param notificationIds - Notifications that were cancelled
+   * @param now - Reference instant
+   */
+  static async forgetBookings(notificationIds: string[], now: Date): Promise<void> {
+    if (notificationIds.length === 0) {
+      return;
+    }
+    
+    await this.serialize(async () => {
+      try {
+        const cancelledIds = new Set(notificationIds);
+        const log = await StorageService.getRingLog();
+        const kept = log.filter(
+          record =>
+            !cancelledIds.has(record.notificationId) ||
+            new Date(record.expectedAt).getTime() <= now.getTime()
+        );
+        
+        if (kept.length !== log.length) {
+          await StorageService.saveRingLog(kept);
+        }
+      } catch (error) {
+        console.error('[MissedAlarmService] Failed to forget bookings:', error);
+      }
+    });
+  }
+
+  /**
+   * Record that a ring was delivered or answered
+   * Re-rings count for the ring they repeat; heads-ups, snoozes and chain
+   * follow-ups are not tracked
+   * @param data - Data of the notification that was seen
+   * @param observation - Whether it was delivered or answered
+   * @param at - When it was seen
+   */
+  static async recordObserved(
+    data: NotificationData,
+    observation: RingObservation,
+    at: Date
+  ): Promise<void> {
+    const ringAt = this.getRingTime(data);
+    if (!ringAt) {
+      return;
+    }
+    
+    await this.serialize(async () => {
+      try {
+        const key = this.getRingKey(data.alarmId, ringAt);
+        const log = await StorageService.getRingLog();
+        let matched = false;
+        
+        const updated = log.map(record => {
+          if (this.getRingKey(record.alarmId, record.expectedAt) !== key) {
+            return record;
+          }
+          matched = true;
+          return observation === 'delivered'
+            ? { ...record, deliveredAt: record.deliveredAt ?? at.toISOString() }
+            : { ...record, respondedAt: record.respondedAt ?? at.toISOString() };
+        });
+        
+        if (matched) {
+          await StorageService.saveRingLog(updated);
+          console.log('[MissedAlarmService] Ring', observation, ':', key);
+        }
+      } catch (error) {
+        console.error('[MissedAlarmService] Failed to record observation:', error);
+      }
+    });
+  }
+
+  /**
+   * Settle the rings whose time has passed and report the ones that were missed
+   * A ring counts as seen if it was delivered or answered while the app was running,
+   * or is still in the notification tray. Rings of deleted alarms are dropped.
+   * @param alarms - Array of all stored alarms
+   * @param now - Reference instant
+   * @returns Promise resolving to every missed alarm not yet rescheduled or dismissed
+   * @throws Error if the ledger can't be read or written
+   */
+  static async detectMissed(alarms: Alarm[], now: Date): Promise<MissedAlarm[]> {
+    return this.serialize(async () => {
+      try {
+        const log = await StorageService.getRingLog();
+        const presented = await NotificationService.getPresentedNotifications();
+        const alarmIds = new Set(alarms.map(alarm => alarm.id));
+        
+        // Rings left in the tray were delivered even if the app wasn't running to see them
+        const seenKeys = new Set<string>();
+        for (const notification of presented) {
+          const data = notification.request.content.data as NotificationData | undefined;
+          const ringAt = data ? this.getRingTime(data) : null;
+          if (data && ringAt) {
+            seenKeys.add(this.getRingKey(data.alarmId, ringAt));
+          }
+        }
+        for (const record of log) {
+          if (record.deliveredAt || record.respondedAt) {
+            seenKeys.add(this.getRingKey(record.alarmId, record.expectedAt));
+          }
+        }
+        
+        const missed = (await StorageService.getMissedAlarms()).filter(entry =>
+          alarmIds.has(entry.alarmId)
+        );
+        const missedKeys = new Set(missed.map(entry => this.getRingKey(entry.alarmId, entry.expectedAt)));
+        const cutoff = now.getTime() - MISSED_ALARM_GRACE_MINUTES * 60 * 1000;
+        const pending: RingRecord[] = [];
+        let found = 0;
+        
+        for (const record of log) {
+          if (new Date(record.expectedAt).getTime() > cutoff) {
+            pending.push(record);
+            continue;
+          }
+          
+          // Duplicate bookings of one ring are reported once
+          const key = this.getRingKey(record.alarmId, record.expectedAt);
+          if (seenKeys.has(key) || missedKeys.has(key) || !alarmIds.has(record.alarmId)) {
+            continue;
+          }
+          
+          missed.push({
+            id: record.notificationId,
+            alarmId: record.alarmId,
+            label: record.label,
+            expectedAt: record.expectedAt,
+            detectedAt: now.toISOString(),
+          });
+          missedKeys.add(key);
+          found++;
+        }
+        
+        await StorageService.saveRingLog(pending);
+        await StorageService.saveMissedAlarms(missed);
+        
+        console.log('[MissedAlarmService] Missed-ring check complete:', {
+          ringsSettled: log.length - pending.length,
+          newlyMissed: found,
+          missed: missed.length,
+        });
+        
+        return missed;
+      } catch (error) {
+        console.error('[MissedAlarmService] Failed to detect missed alarms:', error);
+        throw new Error('Failed to detect missed alarms');
+      }
+    });
+  }
+
+  /**
+   * Remove missed alarms from the report once they are rescheduled or dismissed
+   * @param ids - Missed alarm IDs to remove
+   * @returns Promise resolving to the missed alarms that remain
+   * @throws Error if the report can't be read or written
+   */
+  static async resolveMissed(ids: string[]): Promise<MissedAlarm[]> {
+    return this.serialize(async () => {
+      try {
+        const resolvedIds = new Set(ids);
+        const missed = await StorageService.getMissedAlarms();
+        const remaining = missed.filter(entry => !resolvedIds.has(entry.id));
+        await StorageService.saveMissedAlarms(remaining);
+        console.log('[MissedAlarmService] Missed alarms resolved:', missed.length - remaining.length);
+        return remaining;
+      } catch (error) {
+        console.error('[MissedAlarmService] Failed to resolve missed alarms:', error);
+        throw new Error('Failed to resolve missed alarms');
+      }
+    });
+  }
+
+  /**
+   * Get the ring a notification belongs to
+   * @param data - Notification data
+   * @returns ISO datetime of the ring, or null for notifications that aren't tracked
+   */
+  private static getRingTime(data: NotificationData): string | null {
+    if (data.isPreAlert || data.isSnoozed || data.chainId !== undefined) {
+      return null;
+    }
+    
+    return (data.isNag ? data.alarmAt : data.scheduledAt) ?? null;
+  }
+
+  /**
+   * Key identifying one ring of one alarm, shared by all bookings of that ring
+   * @param alarmId - Alarm ID
+   * @param ringAt - ISO datetime of the ring
+   * @returns Key string
+   */
+  private static getRingKey(alarmId: string, ringAt: string): string {
+    return `${alarmId}@${new Date(ringAt).getTime()}`;
+  }
+
+  /**
+   * Run a ledger update after the ones already queued
+   * @param task - Update to run
+   * @returns Promise resolving to the update's result
+   */
+  private static serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -13,9 +13,12 @@ import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { NotificationConfig } from '../types/alarm.types';
+import { formatSnoozeOption } from '../utils/timeCalculations';
 import { 
   NOTIFICATION_CHANNEL, 
-  NOTIFICATION_CATEGORY 
+  NOTIFICATION_CATEGORY,
+  PRE_ALERT_CHANNEL,
+  PRE_ALERT_CATEGORY
 } from '../constants/alarm.constants';
 
 /**
@@ -23,12 +26,18 @@ import {
  * Static methods for all notification operations
  */
 export class NotificationService {
+  /**
+   * IDs of the snooze-choice categories registered during this session
+   */
+  private static registeredSnoozeCategories = new Set<string>();
+
   /**
    * Initialize notification service
    * Must be called on app startup
    * Sets up channels, categories, and handlers
+   * @param snoozeOptions - Global snooze lengths (minutes) offered on alarms without their own
    */
-  static async initialize(): Promise<void> {
+  static async initialize(snoozeOptions?: number[]): Promise<void> {
     try {
       console.log('[NotificationService] Initializing...');
       
@@ -115,13 +124,14 @@ export class NotificationService {
         },
       });
       
-      // Create notification channel (Android only)
+      // Create notification channels (Android only)
       if (Platform.OS === 'android') {
         await this.createNotificationChannel();
+        await this.createPreAlertChannel();
       }
       
       // Set up notification categories
-      await this.setupNotificationCategories();
+      await this.setupNotificationCategories(snoozeOptions);
       
       console.log('[NotificationService] Initialized successfully');
     } catch (error) {
@@ -196,24 +206,73 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Create default-importance channel for heads-up notifications (Android only)
+   * Respects Do Not Disturb and does not vibrate, unlike the alarm channel
+   */
+  static async createPreAlertChannel(): Promise<void> {
+    try {
+      if (Platform.OS !== 'android') {
+        return;
+      }
+      
+      await Notifications.setNotificationChannelAsync(PRE_ALERT_CHANNEL.ID, {
+        name: PRE_ALERT_CHANNEL.NAME,
+        description: PRE_ALERT_CHANNEL.DESCRIPTION,
+        importance: Notifications.AndroidImportance.DEFAULT,
+        bypassDnd: false,
+        sound: 'default',
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        enableVibrate: false,
+      });
+      
+      console.log('[NotificationService] Created notification channel:', PRE_ALERT_CHANNEL.ID);
+    } catch (error) {
+      console.error('[NotificationService] Failed to create heads-up channel:', error);
+      throw new Error('Failed to create heads-up notification channel');
+    }
+  }
+
   /**
    * Set up notification categories with action buttons
-   * Defines Snooze and Dismiss actions
+   * Defines Snooze and Dismiss actions for alarms (Dismiss only once snoozes run out),
+   * Done and Dismiss for heads-ups
+   * Calling it again with new snooze options updates the buttons of pending alarms too
+   * @param snoozeOptions - Global snooze lengths (minutes); omitted offers a single Snooze action
    */
-  static async setupNotificationCategories(): Promise<void> {
+  static async setupNotificationCategories(snoozeOptions?: number[]): Promise<void> {
     try {
       await Notifications.setNotificationCategoryAsync(
         NOTIFICATION_CATEGORY.ID,
+        this.getAlarmActions(snoozeOptions)
+      );
+      
+      await Notifications.setNotificationCategoryAsync(
+        NOTIFICATION_CATEGORY.NO_SNOOZE_ID,
+        [
+          {
+            identifier: NOTIFICATION_CATEGORY.DISMISS_ACTION,
+            buttonTitle: 'Dismiss',
+            options: {
+              isDestructive: true,
+              opensAppToForeground: false,
+            },
+          },
+        ]
+      );
+      
+      await Notifications.setNotificationCategoryAsync(
+        PRE_ALERT_CATEGORY.ID,
         [
           {
-            identifier: NOTIFICATION_CATEGORY.SNOOZE_ACTION,
-            buttonTitle: 'Snooze',
+            identifier: PRE_ALERT_CATEGORY.DONE_ACTION,
+            buttonTitle: 'Done',
             options: {
               opensAppToForeground: false,
             },
           },
           {
-            identifier: NOTIFICATION_CATEGORY.DISMISS_ACTION,
+            identifier: PRE_ALERT_CATEGORY.DISMISS_ACTION,
             buttonTitle: 'Dismiss',
             options: {
               isDestructive: true,
@@ -230,14 +289,103 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Build the action buttons of an alarm notification
+   * Several snooze lengths become one "snooze-<minutes>" action each, after Dismiss
+   * @param snoozeOptions - Snooze lengths in minutes; omitted offers a single Snooze action
+   * @returns Notification actions
+   */
+  private static getAlarmActions(snoozeOptions?: number[]): Notifications.NotificationAction[] {
+    const dismissAction: Notifications.NotificationAction = {
+      identifier: NOTIFICATION_CATEGORY.DISMISS_ACTION,
+      buttonTitle: 'Dismiss',
+      options: {
+        isDestructive: true,
+        opensAppToForeground: false,
+      },
+    };
+    
+    if (!snoozeOptions || snoozeOptions.length === 0) {
+      return [
+        {
+          identifier: NOTIFICATION_CATEGORY.SNOOZE_ACTION,
+          buttonTitle: 'Snooze',
+          options: {
+            opensAppToForeground: false,
+          },
+        },
+        dismissAction,
+      ];
+    }
+    
+    return [
+      dismissAction,
+      ...snoozeOptions.map(minutes => ({
+        identifier: this.getSnoozeActionId(minutes),
+        buttonTitle: formatSnoozeOption(minutes),
+        options: {
+          opensAppToForeground: false,
+        },
+      })),
+    ];
+  }
+
+  /**
+   * Register the category offering a set of snooze lengths, once per session
+   * @param snoozeOptions - Snooze lengths in minutes
+   * @returns Promise resolving to the category ID
+   */
+  static async ensureSnoozeCategory(snoozeOptions: number[]): Promise<string> {
+    const categoryId = `${NOTIFICATION_CATEGORY.SNOOZE_CHOICES_ID_PREFIX}${snoozeOptions.join('-')}`;
+    
+    if (this.registeredSnoozeCategories.has(categoryId)) {
+      return categoryId;
+    }
+    
+    try {
+      await Notifications.setNotificationCategoryAsync(categoryId, this.getAlarmActions(snoozeOptions));
+      this.registeredSnoozeCategories.add(categoryId);
+      
+      console.log('[NotificationService] Registered snooze category:', categoryId);
+      return categoryId;
+    } catch (error) {
+      console.error('[NotificationService] Failed to register snooze category:', error);
+      throw new Error('Failed to register snooze category');
+    }
+  }
+
+  /**
+   * Get the action identifier that snoozes for a fixed length
+   * @param minutes - Snooze length in minutes
+   * @returns e.g. "snooze-15"
+   */
+  static getSnoozeActionId(minutes: number): string {
+    return `${NOTIFICATION_CATEGORY.SNOOZE_FOR_ACTION_PREFIX}${minutes}`;
+  }
+
+  /**
+   * Parse the snooze length out of an action identifier
+   * @param actionIdentifier - Action identifier from a notification response
+   * @returns Snooze length in minutes, or null for any other action
+   */
+  static parseSnoozeActionId(actionIdentifier: string): number | null {
+    if (!actionIdentifier.startsWith(NOTIFICATION_CATEGORY.SNOOZE_FOR_ACTION_PREFIX)) {
+      return null;
+    }
+    
+    const minutes = Number(actionIdentifier.slice(NOTIFICATION_CATEGORY.SNOOZE_FOR_ACTION_PREFIX.length));
+    return Number.isInteger(minutes) && minutes > 0 ? minutes : null;
+  }
+
   /**
    * Schedule a notification with the provided configuration
+   * Heads-up notifications (data.isPreAlert) go through the quieter heads-up channel
    * @param config - NotificationConfig object
    * @returns Promise resolving to notification ID string
    */
   static async scheduleNotification(config: NotificationConfig): Promise<string> {
     try {
-      const { title, body, data, sound, triggerDate } = config;
+      const { title, body, data, sound, triggerDate, allowSnooze = true, snoozeOptions } = config;
       
       console.log('[NotificationService] Scheduling notification:', {
         title: title || 'Alarm',
@@ -246,6 +394,14 @@ export class NotificationService {
         alarmId: data.alarmId,
       });
       
+      const isPreAlert = data?.isPreAlert === true;
+      let alarmCategory: string = NOTIFICATION_CATEGORY.ID;
+      if (!allowSnooze) {
+        alarmCategory = NOTIFICATION_CATEGORY.NO_SNOOZE_ID;
+      } else if (snoozeOptions && snoozeOptions.length > 0 && !isPreAlert) {
+        alarmCategory = await this.ensureSnoozeCategory(snoozeOptions);
+      }
+      
       // Ensure notification content is complete with all required fields
       const notificationContent = {
         title: title && title.trim().length > 0 ? title : 'Alarm',
@@ -253,8 +409,10 @@ export class NotificationService {
         subtitle: 'Task Alarm',
         data: data || { alarmId: 'unknown' },
         sound: sound === 'default' || !sound ? 'default' : sound,
-        priority: Notifications.AndroidNotificationPriority.MAX,
-        categoryIdentifier: NOTIFICATION_CATEGORY.ID,
+        priority: isPreAlert
+          ? Notifications.AndroidNotificationPriority.DEFAULT
+          : Notifications.AndroidNotificationPriority.MAX,
+        categoryIdentifier: isPreAlert ? PRE_ALERT_CATEGORY.ID : alarmCategory,
         // Ensure notification is visible in notification tray
         badge: 1,
       };
@@ -265,7 +423,7 @@ export class NotificationService {
         content: notificationContent as any,
         trigger: {
           date: triggerDate,
-          channelId: NOTIFICATION_CHANNEL.ID,
+          channelId: isPreAlert ? PRE_ALERT_CHANNEL.ID : NOTIFICATION_CHANNEL.ID,
         },
       });
       
@@ -321,6 +479,22 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Get the notifications currently shown in the notification tray
+   * Delivered rings stay there until the user answers or clears them
+   * @returns Array of presented notification objects
+   */
+  static async getPresentedNotifications(): Promise<Notifications.Notification[]> {
+    try {
+      const notifications = await Notifications.getPresentedNotificationsAsync();
+      console.log('[NotificationService] Presented notifications:', notifications.length);
+      return notifications;
+    } catch (error) {
+      console.error('[NotificationService] Failed to get presented notifications:', error);
+      return [];
+    }
+  }
+
   /**
    * Check if notification permission is granted
    * @returns Promise resolving to true if granted, false otherwise
@@ -0,0 +1,365 @@
+/**
+ * ReconciliationService - Stored/Scheduled State Repair
+ *
+ * Compares the alarms persisted in AsyncStorage with the notifications the OS
+ * actually has scheduled, and repairs any drift between the two. OS updates,
+ * reinstalls and force-stops can silently drop or duplicate notifications.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Service Layer
+ */
+
+import * as Notifications from 'expo-notifications';
+import {
+  Alarm,
+  AlarmChain,
+  NotificationData,
+  OrphanReason,
+  ReconciliationReport,
+} from '../types/alarm.types';
+import { NotificationService } from './NotificationService';
+import { SchedulerService } from './SchedulerService';
+import { MissedAlarmService } from './MissedAlarmService';
+import {
+  findNextAlarmTime,
+  formatDateString,
+  isAlarmExpired,
+  isRepeatingAlarm,
+  isTimerPaused,
+} from '../utils/timeCalculations';
+
+/**
+ * ReconciliationService class
+ * Static methods for reconciling alarms with scheduled notifications
+ */
+export class ReconciliationService {
+  /**
+   * Reconcile alarms with OS-scheduled notifications
+   * - Cancels notifications with no matching alarm, a disabled alarm, or that the alarm doesn't track
+   * - Prunes stored notification IDs the OS no longer has
+   * - Rebooks alarms whose pending trigger dates don't match their settings
+   * - Re-arms enabled alarms with nothing booked and tops up repeating windows
+   * - Clears skips and pauses that have run their course
+   * - Switches off repeating alarms whose active date range is over, and one-time alarms that already rang
+   * - Registers the snooze-button categories of alarms with their own snooze lengths
+   * - Keeps only the follow-up each running chain has booked
+   * - Stops expecting rings it cancelled or found dropped (see MissedAlarmService)
+   * @param alarms - Array of all stored alarms
+   * @param now - Reference instant (from the app's Clock)
+   * @param chains - Array of all stored alarm chains
+   * @returns Promise resolving to repaired alarms and a report of what changed
+   */
+  static async reconcile(
+    alarms: Alarm[],
+    now: Date,
+    chains: AlarmChain[] = []
+  ): Promise<{ alarms: Alarm[]; report: ReconciliationReport }> {
+    const scheduled = await NotificationService.getAllScheduledNotifications();
+    
+    const report: ReconciliationReport = {
+      ranAt: now.toISOString(),
+      alarmsChecked: alarms.length,
+      notificationsFound: scheduled.length,
+      orphansCancelled: [],
+      danglingIdsPruned: [],
+      alarmsRearmed: [],
+      staleAlarmsRebooked: [],
+      suspensionsCleared: [],
+      alarmsEnded: [],
+      failures: [],
+    };
+    
+    console.log('[ReconciliationService] Reconciling:', {
+      alarms: alarms.length,
+      scheduledNotifications: scheduled.length,
+    });
+    
+    const alarmsById = new Map(alarms.map(alarm => [alarm.id, alarm]));
+    const chainsById = new Map(chains.map(chain => [chain.id, chain]));
+    const scheduledById = new Map<string, Notifications.NotificationRequest>();
+    
+    // Pass 1: cancel notifications that no enabled alarm (or running chain) owns
+    for (const request of scheduled) {
+      const data = this.getData(request);
+      const alarmId = data?.alarmId;
+      const alarm = alarmId ? alarmsById.get(alarmId) : undefined;
+      
+      let reason: OrphanReason | null = null;
+      if (data?.chainId) {
+        // Chain follow-ups belong to their chain, not to the alarm that started it
+        if (chainsById.get(data.chainId)?.pendingNotificationId === request.identifier) {
+          continue;
+        }
+        reason = 'untracked';
+      } else if (!alarm) {
+        reason = 'unknown-alarm';
+      } else if (!alarm.isEnabled) {
+        reason = 'disabled-alarm';
+      } else if (!alarm.notificationIds.includes(request.identifier)) {
+        reason = 'untracked';
+      }
+      
+      if (reason) {
+        try {
+          await NotificationService.cancelNotification(request.identifier);
+          report.orphansCancelled.push({ notificationId: request.identifier, alarmId, reason });
+        } catch (error) {
+          console.error('[ReconciliationService] Failed to cancel orphan:', request.identifier, error);
+        }
+        continue;
+      }
+      
+      scheduledById.set(request.identifier, request);
+    }
+    
+    // Pass 2: repair each alarm
+    const repaired: Alarm[] = [];
+    
+    for (const alarm of alarms) {
+      try {
+        const current = this.clearExpiredSuspension(alarm, now, report);
+        repaired.push(await this.reconcileAlarm(current, scheduledById, now, report));
+      } catch (error) {
+        console.error('[ReconciliationService] Failed to reconcile alarm:', alarm.id, error);
+        report.failures.push({
+          alarmId: alarm.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        repaired.push(alarm);
+      }
+    }
+    
+    // Cancelled orphans and bookings the OS dropped will never ring, so stop expecting them
+    await MissedAlarmService.forgetBookings(
+      [
+        ...report.orphansCancelled.map(orphan => orphan.notificationId),
+        ...report.danglingIdsPruned.map(dangling => dangling.notificationId),
+      ],
+      now
+    );
+    
+    console.log('[ReconciliationService] Reconciliation complete:', {
+      orphansCancelled: report.orphansCancelled.length,
+      danglingIdsPruned: report.danglingIdsPruned.length,
+      alarmsRearmed: report.alarmsRearmed.length,
+      staleAlarmsRebooked: report.staleAlarmsRebooked.length,
+      suspensionsCleared: report.suspensionsCleared.length,
+      alarmsEnded: report.alarmsEnded.length,
+      failures: report.failures.length,
+    });
+    
+    return { alarms: repaired, report };
+  }
+
+  /**
+   * Reconcile a single alarm against the notifications it owns
+   * @param alarm - Alarm to repair
+   * @param scheduledById - Scheduled notifications that survived the orphan pass
+   * @param now - Reference time for the pass
+   * @param report - Report to record changes in
+   * @returns Promise resolving to the repaired alarm
+   */
+  private static async reconcileAlarm(
+    alarm: Alarm,
+    scheduledById: Map<string, Notifications.NotificationRequest>,
+    now: Date,
+    report: ReconciliationReport
+  ): Promise<Alarm> {
+    // Prune IDs the OS no longer has
+    const pendingIds = alarm.notificationIds.filter(id => {
+      if (scheduledById.has(id)) {
+        return true;
+      }
+      report.danglingIdsPruned.push({ alarmId: alarm.id, notificationId: id });
+      return false;
+    });
+    
+    if (!alarm.isEnabled) {
+      return { ...alarm, notificationIds: [] };
+    }
+    
+    // Categories are registered per session, so pending notifications need theirs again
+    if (alarm.snoozeOptions && alarm.snoozeOptions.length > 0) {
+      await NotificationService.ensureSnoozeCategory(alarm.snoozeOptions);
+    }
+    
+    // A repeating alarm past its final occurrence turns itself off once nothing (e.g. a snooze) is pending
+    if (
+      pendingIds.length === 0 &&
+      isRepeatingAlarm(alarm) &&
+      isAlarmExpired(alarm, now, SchedulerService.getExceptionLists(), SchedulerService.getQuietHours())
+    ) {
+      console.log('[ReconciliationService] Switching off alarm past its active range:', alarm.id);
+      report.alarmsEnded.push(alarm.id);
+      return { ...alarm, isEnabled: false, notificationIds: [] };
+    }
+    
+    // A one-time alarm whose booked ring went off unanswered (swiped away, app killed) has rung;
+    // booking it again would make it ring every day
+    if (
+      pendingIds.length === 0 &&
+      !isRepeatingAlarm(alarm) &&
+      alarm.lastScheduledAt !== undefined &&
+      new Date(alarm.lastScheduledAt).getTime() <= now.getTime()
+    ) {
+      console.log('[ReconciliationService] Switching off one-time alarm that already rang:', alarm.id);
+      report.alarmsEnded.push(alarm.id);
+      return { ...alarm, isEnabled: false, notificationIds: [] };
+    }
+    
+    // Rebook everything if any pending occurrence no longer matches the alarm
+    const hasStaleTrigger = pendingIds.some(id => {
+      const data = this.getData(scheduledById.get(id));
+      if (!data?.scheduledAt || data.isSnoozed) {
+        return false;
+      }
+      if (data.isPreAlert) {
+        return !this.isExpectedPreAlert(alarm, data, now);
+      }
+      if (data.isNag) {
+        return !this.isExpectedNag(alarm, data, now);
+      }
+      return !this.isExpectedTrigger(alarm, new Date(data.scheduledAt), now);
+    });
+    
+    if (hasStaleTrigger) {
+      console.log('[ReconciliationService] Rebooking stale alarm:', alarm.id);
+      const notificationIds = await SchedulerService.rescheduleAlarm({
+        ...alarm,
+        notificationIds: pendingIds,
+      });
+      report.staleAlarmsRebooked.push(alarm.id);
+      return { ...alarm, notificationIds, lastScheduledAt: SchedulerService.getOneTimeRingAt(alarm) };
+    }
+    
+    // Re-arm enabled alarms that have nothing booked (dated alarms that passed and paused timers have nothing to book)
+    if (
+      pendingIds.length === 0 &&
+      !isTimerPaused(alarm) &&
+      !isAlarmExpired(alarm, now, SchedulerService.getExceptionLists(), SchedulerService.getQuietHours())
+    ) {
+      console.log('[ReconciliationService] Re-arming alarm with nothing booked:', alarm.id);
+      const notificationIds = await SchedulerService.scheduleAlarm(alarm);
+      report.alarmsRearmed.push(alarm.id);
+      return { ...alarm, notificationIds, lastScheduledAt: SchedulerService.getOneTimeRingAt(alarm) };
+    }
+    
+    // Keep the rolling window of repeating alarms full
+    if (isRepeatingAlarm(alarm)) {
+      const notificationIds = await SchedulerService.topUpAlarm({
+        ...alarm,
+        notificationIds: pendingIds,
+      });
+      return { ...alarm, notificationIds };
+    }
+    
+    return { ...alarm, notificationIds: pendingIds };
+  }
+
+  /**
+   * Drop skipped dates and a pause that no longer affect any future occurrence
+   * @param alarm - Alarm to check
+   * @param now - Reference time for the pass
+   * @param report - Report to record changes in
+   * @returns The alarm without stale skip/pause markers
+   */
+  private static clearExpiredSuspension(
+    alarm: Alarm,
+    now: Date,
+    report: ReconciliationReport
+  ): Alarm {
+    const today = formatDateString(now);
+    const skippedDates = alarm.skippedDates?.filter(date => date >= today);
+    const pausedUntil =
+      alarm.pausedUntil !== undefined && alarm.pausedUntil > today ? alarm.pausedUntil : undefined;
+    
+    if (skippedDates?.length === alarm.skippedDates?.length && pausedUntil === alarm.pausedUntil) {
+      return alarm;
+    }
+    
+    console.log('[ReconciliationService] Clearing finished skip/pause:', alarm.id);
+    report.suspensionsCleared.push(alarm.id);
+    return {
+      ...alarm,
+      skippedDates: skippedDates && skippedDates.length > 0 ? skippedDates : undefined,
+      pausedUntil,
+    };
+  }
+
+  /**
+   * Check whether a pending trigger date is a genuine future occurrence of the alarm
+   * @param alarm - Alarm object
+   * @param trigger - Trigger date booked with the OS
+   * @param now - Reference time
+   * @returns true if the trigger is in the future and matches the alarm's settings
+   */
+  private static isExpectedTrigger(alarm: Alarm, trigger: Date, now: Date): boolean {
+    if (trigger.getTime() <= now.getTime()) {
+      return false;
+    }
+    
+    const expected = findNextAlarmTime(
+      alarm,
+      new Date(trigger.getTime() - 1),
+      SchedulerService.getExceptionLists(),
+      SchedulerService.getQuietHours()
+    );
+    return expected?.getTime() === trigger.getTime();
+  }
+
+  /**
+   * Check whether a pending heads-up still matches the alarm's offset and an upcoming occurrence
+   * @param alarm - Alarm object
+   * @param data - Data of the heads-up notification
+   * @param now - Reference time
+   * @returns true if the heads-up announces a genuine occurrence at the alarm's offset (moved out of quiet hours)
+   */
+  private static isExpectedPreAlert(alarm: Alarm, data: NotificationData, now: Date): boolean {
+    if (!data.scheduledAt || !data.alarmAt) {
+      return false;
+    }
+    
+    const alarmAt = new Date(data.alarmAt);
+    const expected = SchedulerService.getPreAlertTime(alarm, alarmAt);
+    return (
+      expected?.getTime() === new Date(data.scheduledAt).getTime() &&
+      this.isExpectedTrigger(alarm, alarmAt, now)
+    );
+  }
+
+  /**
+   * Check whether a pending re-ring still matches the alarm's nag settings
+   * Re-rings of occurrences that already rang are kept until the ring is answered
+   * @param alarm - Alarm object
+   * @param data - Data of the re-ring notification
+   * @param now - Reference time
+   * @returns true if the re-ring belongs to a genuine occurrence at the alarm's interval
+   */
+  private static isExpectedNag(alarm: Alarm, data: NotificationData, now: Date): boolean {
+    if (
+      !alarm.nagIntervalMinutes ||
+      !alarm.nagMaxCount ||
+      !data.scheduledAt ||
+      !data.alarmAt ||
+      !data.nagIndex ||
+      data.nagIndex > alarm.nagMaxCount
+    ) {
+      return false;
+    }
+    
+    const alarmAt = new Date(data.alarmAt);
+    const offsetMs = new Date(data.scheduledAt).getTime() - alarmAt.getTime();
+    if (offsetMs !== data.nagIndex * alarm.nagIntervalMinutes * 60 * 1000) {
+      return false;
+    }
+    return alarmAt.getTime() <= now.getTime() || this.isExpectedTrigger(alarm, alarmAt, now);
+  }
+
+  /**
+   * Extract alarm notification data from a scheduled request
+   */
+  private static getData(
+    request: Notifications.NotificationRequest | undefined
+  ): NotificationData | undefined {
+    return request?.content.data as NotificationData | undefined;
+  }
+}
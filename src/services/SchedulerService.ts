@@ -9,73 +9,470 @@
  * Reference: Docs/API_REFERENCE.md - SchedulerService
  */
 
-import { Alarm, NotificationData } from '../types/alarm.types';
+import * as Notifications from 'expo-notifications';
+import {
+  AgendaEntry,
+  Alarm,
+  AlarmChain,
+  AlarmConflict,
+  Clock,
+  ExceptionDateList,
+  NotificationData,
+  QuietHours,
+} from '../types/alarm.types';
 import { NotificationService } from './NotificationService';
+import { MissedAlarmService } from './MissedAlarmService';
 import { 
   getNextAlarmTime, 
-  formatAlarmTime, 
-  getAlarmDescription 
+  getOccurrencesBetween,
+  findAlarmConflicts,
+  isTimer,
+  getUpcomingOccurrences,
+  isRepeatingAlarm,
+  formatAlarmTime,
+  formatDateString,
+  formatTimerDuration,
+  getOccurrenceDay,
+  formatDateToTime,
+  getQuietHoursEnd,
+  describeSolarAnchor,
+  getAlarmCalendarDay,
+  getRotationDayType,
+  hasSnoozesLeft
 } from '../utils/timeCalculations';
+import { systemClock } from '../utils/clock';
+import {
+  CONFLICT_HORIZON_DAYS,
+  PENDING_NOTIFICATION_LIMIT,
+  RESERVED_NOTIFICATION_SLOTS,
+  SCHEDULE_WINDOW_SIZE,
+} from '../constants/alarm.constants';
 
 /**
  * SchedulerService class
  * Static methods for alarm scheduling operations
  */
 export class SchedulerService {
+  /**
+   * Source of "now" for every scheduling decision
+   */
+  private static clock: Clock = systemClock;
+
+  /**
+   * Replace the clock used for scheduling
+   * @param clock - Clock to use (systemClock in production)
+   */
+  static setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Get the clock used for scheduling
+   * @returns Current clock
+   */
+  static getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Exception-date lists (e.g. holidays) that opted-in alarms skip
+   */
+  private static exceptionLists: ExceptionDateList[] = [];
+
+  /**
+   * Replace the exception-date lists used for scheduling
+   * @param exceptionLists - All stored exception-date lists
+   */
+  static setExceptionLists(exceptionLists: ExceptionDateList[]): void {
+    this.exceptionLists = exceptionLists;
+  }
+
+  /**
+   * Get the exception-date lists used for scheduling
+   * @returns Current exception-date lists
+   */
+  static getExceptionLists(): ExceptionDateList[] {
+    return this.exceptionLists;
+  }
+
+  /**
+   * Quiet hours that non-critical rings and heads-ups are kept out of
+   */
+  private static quietHours: QuietHours | undefined;
+
+  /**
+   * Replace the quiet hours used for scheduling
+   * @param quietHours - Quiet-hours settings, or undefined when switched off
+   */
+  static setQuietHours(quietHours: QuietHours | undefined): void {
+    this.quietHours = quietHours;
+  }
+
+  /**
+   * Get the quiet hours used for scheduling
+   * @returns Current quiet hours, or undefined when switched off
+   */
+  static getQuietHours(): QuietHours | undefined {
+    return this.quietHours;
+  }
+
   /**
    * Schedule an alarm notification
-   * Calculates next trigger time and schedules notification with expo-notifications
+   * Books the rolling window of upcoming occurrences (a single one for one-time alarms),
+   * as far as the alarm's share of the pending-notification limit allows
    * @param alarm - Alarm object to schedule
-   * @returns Promise resolving to notification ID string
+   * @returns Promise resolving to the booked notification IDs
    */
-  static async scheduleAlarm(alarm: Alarm): Promise<string> {
+  static async scheduleAlarm(alarm: Alarm): Promise<string[]> {
     try {
-      // Calculate next trigger time
-      const nextTriggerTime = this.calculateNextTrigger(alarm);
-      const now = new Date();
-      const timeUntilTrigger = Math.round((nextTriggerTime.getTime() - now.getTime()) / 1000 / 60); // minutes
+      const now = this.clock.now();
+      const { quota, releasedIds } = this.planBookings(
+        alarm,
+        await NotificationService.getAllScheduledNotifications(),
+        now
+      );
+      await this.releaseBookings(releasedIds);
+      
+      const occurrences = getUpcomingOccurrences(
+        alarm,
+        quota,
+        now,
+        this.exceptionLists,
+        this.quietHours
+      );
+      
+      if (occurrences.length === 0) {
+        console.warn('[SchedulerService] Alarm has no upcoming occurrence, nothing booked:', alarm.id);
+        return [];
+      }
       
       console.log('[SchedulerService] Scheduling alarm:', {
         id: alarm.id,
         label: alarm.label,
         time: alarm.time,
         currentTime: now.toISOString(),
-        nextTrigger: nextTriggerTime.toISOString(),
-        minutesUntilTrigger: timeUntilTrigger,
+        occurrences: occurrences.length,
+        nextTrigger: occurrences[0]?.toISOString(),
         repeats: alarm.repeats,
       });
       
-      // Prepare notification data
+      const notificationIds: string[] = [];
+      
+      // Only the nearest occurrence carries re-rings and a heads-up, see topUpAlarm for the rest
+      for (const [index, triggerDate] of occurrences.entries()) {
+        notificationIds.push(...(await this.scheduleOccurrence(alarm, triggerDate, index === 0)));
+      }
+      
+      console.log('[SchedulerService] Alarm scheduled successfully:', {
+        alarmId: alarm.id,
+        notificationIds,
+      });
+      
+      return notificationIds;
+    } catch (error) {
+      console.error('[SchedulerService] Failed to schedule alarm:', error);
+      throw new Error('Failed to schedule alarm');
+    }
+  }
+
+  /**
+   * Schedule a single occurrence of an alarm
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence should ring
+   * @param isNext - Whether this is the next occurrence to ring, which alone gets the
+   *   alarm's re-rings and heads-up
+   * @returns Promise resolving to the occurrence's notification IDs
+   */
+  private static async scheduleOccurrence(
+    alarm: Alarm,
+    triggerDate: Date,
+    isNext: boolean
+  ): Promise<string[]> {
+    const minutesUntilTrigger = Math.round((triggerDate.getTime() - this.clock.now().getTime()) / 1000 / 60);
+    
+    console.log('[SchedulerService] Scheduling occurrence:', {
+      alarmId: alarm.id,
+      triggersAt: triggerDate.toISOString(),
+      minutesUntilTrigger,
+    });
+    
+    // Prepare notification data
+    const notificationData: NotificationData = {
+      alarmId: alarm.id,
+      isSnoozed: false,
+      snoozeCount: 0,
+      label: alarm.label,
+      scheduledAt: triggerDate.toISOString(),
+    };
+    
+    // Timers describe their length, clock alarms their time
+    const defaultBody = alarm.timer
+      ? `Timer for ${formatTimerDuration(alarm.timer.durationSeconds)} is up`
+      : `Alarm for ${this.describeRingTime(alarm, triggerDate)}`;
+    
+    const notificationId = await NotificationService.scheduleNotification({
+      title: alarm.label || (alarm.timer ? 'Timer' : 'Alarm'),
+      body: alarm.description || defaultBody,
+      data: notificationData,
+      sound: alarm.soundUri,
+      triggerDate,
+      allowSnooze: hasSnoozesLeft(alarm, 0),
+      snoozeOptions: alarm.snoozeOptions,
+    });
+    
+    // Expect the ring, so it can be reported if it never arrives
+    await MissedAlarmService.recordBookings([
+      {
+        notificationId,
+        alarmId: alarm.id,
+        label: alarm.label,
+        expectedAt: triggerDate.toISOString(),
+      },
+    ]);
+    
+    if (!isNext) {
+      return [notificationId];
+    }
+    
+    const nagIds = await this.scheduleNags(alarm, triggerDate);
+    const preAlertId = await this.schedulePreAlert(alarm, triggerDate);
+    return preAlertId ? [notificationId, ...nagIds, preAlertId] : [notificationId, ...nagIds];
+  }
+
+  /**
+   * Describe when an occurrence rings, for notification text
+   * Sun-relative alarms name their anchor and shift rotations their shift, since the
+   * clock time changes from day to day
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence rings
+   * @returns e.g. "7:30 AM", "6:12 AM (30 min before sunrise)" or "5:30 PM (Night)"
+   */
+  private static describeRingTime(alarm: Alarm, triggerDate: Date): string {
+    if (alarm.solar) {
+      const time = formatAlarmTime(formatDateToTime(triggerDate), false);
+      return `${time} (${describeSolarAnchor(alarm.solar).toLowerCase()})`;
+    }
+    
+    if (alarm.recurrence?.type === 'rotation') {
+      const day = getAlarmCalendarDay(alarm, triggerDate);
+      const shift = getRotationDayType(alarm.recurrence, day);
+      if (shift?.time) {
+        return `${formatAlarmTime(shift.time, false)} (${shift.name})`;
+      }
+    }
+    
+    return formatAlarmTime(alarm.time, false);
+  }
+
+  /**
+   * Schedule the nag-mode re-rings for one occurrence of an alarm
+   * Re-rings are booked up front so they fire even if the app is not running;
+   * answering any ring cancels the rest (see cancelNags). Only the nearest occurrence
+   * has them booked, since a full window of re-rings would overrun the OS's cap on
+   * pending notifications (64 on iOS)
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence rings
+   * @returns Promise resolving to the re-ring notification IDs (empty without nag mode)
+   */
+  private static async scheduleNags(alarm: Alarm, triggerDate: Date): Promise<string[]> {
+    if (!alarm.nagIntervalMinutes || !alarm.nagMaxCount) {
+      return [];
+    }
+    
+    const nagIds: string[] = [];
+    
+    for (let nagIndex = 1; nagIndex <= alarm.nagMaxCount; nagIndex++) {
+      const nagDate = new Date(triggerDate.getTime() + nagIndex * alarm.nagIntervalMinutes * 60 * 1000);
+      
       const notificationData: NotificationData = {
         alarmId: alarm.id,
-        isSnoozed: false,
+        isNag: true,
+        nagIndex,
+        snoozeCount: 0,
         label: alarm.label,
-        scheduledAt: nextTriggerTime.toISOString(),
+        scheduledAt: nagDate.toISOString(),
+        alarmAt: triggerDate.toISOString(),
       };
       
-      // Get formatted time for display
-      const formattedTime = formatAlarmTime(alarm.time, false);
-      const description = getAlarmDescription(alarm);
+      nagIds.push(
+        await NotificationService.scheduleNotification({
+          title: alarm.label || 'Alarm',
+          body: `Still ringing (${nagIndex} of ${alarm.nagMaxCount}) · Alarm for ${this.describeRingTime(alarm, triggerDate)}`,
+          data: notificationData,
+          sound: alarm.soundUri,
+          triggerDate: nagDate,
+          allowSnooze: hasSnoozesLeft(alarm, 0),
+          snoozeOptions: alarm.snoozeOptions,
+        })
+      );
+    }
+    
+    return nagIds;
+  }
+
+  /**
+   * Cancel the pending re-rings of occurrences that have already rung
+   * Called when a ring is answered, so nag mode stops for it
+   * @param alarm - Alarm object
+   * @returns Promise resolving to the alarm's notification IDs without the cancelled re-rings
+   */
+  static async cancelNags(alarm: Alarm): Promise<string[]> {
+    try {
+      const scheduled = await NotificationService.getAllScheduledNotifications();
+      const scheduledById = new Map(scheduled.map(request => [request.identifier, request]));
+      const now = this.clock.now().getTime();
       
-      // Schedule notification
-      const notificationId = await NotificationService.scheduleNotification({
-        title: alarm.label || 'Alarm',
-        body: alarm.description || description,
-        data: notificationData,
-        sound: alarm.soundUri,
-        triggerDate: nextTriggerTime,
+      const answeredNagIds = alarm.notificationIds.filter(id => {
+        const data = scheduledById.get(id)?.content.data as NotificationData | undefined;
+        return data?.isNag === true && !!data.alarmAt && new Date(data.alarmAt).getTime() <= now;
       });
       
-      console.log('[SchedulerService] Alarm scheduled successfully:', {
-        alarmId: alarm.id,
-        notificationId,
-        triggersAt: nextTriggerTime.toISOString(),
+      if (answeredNagIds.length > 0) {
+        console.log('[SchedulerService] Cancelling re-rings:', {
+          alarmId: alarm.id,
+          count: answeredNagIds.length,
+        });
+        await this.cancelAlarmNotifications(answeredNagIds);
+      }
+      
+      return alarm.notificationIds.filter(id => !answeredNagIds.includes(id));
+    } catch (error) {
+      console.error('[SchedulerService] Failed to cancel re-rings:', error);
+      throw new Error('Failed to cancel re-rings');
+    }
+  }
+
+  /**
+   * Calculate when the heads-up for one occurrence of an alarm goes out
+   * Heads-ups are never critical: one inside quiet hours waits for them to end,
+   * or is dropped if that would be too late (or quiet hours suppress rings)
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence rings
+   * @returns Date of the heads-up, or null if the alarm has none for this occurrence
+   */
+  static getPreAlertTime(alarm: Alarm, triggerDate: Date): Date | null {
+    if (!alarm.preAlertMinutes || alarm.timer) {
+      return null;
+    }
+    
+    const preAlertDate = new Date(triggerDate.getTime() - alarm.preAlertMinutes * 60 * 1000);
+    const quietEnd = this.quietHours && getQuietHoursEnd(this.quietHours, preAlertDate);
+    if (!quietEnd) {
+      return preAlertDate;
+    }
+    
+    return this.quietHours?.mode === 'defer' && quietEnd.getTime() < triggerDate.getTime()
+      ? quietEnd
+      : null;
+  }
+
+  /**
+   * Schedule the heads-up notification for one occurrence of an alarm
+   * Nothing is booked when the alarm has no heads-up or its time has already passed.
+   * Only the nearest occurrence has its heads-up booked, so each alarm holds at most one
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence rings
+   * @returns Promise resolving to the heads-up notification ID, or null if none was booked
+   */
+  private static async schedulePreAlert(alarm: Alarm, triggerDate: Date): Promise<string | null> {
+    const preAlertDate = this.getPreAlertTime(alarm, triggerDate);
+    if (!preAlertDate || preAlertDate.getTime() <= this.clock.now().getTime()) {
+      return null;
+    }
+    
+    // Quiet hours may have shortened the lead time
+    const leadSeconds = Math.round((triggerDate.getTime() - preAlertDate.getTime()) / 60000) * 60;
+    
+    const notificationData: NotificationData = {
+      alarmId: alarm.id,
+      isPreAlert: true,
+      label: alarm.label,
+      scheduledAt: preAlertDate.toISOString(),
+      alarmAt: triggerDate.toISOString(),
+      occurrenceDate: formatDateString(getOccurrenceDay(alarm, triggerDate, this.quietHours)),
+    };
+    
+    return NotificationService.scheduleNotification({
+      title: `${alarm.label || 'Alarm'} in ${formatTimerDuration(leadSeconds)}`,
+      body: `Alarm at ${this.describeRingTime(alarm, triggerDate)}`,
+      data: notificationData,
+      sound: 'default',
+      triggerDate: preAlertDate,
+    });
+  }
+
+  /**
+   * Get the ring a one-time alarm has booked, to store as its lastScheduledAt
+   * @param alarm - Alarm object
+   * @returns ISO datetime of the next ring, or undefined for repeating alarms
+   */
+  static getOneTimeRingAt(alarm: Alarm): string | undefined {
+    if (isRepeatingAlarm(alarm)) {
+      return undefined;
+    }
+    
+    const [next] = getUpcomingOccurrences(
+      alarm,
+      1,
+      this.clock.now(),
+      this.exceptionLists,
+      this.quietHours
+    );
+    return next?.toISOString();
+  }
+
+  /**
+   * Schedule one follow-up of an alarm chain, relative to now (the dismissal before it)
+   * The user has just answered a ring, so quiet hours don't apply; follow-ups offer no
+   * snooze, and dismissing one books the next
+   * @param chain - Chain the follow-up belongs to
+   * @param stepIndex - Position of the follow-up in the chain's steps
+   * @param soundUri - Sound of the alarm that started the chain
+   * @returns Promise resolving to notification ID
+   */
+  static async scheduleChainStep(
+    chain: AlarmChain,
+    stepIndex: number,
+    soundUri: string
+  ): Promise<string> {
+    try {
+      const step = chain.steps[stepIndex];
+      if (!step) {
+        throw new Error(`Chain has no step ${stepIndex}`);
+      }
+      
+      const triggerDate = new Date(this.clock.now().getTime() + step.delayMinutes * 60 * 1000);
+      
+      console.log('[SchedulerService] Scheduling chain step:', {
+        chainId: chain.id,
+        stepIndex,
+        triggersAt: triggerDate.toISOString(),
       });
       
-      return notificationId;
+      const notificationData: NotificationData = {
+        alarmId: chain.triggerAlarmId,
+        chainId: chain.id,
+        chainStep: stepIndex,
+        label: step.label,
+        scheduledAt: triggerDate.toISOString(),
+      };
+      
+      const nextStep = chain.steps[stepIndex + 1];
+      const position = `${chain.name} · ${stepIndex + 1} of ${chain.steps.length}`;
+      
+      return await NotificationService.scheduleNotification({
+        title: step.label,
+        body: nextStep
+          ? `${position} · then ${nextStep.label} ${formatTimerDuration(nextStep.delayMinutes * 60)} later`
+          : position,
+        data: notificationData,
+        sound: soundUri,
+        triggerDate,
+        allowSnooze: false,
+      });
     } catch (error) {
-      console.error('[SchedulerService] Failed to schedule alarm:', error);
-      throw new Error('Failed to schedule alarm');
+      console.error('[SchedulerService] Failed to schedule chain step:', error);
+      throw new Error('Failed to schedule chain step');
     }
   }
 
@@ -91,6 +488,7 @@ export class SchedulerService {
       }
       
       await NotificationService.cancelNotification(notificationId);
+      await MissedAlarmService.forgetBookings([notificationId], this.clock.now());
       console.log('[SchedulerService] Alarm cancelled:', notificationId);
     } catch (error) {
       console.error('[SchedulerService] Failed to cancel alarm:', error);
@@ -98,31 +496,39 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Cancel every booked notification of an alarm
+   * @param notificationIds - Notification IDs to cancel
+   */
+  static async cancelAlarmNotifications(notificationIds: string[]): Promise<void> {
+    for (const notificationId of notificationIds) {
+      await this.cancelAlarm(notificationId);
+    }
+  }
+
   /**
    * Reschedule an alarm
-   * Cancels existing notification and schedules a new one
+   * Cancels existing notifications and books a fresh window
    * @param alarm - Alarm object to reschedule
-   * @returns Promise resolving to new notification ID
+   * @returns Promise resolving to new notification IDs
    */
-  static async rescheduleAlarm(alarm: Alarm): Promise<string> {
+  static async rescheduleAlarm(alarm: Alarm): Promise<string[]> {
     try {
       console.log('[SchedulerService] Rescheduling alarm:', alarm.id);
       
-      // Cancel existing notification if it exists
-      if (alarm.notificationId) {
-        await this.cancelAlarm(alarm.notificationId);
-      }
+      // Cancel existing notifications
+      await this.cancelAlarmNotifications(alarm.notificationIds);
       
-      // Schedule new notification
-      const newNotificationId = await this.scheduleAlarm(alarm);
+      // Schedule new notifications
+      const newNotificationIds = await this.scheduleAlarm(alarm);
       
       console.log('[SchedulerService] Alarm rescheduled:', {
         alarmId: alarm.id,
-        oldNotificationId: alarm.notificationId,
-        newNotificationId,
+        oldNotificationIds: alarm.notificationIds,
+        newNotificationIds,
       });
       
-      return newNotificationId;
+      return newNotificationIds;
     } catch (error) {
       console.error('[SchedulerService] Failed to reschedule alarm:', error);
       throw new Error('Failed to reschedule alarm');
@@ -137,7 +543,7 @@ export class SchedulerService {
    */
   static calculateNextTrigger(alarm: Alarm): Date {
     try {
-      return getNextAlarmTime(alarm);
+      return getNextAlarmTime(alarm, this.clock.now(), this.exceptionLists, this.quietHours);
     } catch (error) {
       console.error('[SchedulerService] Failed to calculate next trigger:', error);
       throw new Error('Failed to calculate next alarm trigger time');
@@ -146,21 +552,25 @@ export class SchedulerService {
 
   /**
    * Schedule a snooze notification
-   * Creates a temporary alarm for the snooze duration
+   * Creates a temporary alarm for the snooze duration; the snooze itself only
+   * offers Snooze again while the alarm's snooze limit isn't reached
    * @param originalAlarm - Original alarm that was snoozed
    * @param snoozeDurationMinutes - Snooze duration in minutes
+   * @param snoozeNumber - Which snooze of the ring this is (1 for the first)
    * @returns Promise resolving to notification ID
    */
   static async scheduleSnooze(
     originalAlarm: Alarm,
-    snoozeDurationMinutes: number
+    snoozeDurationMinutes: number,
+    snoozeNumber: number = 1
   ): Promise<string> {
     try {
-      const snoozeTime = new Date(Date.now() + snoozeDurationMinutes * 60 * 1000);
+      const snoozeTime = new Date(this.clock.now().getTime() + snoozeDurationMinutes * 60 * 1000);
       
       console.log('[SchedulerService] Scheduling snooze:', {
         alarmId: originalAlarm.id,
         snoozeDuration: snoozeDurationMinutes,
+        snoozeNumber,
         snoozeTime: snoozeTime.toISOString(),
       });
       
@@ -168,17 +578,26 @@ export class SchedulerService {
       const notificationData: NotificationData = {
         alarmId: originalAlarm.id,
         isSnoozed: true,
+        snoozeCount: snoozeNumber,
         label: originalAlarm.label,
         scheduledAt: snoozeTime.toISOString(),
       };
       
+      // With a snooze limit the body counts the snoozes, e.g. "Snooze 2 of 3"
+      const defaultBody = `Alarm snoozed for ${snoozeDurationMinutes} minutes`;
+      const body = originalAlarm.snoozeMaxCount !== undefined
+        ? `Snooze ${snoozeNumber} of ${originalAlarm.snoozeMaxCount} · ${originalAlarm.description || defaultBody}`
+        : originalAlarm.description || defaultBody;
+      
       // Schedule snooze notification
       const notificationId = await NotificationService.scheduleNotification({
         title: `Snoozed: ${originalAlarm.label || 'Alarm'}`,
-        body: originalAlarm.description || `Alarm snoozed for ${snoozeDurationMinutes} minutes`,
+        body,
         data: notificationData,
         sound: originalAlarm.soundUri,
         triggerDate: snoozeTime,
+        allowSnooze: hasSnoozesLeft(originalAlarm, snoozeNumber),
+        snoozeOptions: originalAlarm.snoozeOptions,
       });
       
       console.log('[SchedulerService] Snooze scheduled:', notificationId);
@@ -190,34 +609,324 @@ export class SchedulerService {
   }
 
   /**
-   * Reschedule a repeating alarm for its next occurrence
-   * Used after alarm is dismissed to schedule the next repeat
-   * @param alarm - Alarm object with repeating pattern
-   * @returns Promise resolving to new notification ID, or null if no repeats
+   * Schedule a catch-up ring for an occurrence that was missed
+   * Rings like a snooze: a one-off outside the alarm's schedule that nothing rebooks
+   * @param alarm - Alarm whose ring was missed
+   * @param missedAt - When the missed ring should have sounded
+   * @param delayMinutes - Minutes from now to ring
+   * @returns Promise resolving to notification ID
    */
-  static async rescheduleRepeatingAlarm(alarm: Alarm): Promise<string | null> {
+  static async scheduleCatchUp(alarm: Alarm, missedAt: Date, delayMinutes: number): Promise<string> {
     try {
-      // Only reschedule if alarm has repeats
-      if (alarm.repeats.length === 0) {
-        console.log('[SchedulerService] Alarm is not repeating, skipping reschedule');
-        return null;
+      const triggerDate = new Date(this.clock.now().getTime() + delayMinutes * 60 * 1000);
+      
+      console.log('[SchedulerService] Scheduling catch-up:', {
+        alarmId: alarm.id,
+        missedAt: missedAt.toISOString(),
+        triggersAt: triggerDate.toISOString(),
+      });
+      
+      const notificationData: NotificationData = {
+        alarmId: alarm.id,
+        isSnoozed: true,
+        snoozeCount: 0,
+        label: alarm.label,
+        scheduledAt: triggerDate.toISOString(),
+        alarmAt: missedAt.toISOString(),
+      };
+      
+      const notificationId = await NotificationService.scheduleNotification({
+        title: alarm.label || 'Alarm',
+        body: `Missed at ${formatAlarmTime(formatDateToTime(missedAt), false)} · rescheduled`,
+        data: notificationData,
+        sound: alarm.soundUri,
+        triggerDate,
+        allowSnooze: hasSnoozesLeft(alarm, 0),
+        snoozeOptions: alarm.snoozeOptions,
+      });
+      
+      console.log('[SchedulerService] Catch-up scheduled:', notificationId);
+      return notificationId;
+    } catch (error) {
+      console.error('[SchedulerService] Failed to schedule catch-up:', error);
+      throw new Error('Failed to schedule catch-up ring');
+    }
+  }
+
+  /**
+   * Top up the rolling window of a repeating alarm
+   * Drops IDs that already fired or were cancelled, then books occurrences after the
+   * last pending one until the alarm's share of the pending-notification limit (at most
+   * SCHEDULE_WINDOW_SIZE occurrences) is booked again. When other alarms' sooner rings
+   * have shrunk that share, the latest occurrences are cancelled instead.
+   * Pending snooze, re-ring and heads-up notifications are kept but do not count towards
+   * the window. Re-rings and the heads-up move along with the window: the next occurrence
+   * still to ring gets its own once the one before it has rung.
+   * @param alarm - Alarm object
+   * @returns Promise resolving to the alarm's notification IDs after topping up
+   */
+  static async topUpAlarm(alarm: Alarm): Promise<string[]> {
+    try {
+      const scheduled = await NotificationService.getAllScheduledNotifications();
+      const scheduledById = new Map(scheduled.map(request => [request.identifier, request]));
+      const pendingIds = alarm.notificationIds.filter(id => scheduledById.has(id));
+      
+      // One-time and disabled alarms are never re-armed here
+      if (!alarm.isEnabled || !isRepeatingAlarm(alarm)) {
+        return pendingIds;
       }
       
-      // Only reschedule if alarm is still enabled
-      if (!alarm.isEnabled) {
-        console.log('[SchedulerService] Alarm is disabled, skipping reschedule');
-        return null;
+      const now = this.clock.now();
+      const bookedOccurrences: { id: string; scheduledAt: Date }[] = [];
+      let lastTrigger = now;
+      let nextTrigger: Date | null = null;
+      
+      for (const id of pendingIds) {
+        const data = scheduledById.get(id)?.content.data as NotificationData | undefined;
+        if (!this.isOccurrenceData(data)) {
+          continue;
+        }
+        
+        const scheduledAt = new Date(data.scheduledAt);
+        bookedOccurrences.push({ id, scheduledAt });
+        if (scheduledAt.getTime() > lastTrigger.getTime()) {
+          lastTrigger = scheduledAt;
+        }
+        if (
+          scheduledAt.getTime() > now.getTime() &&
+          (!nextTrigger || scheduledAt.getTime() < nextTrigger.getTime())
+        ) {
+          nextTrigger = scheduledAt;
+        }
       }
       
-      console.log('[SchedulerService] Rescheduling repeating alarm for next occurrence:', alarm.id);
+      const { quota, releasedIds } = this.planBookings(alarm, scheduled, now);
+      await this.releaseBookings(releasedIds);
       
-      // Schedule for next occurrence
-      const notificationId = await this.scheduleAlarm(alarm);
+      // Give up the latest occurrences when sooner rings of other alarms need the room
+      if (bookedOccurrences.length > quota) {
+        const surplus = bookedOccurrences
+          .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+          .slice(quota);
+        const surplusTimes = surplus.map(occurrence => occurrence.scheduledAt.toISOString());
+        
+        // Re-rings and a heads-up go with the occurrence they belong to
+        const surplusIds = pendingIds.filter(id => {
+          const data = scheduledById.get(id)?.content.data as NotificationData | undefined;
+          return (
+            surplus.some(occurrence => occurrence.id === id) ||
+            (!!data?.alarmAt && surplusTimes.includes(data.alarmAt))
+          );
+        });
+        
+        console.log('[SchedulerService] Shrinking window of alarm:', {
+          alarmId: alarm.id,
+          pending: bookedOccurrences.length,
+          cancelling: surplusIds.length,
+        });
+        
+        await this.cancelAlarmNotifications(surplusIds);
+        return pendingIds.filter(id => !surplusIds.includes(id));
+      }
       
-      return notificationId;
+      // The occurrence about to ring takes over the re-rings and heads-up
+      const extraIds = nextTrigger
+        ? await this.scheduleMissingExtras(alarm, nextTrigger, pendingIds, scheduledById)
+        : [];
+      
+      const missing = quota - bookedOccurrences.length;
+      if (missing <= 0) {
+        return [...pendingIds, ...extraIds];
+      }
+      
+      console.log('[SchedulerService] Topping up alarm:', {
+        alarmId: alarm.id,
+        pending: bookedOccurrences.length,
+        booking: missing,
+        after: lastTrigger.toISOString(),
+      });
+      
+      const newIds: string[] = [];
+      const occurrences = getUpcomingOccurrences(
+        alarm,
+        missing,
+        lastTrigger,
+        this.exceptionLists,
+        this.quietHours
+      );
+      for (const [index, triggerDate] of occurrences.entries()) {
+        newIds.push(...(await this.scheduleOccurrence(alarm, triggerDate, index === 0 && !nextTrigger)));
+      }
+      
+      return [...pendingIds, ...extraIds, ...newIds];
     } catch (error) {
-      console.error('[SchedulerService] Failed to reschedule repeating alarm:', error);
-      throw new Error('Failed to reschedule repeating alarm');
+      console.error('[SchedulerService] Failed to top up alarm:', error);
+      throw new Error('Failed to top up alarm');
+    }
+  }
+
+  /**
+   * Book the re-rings and heads-up of an already booked occurrence unless they are pending
+   * @param alarm - Alarm object
+   * @param triggerDate - Date/time the occurrence rings
+   * @param pendingIds - The alarm's pending notification IDs
+   * @param scheduledById - Scheduled notifications by ID
+   * @returns Promise resolving to the notification IDs booked
+   */
+  private static async scheduleMissingExtras(
+    alarm: Alarm,
+    triggerDate: Date,
+    pendingIds: string[],
+    scheduledById: Map<string, Notifications.NotificationRequest>
+  ): Promise<string[]> {
+    const forOccurrence = pendingIds
+      .map(id => scheduledById.get(id)?.content.data as NotificationData | undefined)
+      .filter(data => !!data?.alarmAt && new Date(data.alarmAt).getTime() === triggerDate.getTime());
+    
+    const nagIds = forOccurrence.some(data => data?.isNag)
+      ? []
+      : await this.scheduleNags(alarm, triggerDate);
+    const preAlertId = forOccurrence.some(data => data?.isPreAlert)
+      ? null
+      : await this.schedulePreAlert(alarm, triggerDate);
+    
+    return preAlertId ? [...nagIds, preAlertId] : nagIds;
+  }
+
+  /**
+   * Work out how many occurrences an alarm may keep booked
+   * Every alarm shares the OS's cap on pending notifications, so the soonest rings win:
+   * each alarm's next ring first, then all further occurrences in time order. Bookings of
+   * other alarms that no longer make the cut are released to make room.
+   * @param alarm - Alarm about to be booked
+   * @param scheduled - Notifications currently pending with the OS
+   * @param from - Reference instant
+   * @returns Occurrences the alarm may keep booked, and other alarms' bookings to cancel
+   */
+  private static planBookings(
+    alarm: Alarm,
+    scheduled: Notifications.NotificationRequest[],
+    from: Date
+  ): { quota: number; releasedIds: string[] } {
+    type Candidate = { at: number; isNext: boolean; notificationId?: string };
+    
+    const candidates: Candidate[] = getUpcomingOccurrences(
+      alarm,
+      SCHEDULE_WINDOW_SIZE,
+      from,
+      this.exceptionLists,
+      this.quietHours
+    ).map((date, index) => ({ at: date.getTime(), isNext: index === 0 }));
+    
+    // Other alarms' booked occurrences; snoozes, heads-ups and the like just take up room
+    const othersByAlarm = new Map<string, Candidate[]>();
+    let otherNotifications = 0;
+    
+    for (const request of scheduled) {
+      const data = request.content.data as NotificationData | undefined;
+      if (!this.isOccurrenceData(data)) {
+        // This alarm's own re-rings and heads-up are set aside below, booked or not
+        if (!((data?.isPreAlert || data?.isNag) && data.alarmId === alarm.id)) {
+          otherNotifications++;
+        }
+      } else if (data.alarmId !== alarm.id) {
+        const booked = othersByAlarm.get(data.alarmId) ?? [];
+        booked.push({
+          at: new Date(data.scheduledAt).getTime(),
+          isNext: false,
+          notificationId: request.identifier,
+        });
+        othersByAlarm.set(data.alarmId, booked);
+      }
+    }
+    
+    for (const booked of othersByAlarm.values()) {
+      booked.sort((a, b) => a.at - b.at);
+      booked[0].isNext = true;
+      candidates.push(...booked);
+    }
+    
+    const ownExtras =
+      (alarm.preAlertMinutes && !alarm.timer ? 1 : 0) +
+      (alarm.nagIntervalMinutes && alarm.nagMaxCount ? alarm.nagMaxCount : 0);
+    const budget = Math.max(
+      0,
+      PENDING_NOTIFICATION_LIMIT - RESERVED_NOTIFICATION_SLOTS - otherNotifications - ownExtras
+    );
+    const ranked = candidates.sort((a, b) => Number(b.isNext) - Number(a.isNext) || a.at - b.at);
+    
+    return {
+      quota: ranked.slice(0, budget).filter(candidate => !candidate.notificationId).length,
+      releasedIds: ranked
+        .slice(budget)
+        .flatMap(candidate => (candidate.notificationId ? [candidate.notificationId] : [])),
+    };
+  }
+
+  /**
+   * Cancel other alarms' occurrences that lost their slot to sooner rings
+   * Their alarms drop the IDs at their next top-up, like any notification that went away
+   * @param notificationIds - Notification IDs to cancel
+   */
+  private static async releaseBookings(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) {
+      return;
+    }
+    
+    console.log('[SchedulerService] Releasing later rings of other alarms:', notificationIds.length);
+    await this.cancelAlarmNotifications(notificationIds);
+  }
+
+  /**
+   * Check whether notification data belongs to a scheduled occurrence of an alarm
+   * (as opposed to a snooze, re-ring, heads-up or chain follow-up), i.e. one of the rings
+   * that share the pending-notification limit. Chain follow-ups carry the ID of the alarm
+   * that started the chain but must never be released to make room.
+   */
+  private static isOccurrenceData(
+    data: NotificationData | undefined
+  ): data is NotificationData & { scheduledAt: string } {
+    return (
+      !!data?.alarmId &&
+      !!data.scheduledAt &&
+      !data.isSnoozed &&
+      !data.isNag &&
+      !data.isPreAlert &&
+      !data.chainId
+    );
+  }
+
+  /**
+   * Top up the rolling window of every alarm
+   * Useful for app startup, after a firing, or after device reboot
+   * @param alarms - Array of all alarms
+   * @returns Promise resolving to alarms with refreshed notification IDs
+   */
+  static async topUpAllAlarms(alarms: Alarm[]): Promise<Alarm[]> {
+    const results: Alarm[] = [];
+    
+    for (const alarm of alarms) {
+      try {
+        const notificationIds = await this.topUpAlarm(alarm);
+        results.push({ ...alarm, notificationIds });
+      } catch (error) {
+        console.error('[SchedulerService] Failed to top up alarm:', alarm.id, error);
+        // Keep the alarm unchanged and continue with the others
+        results.push(alarm);
+      }
+    }
+    
+    // Alarms topped up later may have released rings of earlier ones
+    try {
+      const scheduled = await NotificationService.getAllScheduledNotifications();
+      const pendingIds = new Set(scheduled.map(request => request.identifier));
+      return results.map(alarm => ({
+        ...alarm,
+        notificationIds: alarm.notificationIds.filter(id => pendingIds.has(id)),
+      }));
+    } catch (error) {
+      console.error('[SchedulerService] Failed to prune released rings:', error);
+      return results;
     }
   }
 
@@ -225,19 +934,19 @@ export class SchedulerService {
    * Reschedule all enabled alarms
    * Useful for app startup or after device reboot
    * @param alarms - Array of all alarms
-   * @returns Promise resolving to map of alarm ID to notification ID
+   * @returns Promise resolving to map of alarm ID to notification IDs
    */
-  static async rescheduleAllAlarms(alarms: Alarm[]): Promise<Map<string, string>> {
+  static async rescheduleAllAlarms(alarms: Alarm[]): Promise<Map<string, string[]>> {
     try {
       console.log('[SchedulerService] Rescheduling all enabled alarms:', alarms.length);
       
-      const results = new Map<string, string>();
+      const results = new Map<string, string[]>();
       const enabledAlarms = alarms.filter(alarm => alarm.isEnabled);
       
       for (const alarm of enabledAlarms) {
         try {
-          const notificationId = await this.scheduleAlarm(alarm);
-          results.set(alarm.id, notificationId);
+          const notificationIds = await this.scheduleAlarm(alarm);
+          results.set(alarm.id, notificationIds);
         } catch (error) {
           console.error('[SchedulerService] Failed to reschedule alarm:', alarm.id, error);
           // Continue with other alarms even if one fails
@@ -252,6 +961,72 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Expand enabled alarms into every ring inside a window, across all alarms
+   * Skips, pauses, active date ranges, exception dates and quiet hours are applied,
+   * so the result is what will actually ring (barring snoozes and re-rings).
+   * @param alarms - Array of all alarms
+   * @param days - Length of the window in days, starting now
+   * @returns Entries sorted chronologically (ties by label)
+   */
+  static getAgenda(alarms: Alarm[], days: number): AgendaEntry[] {
+    const from = this.clock.now();
+    const until = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+    const entries: AgendaEntry[] = [];
+    
+    for (const alarm of alarms.filter(a => a.isEnabled)) {
+      try {
+        const occurrences = getOccurrencesBetween(
+          alarm,
+          from,
+          until,
+          this.exceptionLists,
+          this.quietHours
+        );
+        entries.push(...occurrences.map(at => ({ alarm, at })));
+      } catch (error) {
+        console.error('[SchedulerService] Failed to expand alarm for agenda:', alarm.id, error);
+        // Leave the alarm out and continue with the others
+      }
+    }
+    
+    return entries.sort(
+      (a, b) => a.at.getTime() - b.at.getTime() || a.alarm.label.localeCompare(b.alarm.label)
+    );
+  }
+
+  /**
+   * Find alarms that would ring at, or close to, the same time as an alarm
+   * Compares occurrences over the next CONFLICT_HORIZON_DAYS days
+   * @param alarm - Alarm being saved (may not be stored yet)
+   * @param alarms - Array of all alarms
+   * @param windowMinutes - Largest gap that still counts as a conflict
+   * @returns Conflicts, closest first; empty for disabled alarms and timers
+   */
+  static findConflicts(alarm: Alarm, alarms: Alarm[], windowMinutes: number): AlarmConflict[] {
+    if (!alarm.isEnabled || isTimer(alarm)) {
+      return [];
+    }
+    
+    const from = this.clock.now();
+    const until = new Date(from.getTime() + CONFLICT_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    
+    try {
+      return findAlarmConflicts(
+        alarm,
+        alarms,
+        from,
+        until,
+        windowMinutes,
+        this.exceptionLists,
+        this.quietHours
+      );
+    } catch (error) {
+      console.error('[SchedulerService] Failed to check for conflicts:', error);
+      return [];
+    }
+  }
+
   /**
    * Validate alarm can be scheduled
    * Checks for valid time, enabled state, etc.
@@ -272,7 +1047,7 @@ export class SchedulerService {
         return false;
       }
       
-      // Try to calculate next trigger (will throw if time is invalid)
+      // Try to calculate next trigger (will throw if time is invalid or already passed)
       this.calculateNextTrigger(alarm);
       
       return true;
@@ -1,7 +1,8 @@
 /**
  * StorageService - Data Persistence Layer
  * 
- * Provides AsyncStorage wrapper with type-safe CRUD operations for alarms and settings.
+ * Provides AsyncStorage wrapper with type-safe CRUD operations for alarms, settings,
+ * exception-date lists, alarm chains and the ring history used to spot missed alarms.
  * All methods handle serialization/deserialization and include comprehensive error handling.
  * 
  * Reference: Docs/ARCHITECTURE.md - Service Layer
@@ -9,7 +10,14 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alarm, AppSettings } from '../types/alarm.types';
+import {
+  Alarm,
+  AlarmChain,
+  AppSettings,
+  ExceptionDateList,
+  MissedAlarm,
+  RingRecord,
+} from '../types/alarm.types';
 import { STORAGE_KEYS, DEFAULT_SETTINGS } from '../constants/alarm.constants';
 
 /**
@@ -46,7 +54,9 @@ export class StorageService {
         return [];
       }
       
-      const alarms: Alarm[] = JSON.parse(json);
+      const alarms: Alarm[] = JSON.parse(json).map(
+        (stored: Alarm) => this.migrateAlarm(stored)
+      );
       console.log('[StorageService] Retrieved alarms:', alarms.length);
       return alarms;
     } catch (error) {
@@ -55,6 +65,25 @@ export class StorageService {
     }
   }
 
+  /**
+   * Bring an alarm stored by an older app version up to the current shape
+   * Older versions stored a single `notificationId` instead of `notificationIds`,
+   * and a single `skippedDate` instead of `skippedDates`
+   * @param stored - Alarm as parsed from storage
+   * @returns Alarm in the current shape
+   */
+  private static migrateAlarm(
+    stored: Alarm & { notificationId?: string; skippedDate?: string }
+  ): Alarm {
+    const { notificationId, skippedDate, ...alarm } = stored;
+    
+    return {
+      ...alarm,
+      notificationIds: alarm.notificationIds ?? (notificationId ? [notificationId] : []),
+      skippedDates: alarm.skippedDates ?? (skippedDate ? [skippedDate] : undefined),
+    };
+  }
+
   /**
    * Retrieve a specific alarm by ID
    * @param id - Alarm UUID
@@ -144,6 +173,262 @@ export class StorageService {
     }
   }
 
+  /**
+   * Save complete array of exception-date lists to AsyncStorage
+   * @param lists - Array of ExceptionDateList objects
+   * @throws Error if serialization or storage fails
+   */
+  static async saveExceptionLists(lists: ExceptionDateList[]): Promise<void> {
+    try {
+      const json = JSON.stringify(lists);
+      await AsyncStorage.setItem(STORAGE_KEYS.EXCEPTION_LISTS, json);
+      console.log('[StorageService] Saved exception lists:', lists.length);
+    } catch (error) {
+      console.error('[StorageService] Failed to save exception lists:', error);
+      throw new Error('Failed to save exception lists to storage');
+    }
+  }
+
+  /**
+   * Retrieve all exception-date lists from AsyncStorage
+   * @returns Promise resolving to array of ExceptionDateList objects (empty array if none exist)
+   */
+  static async getExceptionLists(): Promise<ExceptionDateList[]> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEYS.EXCEPTION_LISTS);
+      
+      if (json === null) {
+        return [];
+      }
+      
+      const lists: ExceptionDateList[] = JSON.parse(json);
+      console.log('[StorageService] Retrieved exception lists:', lists.length);
+      return lists;
+    } catch (error) {
+      console.error('[StorageService] Failed to get exception lists:', error);
+      throw new Error('Failed to retrieve exception lists from storage');
+    }
+  }
+
+  /**
+   * Add a new exception-date list to storage
+   * @param list - Complete ExceptionDateList object
+   */
+  static async addExceptionList(list: ExceptionDateList): Promise<void> {
+    try {
+      const lists = await this.getExceptionLists();
+      lists.push(list);
+      await this.saveExceptionLists(lists);
+      console.log('[StorageService] Added exception list:', list.id);
+    } catch (error) {
+      console.error('[StorageService] Failed to add exception list:', error);
+      throw new Error('Failed to add exception list to storage');
+    }
+  }
+
+  /**
+   * Update an existing exception-date list
+   * @param updatedList - Complete ExceptionDateList object with updated fields
+   * @throws Error if list not found or update fails
+   */
+  static async updateExceptionList(updatedList: ExceptionDateList): Promise<void> {
+    try {
+      const lists = await this.getExceptionLists();
+      const index = lists.findIndex(l => l.id === updatedList.id);
+      
+      if (index === -1) {
+        throw new Error('Exception list not found');
+      }
+      
+      lists[index] = updatedList;
+      await this.saveExceptionLists(lists);
+      console.log('[StorageService] Updated exception list:', updatedList.id);
+    } catch (error) {
+      console.error('[StorageService] Failed to update exception list:', error);
+      throw new Error('Failed to update exception list in storage');
+    }
+  }
+
+  /**
+   * Delete an exception-date list by ID
+   * @param id - List ID
+   */
+  static async deleteExceptionList(id: string): Promise<void> {
+    try {
+      const lists = await this.getExceptionLists();
+      await this.saveExceptionLists(lists.filter(l => l.id !== id));
+      console.log('[StorageService] Deleted exception list:', id);
+    } catch (error) {
+      console.error('[StorageService] Failed to delete exception list:', error);
+      throw new Error('Failed to delete exception list from storage');
+    }
+  }
+
+  /**
+   * Save complete array of alarm chains to AsyncStorage
+   * @param chains - Array of AlarmChain objects
+   * @throws Error if serialization or storage fails
+   */
+  static async saveChains(chains: AlarmChain[]): Promise<void> {
+    try {
+      const json = JSON.stringify(chains);
+      await AsyncStorage.setItem(STORAGE_KEYS.CHAINS, json);
+      console.log('[StorageService] Saved chains:', chains.length);
+    } catch (error) {
+      console.error('[StorageService] Failed to save chains:', error);
+      throw new Error('Failed to save chains to storage');
+    }
+  }
+
+  /**
+   * Retrieve all alarm chains from AsyncStorage
+   * @returns Promise resolving to array of AlarmChain objects (empty array if none exist)
+   */
+  static async getChains(): Promise<AlarmChain[]> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEYS.CHAINS);
+      
+      if (json === null) {
+        return [];
+      }
+      
+      const chains: AlarmChain[] = JSON.parse(json);
+      console.log('[StorageService] Retrieved chains:', chains.length);
+      return chains;
+    } catch (error) {
+      console.error('[StorageService] Failed to get chains:', error);
+      throw new Error('Failed to retrieve chains from storage');
+    }
+  }
+
+  /**
+   * Add a new alarm chain to storage
+   * @param chain - Complete AlarmChain object
+   */
+  static async addChain(chain: AlarmChain): Promise<void> {
+    try {
+      const chains = await this.getChains();
+      chains.push(chain);
+      await this.saveChains(chains);
+      console.log('[StorageService] Added chain:', chain.id);
+    } catch (error) {
+      console.error('[StorageService] Failed to add chain:', error);
+      throw new Error('Failed to add chain to storage');
+    }
+  }
+
+  /**
+   * Update an existing alarm chain
+   * @param updatedChain - Complete AlarmChain object with updated fields
+   * @throws Error if chain not found or update fails
+   */
+  static async updateChain(updatedChain: AlarmChain): Promise<void> {
+    try {
+      const chains = await this.getChains();
+      const index = chains.findIndex(c => c.id === updatedChain.id);
+      
+      if (index === -1) {
+        throw new Error('Chain not found');
+      }
+      
+      chains[index] = updatedChain;
+      await this.saveChains(chains);
+      console.log('[StorageService] Updated chain:', updatedChain.id);
+    } catch (error) {
+      console.error('[StorageService] Failed to update chain:', error);
+      throw new Error('Failed to update chain in storage');
+    }
+  }
+
+  /**
+   * Delete an alarm chain by ID
+   * @param id - Chain ID
+   */
+  static async deleteChain(id: string): Promise<void> {
+    try {
+      const chains = await this.getChains();
+      await this.saveChains(chains.filter(c => c.id !== id));
+      console.log('[StorageService] Deleted chain:', id);
+    } catch (error) {
+      console.error('[StorageService] Failed to delete chain:', error);
+      throw new Error('Failed to delete chain from storage');
+    }
+  }
+
+  /**
+   * Save the ledger of booked rings to AsyncStorage
+   * @param records - Array of RingRecord objects
+   * @throws Error if serialization or storage fails
+   */
+  static async saveRingLog(records: RingRecord[]): Promise<void> {
+    try {
+      const json = JSON.stringify(records);
+      await AsyncStorage.setItem(STORAGE_KEYS.RING_LOG, json);
+      console.log('[StorageService] Saved ring log:', records.length);
+    } catch (error) {
+      console.error('[StorageService] Failed to save ring log:', error);
+      throw new Error('Failed to save ring log to storage');
+    }
+  }
+
+  /**
+   * Retrieve the ledger of booked rings from AsyncStorage
+   * @returns Promise resolving to array of RingRecord objects (empty array if none exist)
+   */
+  static async getRingLog(): Promise<RingRecord[]> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEYS.RING_LOG);
+      
+      if (json === null) {
+        return [];
+      }
+      
+      const records: RingRecord[] = JSON.parse(json);
+      console.log('[StorageService] Retrieved ring log:', records.length);
+      return records;
+    } catch (error) {
+      console.error('[StorageService] Failed to get ring log:', error);
+      throw new Error('Failed to retrieve ring log from storage');
+    }
+  }
+
+  /**
+   * Save the missed alarms awaiting the user's attention to AsyncStorage
+   * @param missedAlarms - Array of MissedAlarm objects
+   * @throws Error if serialization or storage fails
+   */
+  static async saveMissedAlarms(missedAlarms: MissedAlarm[]): Promise<void> {
+    try {
+      const json = JSON.stringify(missedAlarms);
+      await AsyncStorage.setItem(STORAGE_KEYS.MISSED_ALARMS, json);
+      console.log('[StorageService] Saved missed alarms:', missedAlarms.length);
+    } catch (error) {
+      console.error('[StorageService] Failed to save missed alarms:', error);
+      throw new Error('Failed to save missed alarms to storage');
+    }
+  }
+
+  /**
+   * Retrieve the missed alarms awaiting the user's attention from AsyncStorage
+   * @returns Promise resolving to array of MissedAlarm objects (empty array if none exist)
+   */
+  static async getMissedAlarms(): Promise<MissedAlarm[]> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEYS.MISSED_ALARMS);
+      
+      if (json === null) {
+        return [];
+      }
+      
+      const missedAlarms: MissedAlarm[] = JSON.parse(json);
+      console.log('[StorageService] Retrieved missed alarms:', missedAlarms.length);
+      return missedAlarms;
+    } catch (error) {
+      console.error('[StorageService] Failed to get missed alarms:', error);
+      throw new Error('Failed to retrieve missed alarms from storage');
+    }
+  }
+
   /**
    * Save app settings to AsyncStorage
    * @param settings - AppSettings object
@@ -214,12 +499,19 @@ export class StorageService {
   }
 
   /**
-   * Clear all data from storage (alarms and settings)
+   * Clear all data from storage (alarms, settings, exception lists, chains and ring history)
    * WARNING: This is destructive and cannot be undone
    */
   static async clearAllData(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove([STORAGE_KEYS.ALARMS, STORAGE_KEYS.SETTINGS]);
+      await AsyncStorage.multiRemove([
+        STORAGE_KEYS.ALARMS,
+        STORAGE_KEYS.SETTINGS,
+        STORAGE_KEYS.EXCEPTION_LISTS,
+        STORAGE_KEYS.CHAINS,
+        STORAGE_KEYS.RING_LOG,
+        STORAGE_KEYS.MISSED_ALARMS,
+      ]);
       console.log('[StorageService] Cleared all data');
     } catch (error) {
       console.error('[StorageService] Failed to clear all data:', error);
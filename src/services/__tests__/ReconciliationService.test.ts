@@ -0,0 +1,314 @@
+/**
+ * ReconciliationService tests
+ *
+ * Runs reconciliation against an in-memory stand-in for the OS notification
+ * scheduler: orphaned notifications, IDs the OS dropped, stale trigger dates,
+ * one-time alarms whose booked ring already went off, and catch-ups of missed rings.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Alarm, AlarmChain, NotificationConfig, NotificationData } from '../../types/alarm.types';
+import { MissedAlarmService } from '../MissedAlarmService';
+import { NotificationService } from '../NotificationService';
+import { ReconciliationService } from '../ReconciliationService';
+import { SchedulerService } from '../SchedulerService';
+import { createFixedClock, systemClock } from '../../utils/clock';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../NotificationService', () => ({
+  NotificationService: {
+    scheduleNotification: jest.fn(),
+    cancelNotification: jest.fn(),
+    getAllScheduledNotifications: jest.fn(),
+    getPresentedNotifications: jest.fn(),
+  },
+}));
+
+/**
+ * Notifications the fake OS has pending, by ID
+ */
+const pending = new Map<string, Notifications.NotificationRequest>();
+let nextId = 0;
+
+/**
+ * Put a notification in the fake OS as if it had been booked earlier
+ */
+const book = (data: NotificationData): string => {
+  const identifier = `notification-${nextId++}`;
+  pending.set(identifier, {
+    identifier,
+    content: { data },
+  } as unknown as Notifications.NotificationRequest);
+  return identifier;
+};
+
+/**
+ * Trigger times of an alarm's pending notifications, soonest first
+ */
+const bookedTimes = (alarmId: string): string[] =>
+  [...pending.values()]
+    .map(request => request.content.data as unknown as NotificationData)
+    .filter(data => data.alarmId === alarmId)
+    .map(data => data.scheduledAt ?? '')
+    .sort();
+
+/**
+ * Build an enabled one-time alarm, with overrides
+ */
+const makeAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  label: 'Test',
+  time: '07:00',
+  repeats: [],
+  isEnabled: true,
+  soundUri: 'chimes',
+  snoozeEnabled: true,
+  snoozeDuration: 10,
+  notificationIds: [],
+  createdAt: '2027-01-01T00:00:00.000Z',
+  updatedAt: '2027-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Mon 14 June 2027, 12:00 local
+const NOW = new Date(2027, 5, 14, 12, 0);
+
+/**
+ * Local instant on a day relative to NOW
+ */
+const at = (dayOffset: number, hours: number, minutes: number): Date =>
+  new Date(2027, 5, 14 + dayOffset, hours, minutes);
+
+beforeEach(async () => {
+  pending.clear();
+  nextId = 0;
+  await AsyncStorage.clear();
+  SchedulerService.setClock(createFixedClock(NOW));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  jest.mocked(NotificationService.getAllScheduledNotifications).mockImplementation(async () => [
+    ...pending.values(),
+  ]);
+  jest.mocked(NotificationService.cancelNotification).mockImplementation(async (id: string) => {
+    pending.delete(id);
+  });
+  jest
+    .mocked(NotificationService.scheduleNotification)
+    .mockImplementation(async (config: NotificationConfig) => book(config.data));
+  jest.mocked(NotificationService.getPresentedNotifications).mockResolvedValue([]);
+});
+
+afterEach(() => {
+  SchedulerService.setClock(systemClock);
+  jest.restoreAllMocks();
+});
+
+describe('ReconciliationService.reconcile', () => {
+  it('cancels notifications of unknown and disabled alarms and ones no alarm tracks', async () => {
+    const enabled = makeAlarm({ id: 'enabled' });
+    const disabled = makeAlarm({ id: 'disabled', isEnabled: false });
+    enabled.notificationIds = [book({ alarmId: 'enabled', scheduledAt: at(1, 7, 0).toISOString() })];
+    const untracked = book({ alarmId: 'enabled', scheduledAt: at(2, 7, 0).toISOString() });
+    const unknown = book({ alarmId: 'deleted', scheduledAt: at(1, 8, 0).toISOString() });
+    const ofDisabled = book({ alarmId: 'disabled', scheduledAt: at(1, 9, 0).toISOString() });
+
+    const { alarms, report } = await ReconciliationService.reconcile([enabled, disabled], NOW);
+
+    expect(report.orphansCancelled).toEqual([
+      { notificationId: untracked, alarmId: 'enabled', reason: 'untracked' },
+      { notificationId: unknown, alarmId: 'deleted', reason: 'unknown-alarm' },
+      { notificationId: ofDisabled, alarmId: 'disabled', reason: 'disabled-alarm' },
+    ]);
+    expect([...pending.keys()]).toEqual(enabled.notificationIds);
+    expect(alarms.map(alarm => alarm.notificationIds)).toEqual([enabled.notificationIds, []]);
+  });
+
+  it('prunes IDs the OS dropped and re-arms an alarm left with nothing booked', async () => {
+    const alarm = makeAlarm({ notificationIds: ['lost-1'] });
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.danglingIdsPruned).toEqual([{ alarmId: 'alarm-1', notificationId: 'lost-1' }]);
+    expect(report.alarmsRearmed).toEqual(['alarm-1']);
+    expect(bookedTimes('alarm-1')).toEqual([at(1, 7, 0).toISOString()]);
+    expect(alarms[0].notificationIds).toEqual([...pending.keys()]);
+    expect(alarms[0].lastScheduledAt).toBe(at(1, 7, 0).toISOString());
+  });
+
+  it('rebooks an alarm whose booked trigger no longer matches its time', async () => {
+    const alarm = makeAlarm({ time: '08:30' });
+    alarm.notificationIds = [book({ alarmId: 'alarm-1', scheduledAt: at(1, 7, 0).toISOString() })];
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.staleAlarmsRebooked).toEqual(['alarm-1']);
+    expect(bookedTimes('alarm-1')).toEqual([at(1, 8, 30).toISOString()]);
+    expect(alarms[0].notificationIds).toEqual([...pending.keys()]);
+  });
+
+  it('tops up the window of a repeating alarm with occurrences missing', async () => {
+    const alarm = makeAlarm({ repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] });
+    alarm.notificationIds = [book({ alarmId: 'alarm-1', scheduledAt: at(1, 7, 0).toISOString() })];
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.alarmsRearmed).toEqual([]);
+    expect(report.staleAlarmsRebooked).toEqual([]);
+    expect(bookedTimes('alarm-1')).toHaveLength(10);
+    expect(bookedTimes('alarm-1')[9]).toBe(at(10, 7, 0).toISOString());
+    expect(alarms[0].notificationIds).toHaveLength(10);
+  });
+
+  it('switches off a one-time alarm whose booked ring already went off', async () => {
+    const alarm = makeAlarm({ lastScheduledAt: at(0, 7, 0).toISOString(), notificationIds: ['rang'] });
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.alarmsEnded).toEqual(['alarm-1']);
+    expect(report.alarmsRearmed).toEqual([]);
+    expect(pending.size).toBe(0);
+    expect(alarms[0]).toMatchObject({ isEnabled: false, notificationIds: [] });
+  });
+
+  it('switches off a repeating alarm whose active range is over', async () => {
+    const alarm = makeAlarm({ repeats: ['Mon', 'Tue'], activeUntil: '2027-06-13', notificationIds: ['rang'] });
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.alarmsEnded).toEqual(['alarm-1']);
+    expect(pending.size).toBe(0);
+    expect(alarms[0]).toMatchObject({ isEnabled: false, notificationIds: [] });
+  });
+
+  it('drops skipped dates that have passed and keeps the upcoming ones', async () => {
+    const alarm = makeAlarm({
+      repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+      skippedDates: ['2027-06-10', '2027-06-16'],
+    });
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.suspensionsCleared).toEqual(['alarm-1']);
+    expect(alarms[0].skippedDates).toEqual(['2027-06-16']);
+    expect(bookedTimes('alarm-1')).not.toContain(at(2, 7, 0).toISOString());
+  });
+
+  it('books a heads-up for the next occurrence only', async () => {
+    const alarm = makeAlarm({ repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'], preAlertMinutes: 15 });
+
+    await ReconciliationService.reconcile([alarm], NOW);
+
+    const preAlerts = [...pending.values()]
+      .map(request => request.content.data as unknown as NotificationData)
+      .filter(data => data.isPreAlert);
+    expect(preAlerts).toEqual([
+      expect.objectContaining({
+        scheduledAt: at(1, 6, 45).toISOString(),
+        alarmAt: at(1, 7, 0).toISOString(),
+        occurrenceDate: '2027-06-15',
+      }),
+    ]);
+    expect(pending.size).toBe(11);
+  });
+
+  it('books re-rings for the next occurrence only and keeps within the pending limit', async () => {
+    const alarm = makeAlarm({
+      repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+      nagIntervalMinutes: 5,
+      nagMaxCount: 3,
+    });
+
+    await ReconciliationService.reconcile([alarm], NOW);
+
+    const nags = [...pending.values()]
+      .map(request => request.content.data as unknown as NotificationData)
+      .filter(data => data.isNag);
+    expect(nags.map(data => data.scheduledAt)).toEqual([
+      at(1, 7, 5).toISOString(),
+      at(1, 7, 10).toISOString(),
+      at(1, 7, 15).toISOString(),
+    ]);
+    expect(nags.every(data => data.alarmAt === at(1, 7, 0).toISOString())).toBe(true);
+    expect(pending.size).toBe(13);
+  });
+
+  it('never gives up a chain follow-up to make room for other rings', async () => {
+    const daily: Alarm['repeats'] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+    const busy = makeAlarm({ id: 'busy', time: '09:00', repeats: daily });
+    busy.notificationIds = Array.from({ length: 59 }, (_, day) =>
+      book({ alarmId: 'busy', scheduledAt: at(day + 1, 9, 0).toISOString() })
+    );
+    const followUp = book({
+      alarmId: 'busy',
+      chainId: 'chain-1',
+      chainStep: 0,
+      scheduledAt: at(60, 9, 30).toISOString(),
+    });
+    const chain: AlarmChain = {
+      id: 'chain-1',
+      name: 'Morning',
+      triggerAlarmId: 'busy',
+      steps: [{ label: 'Stretch', delayMinutes: 30 }],
+      pendingNotificationId: followUp,
+      createdAt: '2027-01-01T00:00:00.000Z',
+      updatedAt: '2027-01-01T00:00:00.000Z',
+    };
+
+    await ReconciliationService.reconcile([makeAlarm({ repeats: daily }), busy], NOW, [chain]);
+
+    expect(pending.has(followUp)).toBe(true);
+    expect(bookedTimes('alarm-1')[0]).toBe(at(1, 7, 0).toISOString());
+    expect(pending.size).toBeLessThanOrEqual(60);
+  });
+
+  it('re-arms a one-time alarm whose ring the OS dropped before it was due', async () => {
+    const alarm = makeAlarm({ lastScheduledAt: at(1, 7, 0).toISOString(), notificationIds: ['lost'] });
+
+    const { alarms, report } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(report.alarmsEnded).toEqual([]);
+    expect(report.alarmsRearmed).toEqual(['alarm-1']);
+    expect(alarms[0].isEnabled).toBe(true);
+    expect(bookedTimes('alarm-1')).toEqual([at(1, 7, 0).toISOString()]);
+  });
+
+  it('keeps a missed one-time alarm on while its catch-up is pending', async () => {
+    // Booked at 06:00; the 07:00 ring then goes off while the app isn't running
+    SchedulerService.setClock(createFixedClock(at(0, 6, 0)));
+    const alarm = makeAlarm({ lastScheduledAt: at(0, 7, 0).toISOString() });
+    alarm.notificationIds = await SchedulerService.scheduleAlarm(alarm);
+    pending.clear();
+    SchedulerService.setClock(createFixedClock(NOW));
+
+    const missed = await MissedAlarmService.detectMissed([alarm], NOW);
+    const { alarms: [switchedOff] } = await ReconciliationService.reconcile([alarm], NOW);
+
+    expect(missed).toEqual([
+      expect.objectContaining({ alarmId: 'alarm-1', expectedAt: at(0, 7, 0).toISOString() }),
+    ]);
+    expect(switchedOff.isEnabled).toBe(false);
+
+    // Rescheduling switches the alarm back on with only the catch-up booked
+    const catchUpId = await SchedulerService.scheduleCatchUp(switchedOff, at(0, 7, 0), 1);
+    const rescheduled = { ...switchedOff, isEnabled: true, notificationIds: [catchUpId] };
+
+    const { alarms: [kept], report } = await ReconciliationService.reconcile([rescheduled], NOW);
+
+    expect(report.orphansCancelled).toEqual([]);
+    expect(report.alarmsEnded).toEqual([]);
+    expect(report.alarmsRearmed).toEqual([]);
+    expect(kept).toMatchObject({ isEnabled: true, notificationIds: [catchUpId] });
+    expect([...pending.keys()]).toEqual([catchUpId]);
+
+    // Once the catch-up has rung the alarm is switched off again
+    pending.clear();
+    const { alarms: [ended] } = await ReconciliationService.reconcile([kept], at(0, 12, 5));
+
+    expect(ended).toMatchObject({ isEnabled: false, notificationIds: [] });
+    expect(await MissedAlarmService.detectMissed([ended], at(0, 12, 30))).toEqual(missed);
+  });
+});
@@ -7,4 +7,5 @@
 export { StorageService } from './StorageService';
 export { NotificationService } from './NotificationService';
 export { SchedulerService } from './SchedulerService';
-
+export { ReconciliationService } from './ReconciliationService';
+export { MissedAlarmService } from './MissedAlarmService';
@@ -9,6 +9,127 @@
  */
 export type WeekDay = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
 
+/**
+ * Ordinal position of a weekday within a month (-1 = last)
+ */
+export type WeekdayOrdinal = 1 | 2 | 3 | 4 | -1;
+
+/**
+ * What an alarm does when its time doesn't exist on a day because the clocks
+ * spring forward past it (e.g. 02:30 on a day that jumps from 02:00 to 03:00)
+ * - shift-forward: ring as much later as the clocks jumped (02:30 becomes 03:30)
+ * - end-of-gap: ring the moment the clocks jump (03:00)
+ * - skip: don't ring that day
+ */
+export type DstGapPolicy = 'shift-forward' | 'end-of-gap' | 'skip';
+
+/**
+ * Which pass an alarm uses when its time happens twice on a day because the
+ * clocks fall back (e.g. 01:30 on a day that repeats 01:00-02:00). Either way
+ * the alarm rings once.
+ * - earlier: the first pass, before the clocks go back
+ * - later: the second pass, after the clocks go back
+ */
+export type DstOverlapPolicy = 'earlier' | 'later';
+
+/**
+ * Kind of day in a shift rotation, e.g. "Day" at 05:30, "Night" at 17:30 or "Off"
+ */
+export interface ShiftDayType {
+  /** Short name shown in the cycle and its preview */
+  name: string;
+  
+  /** Alarm time in HH:mm format; omitted means no ring on days of this type */
+  time?: string;
+}
+
+/**
+ * Recurrence rule for patterns a weekday set can't express
+ * - monthly-day: the given day of every month (months without that day are skipped)
+ * - monthly-last-day: the last day of every month
+ * - monthly-weekday: e.g. the second Tuesday or the last Friday of every month
+ * - yearly: the given month and day every year (Feb 29 only rings in leap years)
+ * - interval-days: every N days counted from the anchor date (YYYY-MM-DD)
+ * - interval-weeks: the given weekdays of every Nth week counted from the anchor date's week
+ * - rotation: a shift cycle repeating from the anchor date (the cycle's first day); each
+ *   entry of `cycle` indexes `dayTypes`, and each day type has its own time (or none)
+ * - business-days: every day of the workweek that isn't a holiday
+ * - business-day-of-month: e.g. the first or last business day of every month
+ *
+ * Holidays are the dates of the exception-date lists the alarm opts into.
+ */
+export type RecurrenceRule =
+  | { type: 'monthly-day'; dayOfMonth: number }
+  | { type: 'monthly-last-day' }
+  | { type: 'monthly-weekday'; ordinal: WeekdayOrdinal; weekday: WeekDay }
+  | { type: 'yearly'; month: number; dayOfMonth: number }
+  | { type: 'interval-days'; interval: number; anchorDate: string }
+  | { type: 'interval-weeks'; interval: number; anchorDate: string; weekdays: WeekDay[] }
+  | { type: 'rotation'; anchorDate: string; dayTypes: ShiftDayType[]; cycle: number[] }
+  | { type: 'business-days'; workweek: WeekDay[] }
+  | { type: 'business-day-of-month'; ordinal: WeekdayOrdinal; workweek: WeekDay[] };
+
+/**
+ * Countdown state of a timer ("ring in 25 minutes")
+ * A running timer has `endsAt`; a paused one has `remainingSeconds` instead.
+ */
+export interface TimerState {
+  /** Length the timer was set to, in seconds (grows when a minute is added) */
+  durationSeconds: number;
+  
+  /** ISO instant the running timer rings */
+  endsAt?: string;
+  
+  /** Seconds left on a paused timer */
+  remainingSeconds?: number;
+}
+
+/**
+ * Solar event a sun-relative alarm is anchored to
+ */
+export type SolarEvent = 'sunrise' | 'sunset';
+
+/**
+ * Anchor of a sun-relative alarm ("30 minutes before sunrise")
+ * Coordinates are entered by hand; the event is computed offline for each day.
+ */
+export interface SolarAnchor {
+  event: SolarEvent;
+  
+  /** Degrees north (negative for south) */
+  latitude: number;
+  
+  /** Degrees east (negative for west) */
+  longitude: number;
+  
+  /** Minutes relative to the event; negative rings before it */
+  offsetMinutes: number;
+}
+
+/**
+ * What happens to a non-critical ring that falls inside quiet hours
+ * - defer: it rings when the quiet hours end
+ * - suppress: it doesn't ring at all
+ */
+export type QuietHoursMode = 'defer' | 'suppress';
+
+/**
+ * Nightly window in which non-critical alarms and heads-ups stay silent
+ * Times are device-local; a window whose end is not after its start runs past midnight.
+ */
+export interface QuietHours {
+  /** Start time in HH:mm format */
+  start: string;
+  
+  /** End time in HH:mm format */
+  end: string;
+  
+  /** Weekdays on which the window starts */
+  days: WeekDay[];
+  
+  mode: QuietHoursMode;
+}
+
 /**
  * Alarm interface - represents a single alarm entity
  */
@@ -25,9 +146,60 @@ export interface Alarm {
   /** Alarm time in HH:mm format (24-hour) */
   time: string;
   
+  /** IANA time zone `time` (and `date`) are pinned to, e.g. "America/New_York"; omitted means the device's zone */
+  timeZone?: string;
+  
+  /** What to do when `time` is skipped by a daylight-saving change (defaults to DEFAULT_DST_GAP_POLICY) */
+  dstGapPolicy?: DstGapPolicy;
+  
+  /** Which pass to ring on when `time` repeats at a daylight-saving change (defaults to DEFAULT_DST_OVERLAP_POLICY) */
+  dstOverlapPolicy?: DstOverlapPolicy;
+  
   /** Array of days when alarm repeats (empty for one-time alarms) */
   repeats: WeekDay[];
   
+  /** Monthly, yearly, interval, shift-rotation or business-day recurrence; takes precedence over `repeats` when set */
+  recurrence?: RecurrenceRule;
+  
+  /** Calendar date (YYYY-MM-DD) a one-time alarm rings on; omitted means "next time HH:mm comes around" */
+  date?: string;
+  
+  /** First calendar date (YYYY-MM-DD) a repeating alarm may ring on; omitted means no start limit */
+  activeFrom?: string;
+  
+  /** Last calendar date (YYYY-MM-DD) a repeating alarm may ring on; the alarm turns itself off afterwards */
+  activeUntil?: string;
+  
+  /** Calendar dates (YYYY-MM-DD) whose occurrences of a repeating alarm are skipped */
+  skippedDates?: string[];
+  
+  /** Calendar date (YYYY-MM-DD) a paused repeating alarm rings again from; earlier occurrences are suppressed */
+  pausedUntil?: string;
+  
+  /** IDs of exception-date lists (e.g. holidays) whose dates this repeating alarm skips */
+  exceptionListIds?: string[];
+  
+  /** Set for countdown timers, which ring once at the end of the countdown; `time` mirrors the end time */
+  timer?: TimerState;
+  
+  /** Set for alarms relative to sunrise/sunset; each day's ring is computed from the sun, not `time` */
+  solar?: SolarAnchor;
+  
+  /** Whether the alarm rings through quiet hours */
+  isCritical?: boolean;
+  
+  /** Minutes before each ring to send a quieter heads-up notification; omitted means no heads-up */
+  preAlertMinutes?: number;
+  
+  /** Whether dismissing or completing the heads-up also cancels the ring it announces */
+  preAlertCancelsAlarm?: boolean;
+  
+  /** Minutes between re-rings while a ring goes unanswered (nag mode); omitted means ring once */
+  nagIntervalMinutes?: number;
+  
+  /** Maximum number of re-rings after the original ring in nag mode */
+  nagMaxCount?: number;
+  
   /** Whether the alarm is currently active */
   isEnabled: boolean;
   
@@ -40,8 +212,129 @@ export interface Alarm {
   /** Snooze duration in minutes */
   snoozeDuration: number;
   
-  /** Expo notification ID (used for cancellation) */
-  notificationId?: string;
+  /** Maximum number of snoozes per ring; omitted means unlimited */
+  snoozeMaxCount?: number;
+  
+  /** Snooze lengths in minutes offered as separate notification buttons; omitted uses the global setting */
+  snoozeOptions?: number[];
+  
+  /** Progressive snooze durations in minutes (1st, 2nd, ... snooze; the last one repeats); overrides snoozeDuration */
+  snoozeSchedule?: number[];
+  
+  /**
+   * Expo notification IDs for every booked occurrence (used for cancellation).
+   * Repeating alarms keep a rolling window of future occurrences booked.
+   */
+  notificationIds: string[];
+  
+  /**
+   * ISO datetime of the ring last booked for a one-time alarm.
+   * Once it has passed with nothing left pending, the alarm has rung and is not booked again.
+   */
+  lastScheduledAt?: string;
+  
+  /** ISO timestamp of creation */
+  createdAt: string;
+  
+  /** ISO timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Follow-up reminder in an alarm chain
+ */
+export interface ChainStep {
+  /** Notification title */
+  label: string;
+  
+  /** Minutes after the previous ring (the trigger alarm or the previous step) is dismissed */
+  delayMinutes: number;
+}
+
+/**
+ * Sequence of follow-ups started by dismissing an alarm
+ * e.g. "Wake up", then 20 minutes later "Leave for the bus", then 45 minutes later "Standup"
+ */
+export interface AlarmChain {
+  /** Unique identifier */
+  id: string;
+  
+  /** User-friendly chain name */
+  name: string;
+  
+  /** Alarm whose dismissal starts the chain */
+  triggerAlarmId: string;
+  
+  /** Follow-ups in order; each is booked when the one before it is dismissed */
+  steps: ChainStep[];
+  
+  /** Notification of the step booked right now, while the chain is running */
+  pendingNotificationId?: string;
+  
+  /** ISO timestamp of creation */
+  createdAt: string;
+  
+  /** ISO timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Ring the app booked with the OS, and what it later saw of that ring
+ * Kept until the ring is settled, so a ring that never arrived can be reported
+ */
+export interface RingRecord {
+  /** Notification booked for the ring */
+  notificationId: string;
+  
+  /** Alarm the ring belongs to */
+  alarmId: string;
+  
+  /** Alarm label at booking time */
+  label: string;
+  
+  /** ISO datetime the ring was booked for */
+  expectedAt: string;
+  
+  /** ISO timestamp the app saw the ring delivered (or found it in the notification tray) */
+  deliveredAt?: string;
+  
+  /** ISO timestamp the user snoozed, dismissed or tapped the ring */
+  respondedAt?: string;
+}
+
+/**
+ * Alarm occurrence that passed without being delivered or answered
+ * (device off, app force-stopped, notification dropped by the OS)
+ */
+export interface MissedAlarm {
+  /** Unique identifier (the notification that should have rung) */
+  id: string;
+  
+  /** Alarm that missed its ring */
+  alarmId: string;
+  
+  /** Alarm label at booking time */
+  label: string;
+  
+  /** ISO datetime the alarm should have rung */
+  expectedAt: string;
+  
+  /** ISO timestamp the miss was noticed */
+  detectedAt: string;
+}
+
+/**
+ * Named list of calendar dates that opted-in alarms don't ring on (e.g. "Company holidays 2027")
+ */
+export interface ExceptionDateList {
+  /** Unique identifier */
+  id: string;
+  
+  /** User-friendly list name */
+  name: string;
+  
+  /** Calendar dates (YYYY-MM-DD), sorted and without duplicates */
+  dates: string[];
   
   /** ISO timestamp of creation */
   createdAt: string;
@@ -65,12 +358,24 @@ export interface AppSettings {
   
   /** Whether user has been warned about battery optimization */
   batteryOptimizationWarned: boolean;
+  
+  /** Snooze lengths in minutes offered as notification buttons for alarms without their own */
+  snoozeOptions?: number[];
+  
+  /** Warn on save when another alarm rings within this many minutes (0 = same minute only) */
+  conflictWindowMinutes?: number;
+  
+  /** Quiet hours for non-critical alarms; omitted means off */
+  quietHours?: QuietHours;
+  
+  /** Working days, used for new business-day alarms and the Workdays shortcut (defaults to DEFAULT_WORKWEEK) */
+  workweek?: WeekDay[];
 }
 
 /**
  * Partial alarm type for creating new alarms (omits system-generated fields)
  */
-export type AlarmInput = Omit<Alarm, 'id' | 'createdAt' | 'updatedAt' | 'notificationId'>;
+export type AlarmInput = Omit<Alarm, 'id' | 'createdAt' | 'updatedAt' | 'notificationIds'>;
 
 /**
  * Partial alarm type for updating existing alarms
@@ -84,6 +389,9 @@ export type RootStackParamList = {
   AlarmList: undefined;
   AlarmEdit: { alarmId?: string; mode?: 'create' | 'edit' };
   Settings: undefined;
+  ExceptionLists: undefined;
+  Upcoming: undefined;
+  Chains: undefined;
 };
 
 /**
@@ -96,11 +404,35 @@ export interface NotificationData extends Record<string, unknown> {
   /** Whether this is a snoozed alarm */
   isSnoozed?: boolean;
   
+  /** Snoozes taken so far for this ring (0 for the original ring, 1 for the first snooze, ...) */
+  snoozeCount?: number;
+  
   /** Original alarm label */
   label?: string;
   
   /** ISO datetime when this notification is intended to trigger */
   scheduledAt?: string;
+  
+  /** Whether this is a heads-up sent ahead of the alarm */
+  isPreAlert?: boolean;
+  
+  /** Whether this is a nag-mode re-ring of an unanswered alarm */
+  isNag?: boolean;
+  
+  /** Position of a re-ring after the original ring (1 = first re-ring) */
+  nagIndex?: number;
+  
+  /** ISO datetime of the ring a heads-up announces or a re-ring repeats */
+  alarmAt?: string;
+  
+  /** Calendar date (YYYY-MM-DD) of the occurrence a heads-up announces, in the alarm's calendar */
+  occurrenceDate?: string;
+  
+  /** Chain a follow-up belongs to (alarmId is then the alarm that started the chain) */
+  chainId?: string;
+  
+  /** Position of a follow-up in its chain's steps (0 = first follow-up) */
+  chainStep?: number;
 }
 
 /**
@@ -135,6 +467,117 @@ export interface NotificationConfig {
   
   /** Date/time when notification should trigger */
   triggerDate: Date;
+  
+  /** Whether to offer the Snooze action (defaults to true) */
+  allowSnooze?: boolean;
+  
+  /** Snooze lengths in minutes to offer as separate buttons instead of the default Snooze action */
+  snoozeOptions?: number[];
+}
+
+/**
+ * Clock abstraction - source of "now" for scheduling and display
+ * Lets the recurrence engine run "as of" any instant
+ */
+export interface Clock {
+  /** Current instant according to this clock */
+  now(): Date;
+}
+
+/**
+ * A single upcoming ring of an alarm, as listed in the agenda
+ */
+export interface AgendaEntry {
+  /** Alarm that rings */
+  alarm: Alarm;
+  
+  /** Instant it rings */
+  at: Date;
+}
+
+/**
+ * Another alarm ringing at, or close to, one of an alarm's occurrences
+ */
+export interface AlarmConflict {
+  /** The other alarm */
+  alarm: Alarm;
+  
+  /** Occurrence of the alarm being checked */
+  at: Date;
+  
+  /** Closest occurrence of the other alarm */
+  otherAt: Date;
+  
+  /** Minutes from `at` to `otherAt` (negative when the other alarm rings first) */
+  minutesApart: number;
+}
+
+/**
+ * Why a scheduled notification was cancelled during reconciliation
+ */
+export type OrphanReason = 'unknown-alarm' | 'disabled-alarm' | 'untracked';
+
+/**
+ * Result of reconciling stored alarms against OS-scheduled notifications
+ */
+export interface ReconciliationReport {
+  /** ISO timestamp when reconciliation ran */
+  ranAt: string;
+  
+  /** Number of alarms checked */
+  alarmsChecked: number;
+  
+  /** Number of notifications the OS reported as scheduled */
+  notificationsFound: number;
+  
+  /** Scheduled notifications that were cancelled because no enabled alarm owns them */
+  orphansCancelled: { notificationId: string; alarmId?: string; reason: OrphanReason }[];
+  
+  /** Stored notification IDs the OS no longer knows about (pruned from the alarm) */
+  danglingIdsPruned: { alarmId: string; notificationId: string }[];
+  
+  /** Enabled alarms with nothing booked that were scheduled again */
+  alarmsRearmed: string[];
+  
+  /** Alarms whose booked trigger dates no longer matched their settings (rebooked) */
+  staleAlarmsRebooked: string[];
+  
+  /** Alarms whose skip or pause had run its course and was cleared */
+  suspensionsCleared: string[];
+  
+  /** Alarms switched off because they have no ring left (repeating range over, one-time alarm already rang) */
+  alarmsEnded: string[];
+  
+  /** Alarms that could not be repaired */
+  failures: { alarmId: string; error: string }[];
+}
+
+/**
+ * Problem found while importing one VEVENT from an iCalendar file
+ */
+export interface IcsImportWarning {
+  /** Zero-based position of the VEVENT in the file */
+  eventIndex: number;
+  
+  /** Event UID, if present */
+  uid?: string;
+  
+  /** Event SUMMARY, if present */
+  summary?: string;
+  
+  /** Human-readable description of what was ignored or approximated */
+  message: string;
+}
+
+/**
+ * Result of importing alarms from iCalendar text
+ */
+export interface IcsImportResult {
+  /** Alarms ready to be added */
+  alarms: AlarmInput[];
+  
+  /** Per-event warnings (events that were skipped also produce a warning) */
+  warnings: IcsImportWarning[];
 }
 
 /**
@@ -143,6 +586,10 @@ export interface NotificationConfig {
 export enum StorageKey {
   ALARMS = '@alarms',
   SETTINGS = '@settings',
+  EXCEPTION_LISTS = '@exception_lists',
+  CHAINS = '@chains',
+  RING_LOG = '@ring_log',
+  MISSED_ALARMS = '@missed_alarms',
 }
 
 /**
@@ -151,6 +598,8 @@ export enum StorageKey {
 export enum NotificationAction {
   SNOOZE = 'snooze',
   DISMISS = 'dismiss',
+  PRE_ALERT_DONE = 'pre-alert-done',
+  PRE_ALERT_DISMISS = 'pre-alert-dismiss',
 }
 
 /**
@@ -0,0 +1,72 @@
+/**
+ * exceptionDates tests
+ *
+ * Parsing exception-date lists from dated text and from iCalendar files.
+ */
+
+import { normalizeExceptionDates, parseExceptionDates } from '../exceptionDates';
+
+describe('parseExceptionDates', () => {
+  it('reads one date per line, ignoring names, comments and blank lines', () => {
+    const text = [
+      '# Public holidays',
+      '2027-12-25 Christmas Day',
+      '',
+      '2027-01-01\tNew Year\'s Day',
+      '  2027-05-01  ',
+    ].join('\n');
+
+    expect(parseExceptionDates(text)).toEqual({
+      dates: ['2027-01-01', '2027-05-01', '2027-12-25'],
+      skipped: 0,
+    });
+  });
+
+  it('counts lines without a valid date as skipped', () => {
+    const text = 'Christmas\r\n2027-02-30 Not a day\r\n2027-03-01\r\n2027-03-01 Again';
+
+    expect(parseExceptionDates(text)).toEqual({ dates: ['2027-03-01'], skipped: 2 });
+  });
+
+  it('reads the dates of iCalendar events', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:Christmas Day',
+      'DTSTART;VALUE=DATE:20271225',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Meeting',
+      'DTSTART:20270614T090000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:No start',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseExceptionDates(text)).toEqual({ dates: ['2027-06-14', '2027-12-25'], skipped: 1 });
+  });
+
+  it('expands multi-day all-day events with an exclusive DTEND', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20271230',
+      'DTEND;VALUE=DATE:20280102',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseExceptionDates(text).dates).toEqual(['2027-12-30', '2027-12-31', '2028-01-01']);
+  });
+});
+
+describe('normalizeExceptionDates', () => {
+  it('sorts dates and drops duplicates', () => {
+    expect(normalizeExceptionDates(['2027-05-01', '2027-01-01', '2027-05-01'])).toEqual([
+      '2027-01-01',
+      '2027-05-01',
+    ]);
+  });
+});
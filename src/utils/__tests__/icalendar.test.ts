@@ -0,0 +1,415 @@
+/**
+ * iCalendar tests
+ *
+ * Round trips every kind of recurrence through export and import, and checks
+ * text escaping, line folding and the warnings for parts an alarm can't hold.
+ */
+
+import { Alarm, RecurrenceRule } from '../../types/alarm.types';
+import { canExportToICS, parseAlarmsFromICS, serializeAlarmsToICS } from '../icalendar';
+import { findNextAlarmTime, getUpcomingOccurrences } from '../timeCalculations';
+
+/**
+ * Build an enabled alarm with no repeats, with overrides
+ */
+const makeAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  label: 'Test',
+  time: '07:00',
+  repeats: [],
+  isEnabled: true,
+  soundUri: 'bell',
+  snoozeEnabled: true,
+  snoozeDuration: 5,
+  notificationIds: [],
+  createdAt: '2027-01-01T00:00:00.000Z',
+  updatedAt: '2027-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Mon 14 June 2027, 12:00 local
+const NOW = new Date(2027, 5, 14, 12, 0);
+
+/**
+ * Wrap VEVENT lines in a calendar
+ */
+const calendar = (...eventLines: string[]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', ...eventLines, 'END:VEVENT', 'END:VCALENDAR'].join(
+    '\r\n'
+  );
+
+/**
+ * Warning messages of an import, in order
+ */
+const messagesOf = (text: string): string[] =>
+  parseAlarmsFromICS(text, NOW).warnings.map(warning => warning.message);
+
+describe('iCalendar round trip', () => {
+  const rules: [string, RecurrenceRule][] = [
+    ['monthly-day', { type: 'monthly-day', dayOfMonth: 31 }],
+    ['monthly-last-day', { type: 'monthly-last-day' }],
+    ['monthly-weekday', { type: 'monthly-weekday', ordinal: 2, weekday: 'Tue' }],
+    ['last weekday of the month', { type: 'monthly-weekday', ordinal: -1, weekday: 'Fri' }],
+    ['yearly', { type: 'yearly', month: 2, dayOfMonth: 29 }],
+    ['interval-days', { type: 'interval-days', interval: 3, anchorDate: '2027-06-10' }],
+    ['interval-weeks', { type: 'interval-weeks', interval: 2, anchorDate: '2027-06-07', weekdays: ['Mon', 'Thu'] }],
+    [
+      'business-day-of-month',
+      { type: 'business-day-of-month', ordinal: -1, workweek: ['Mon', 'Tue', 'Wed', 'Thu', 'Sun'] },
+    ],
+  ];
+
+  it.each(rules)('keeps a %s rule', (_, recurrence) => {
+    const alarm = makeAlarm({ time: '06:45', recurrence });
+
+    const { alarms, warnings } = parseAlarmsFromICS(serializeAlarmsToICS([alarm], NOW), NOW);
+
+    expect(warnings).toEqual([]);
+    expect(alarms).toEqual([
+      expect.objectContaining({ time: '06:45', repeats: [], recurrence }),
+    ]);
+  });
+
+  it('exports business days as a weekly rule on the workweek', () => {
+    const alarm = makeAlarm({ recurrence: { type: 'business-days', workweek: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu'] } });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(text).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,SU');
+    expect(alarms[0]).toMatchObject({ repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Sun'] });
+  });
+
+  it('keeps weekly repeats in week order', () => {
+    const alarm = makeAlarm({ repeats: ['Fri', 'Mon', 'Wed'] });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(text).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR');
+    expect(alarms[0]).toMatchObject({ repeats: ['Mon', 'Wed', 'Fri'] });
+    expect(alarms[0].recurrence).toBeUndefined();
+  });
+
+  it('keeps the cadence of an interval rule whose anchor is not one of its weekdays', () => {
+    const alarm = makeAlarm({
+      recurrence: { type: 'interval-weeks', interval: 2, anchorDate: '2027-06-02', weekdays: ['Mon', 'Thu'] },
+    });
+
+    const { alarms } = parseAlarmsFromICS(serializeAlarmsToICS([alarm], NOW), NOW);
+    const imported = { ...alarm, ...alarms[0] };
+
+    let original = findNextAlarmTime(alarm, NOW);
+    let copy = findNextAlarmTime(imported, NOW);
+    for (let i = 0; i < 6; i++) {
+      expect(copy).toEqual(original);
+      original = findNextAlarmTime(alarm, original!);
+      copy = findNextAlarmTime(imported, copy!);
+    }
+  });
+
+  it('splits a shift rotation into one event per ringing day that rings at the same instants', () => {
+    const alarm = makeAlarm({
+      recurrence: {
+        type: 'rotation',
+        anchorDate: '2027-06-14',
+        dayTypes: [{ name: 'Day', time: '05:30' }, { name: 'Night', time: '17:30' }, { name: 'Off' }],
+        cycle: [0, 0, 1, 1, 2, 2, 2, 2],
+      },
+    });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(warnings).toEqual([]);
+    expect(text.match(/RRULE:FREQ=DAILY;INTERVAL=8/g)).toHaveLength(4);
+    const imported = alarms.map(input => ({ ...alarm, ...input }));
+    const copies = imported.flatMap(copy => getUpcomingOccurrences(copy, 3, NOW));
+    expect(copies.sort((a, b) => a.getTime() - b.getTime()).slice(0, 8)).toEqual(
+      getUpcomingOccurrences(alarm, 8, NOW)
+    );
+  });
+
+  it('keeps a dated one-time alarm and pins an undated one to its next ring', () => {
+    const dated = makeAlarm({ id: 'dated', date: '2027-08-01' });
+    const undated = makeAlarm({ id: 'undated' });
+
+    const { alarms, warnings } = parseAlarmsFromICS(serializeAlarmsToICS([dated, undated], NOW), NOW);
+
+    expect(warnings).toEqual([]);
+    expect(alarms.map(alarm => alarm.date)).toEqual(['2027-08-01', '2027-06-15']);
+    expect(alarms.every(alarm => alarm.repeats.length === 0 && !alarm.recurrence)).toBe(true);
+  });
+
+  it('keeps the time zone an alarm is pinned to', () => {
+    const alarm = makeAlarm({ repeats: ['Mon'], time: '06:30', timeZone: 'America/New_York' });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(text).toMatch(/\r\nDTSTART;TZID=America\/New_York:2027\d{4}T063000\r\n/);
+    expect(alarms[0]).toMatchObject({ time: '06:30', timeZone: 'America/New_York', repeats: ['Mon'] });
+  });
+
+  it('keeps the active date range', () => {
+    const alarm = makeAlarm({ repeats: ['Mon', 'Fri'], activeFrom: '2027-09-01', activeUntil: '2027-12-17' });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(text).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,FR;UNTIL=20271217T235900');
+    expect(warnings).toEqual([]);
+    expect(alarms[0]).toMatchObject({ activeFrom: '2027-09-03', activeUntil: '2027-12-17' });
+  });
+
+  it('keeps sound, snooze and enabled state', () => {
+    const alarm = makeAlarm({ repeats: ['Sat'], isEnabled: false, soundUri: 'radar', snoozeEnabled: false });
+
+    const { alarms } = parseAlarmsFromICS(serializeAlarmsToICS([alarm], NOW), NOW);
+
+    expect(alarms[0]).toMatchObject({ isEnabled: false, soundUri: 'radar', snoozeEnabled: false });
+  });
+});
+
+describe('iCalendar export', () => {
+  it('leaves countdown timers out', () => {
+    const alarm = makeAlarm({ id: 'alarm', repeats: ['Mon'] });
+    const timer = makeAlarm({
+      id: 'timer',
+      time: '12:25',
+      timer: { durationSeconds: 1500, endsAt: new Date(2027, 5, 14, 12, 25).toISOString() },
+    });
+
+    const text = serializeAlarmsToICS([alarm, timer], NOW);
+
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(text).toContain('UID:alarm@task-alarm');
+    expect(text).not.toContain('UID:timer@task-alarm');
+  });
+
+  it('leaves sun-relative alarms out', () => {
+    const alarm = makeAlarm({ id: 'alarm', repeats: ['Mon'] });
+    const dawn = makeAlarm({
+      id: 'dawn',
+      repeats: ['Mon'],
+      solar: { event: 'sunrise', latitude: 51.5, longitude: -0.13, offsetMinutes: -30 },
+    });
+
+    expect(canExportToICS(dawn)).toBe(false);
+    const text = serializeAlarmsToICS([alarm, dawn], NOW);
+
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(text).not.toContain('UID:dawn@task-alarm');
+  });
+});
+
+describe('iCalendar text encoding', () => {
+  it('escapes and restores backslashes, semicolons, commas and newlines', () => {
+    const label = 'Gym; legs, then \\ stretch';
+    const description = 'Bring:\nshoes, water';
+    const alarm = makeAlarm({ label, description, repeats: ['Mon'] });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(text).toContain('SUMMARY:Gym\\; legs\\, then \\\\ stretch\r\n');
+    expect(text).toContain('DESCRIPTION:Bring:\\nshoes\\, water\r\n');
+    expect(alarms[0]).toMatchObject({ label, description });
+  });
+
+  it('folds lines at 75 octets and unfolds them on import', () => {
+    const description = `${'Wake up and stretch. '.repeat(8)}Then coffee ☕ and a walk 🚶‍♀️ outside.`;
+    const alarm = makeAlarm({ description, repeats: ['Tue'] });
+
+    const text = serializeAlarmsToICS([alarm], NOW);
+    const lines = text.split('\r\n');
+
+    expect(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(parseAlarmsFromICS(text, NOW).alarms[0].description).toBe(description);
+  });
+
+  it('never splits a surrogate pair or multi-byte character across lines', () => {
+    // "DESCRIPTION:" plus 62 letters is 74 octets, so the 4-octet emoji must start the next line
+    const description = `${'a'.repeat(62)}😀é`;
+    const alarm = makeAlarm({ description, repeats: ['Tue'] });
+
+    const lines = serializeAlarmsToICS([alarm], NOW).split('\r\n');
+    const index = lines.findIndex(line => line.startsWith('DESCRIPTION:'));
+
+    expect(lines[index]).toBe(`DESCRIPTION:${'a'.repeat(62)}`);
+    expect(lines[index + 1]).toBe(' 😀é');
+  });
+
+  it('leaves a line of exactly 75 octets unfolded', () => {
+    const alarm = makeAlarm({ description: 'b'.repeat(63), repeats: ['Tue'] });
+
+    const lines = serializeAlarmsToICS([alarm], NOW).split('\r\n');
+
+    expect(lines).toContain(`DESCRIPTION:${'b'.repeat(63)}`);
+  });
+});
+
+describe('iCalendar import', () => {
+  it('anchors an interval rule on its DTSTART', () => {
+    const text = calendar('UID:a', 'DTSTART:20270610T063000', 'RRULE:FREQ=DAILY;INTERVAL=3');
+
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(alarms[0]).toMatchObject({
+      time: '06:30',
+      recurrence: { type: 'interval-days', interval: 3, anchorDate: '2027-06-10' },
+    });
+  });
+
+  it('reads a UTC DTSTART in device time', () => {
+    const text = calendar('UID:a', 'DTSTART:20270801T050000Z');
+    const expected = new Date(Date.UTC(2027, 7, 1, 5, 0));
+
+    const { alarms } = parseAlarmsFromICS(text, NOW);
+
+    expect(alarms[0].time).toBe(
+      `${expected.getHours().toString().padStart(2, '0')}:${expected.getMinutes().toString().padStart(2, '0')}`
+    );
+  });
+
+  it('takes the month day of a MONTHLY rule without BYMONTHDAY from DTSTART', () => {
+    const text = calendar('UID:a', 'DTSTART:20270712T080000', 'RRULE:FREQ=MONTHLY');
+
+    expect(parseAlarmsFromICS(text, NOW).alarms[0].recurrence).toEqual({ type: 'monthly-day', dayOfMonth: 12 });
+  });
+
+  it('turns COUNT into the day of the last occurrence', () => {
+    const text = calendar('UID:a', 'SUMMARY:Course', 'DTSTART:20270614T080000', 'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(warnings).toEqual([]);
+    expect(alarms[0]).toMatchObject({ repeats: ['Mon'], activeUntil: '2027-08-16', isEnabled: true });
+  });
+
+  it('counts COUNT occurrences from DTSTART, not from today', () => {
+    const text = calendar('UID:a', 'DTSTART:20270601T080000', 'RRULE:FREQ=DAILY;COUNT=5');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(alarms[0]).toMatchObject({ activeUntil: '2027-06-05', isEnabled: false });
+    expect(warnings.map(warning => warning.message)).toEqual([
+      'Recurrence has already ended; imported as disabled',
+    ]);
+  });
+
+  it('counts COUNT occurrences of a monthly rule that skips short months', () => {
+    const text = calendar('UID:a', 'DTSTART:20270131T080000', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=31;COUNT=3');
+
+    expect(parseAlarmsFromICS(text, NOW).alarms[0].activeUntil).toBe('2027-05-31');
+  });
+
+  it('refuses an invalid COUNT rather than ringing forever', () => {
+    const text = calendar('UID:a', 'SUMMARY:Course', 'DTSTART:20270614T080000', 'RRULE:FREQ=WEEKLY;COUNT=0');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(alarms).toEqual([]);
+    expect(warnings.map(warning => warning.message)).toEqual([
+      'RRULE COUNT=0 is invalid',
+      'Recurrence could not be imported; event was skipped',
+    ]);
+    expect(warnings[0]).toMatchObject({ eventIndex: 0, uid: 'a', summary: 'Course' });
+  });
+
+  it('turns UNTIL into the last active day', () => {
+    const text = calendar('UID:a', 'DTSTART:20270614T080000', 'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20271220T235900');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(warnings).toEqual([]);
+    expect(alarms[0].activeUntil).toBe('2027-12-20');
+  });
+
+  it('keeps a DTSTART later than the next ring as the first active day', () => {
+    const text = calendar('UID:a', 'DTSTART:20270906T080000', 'RRULE:FREQ=WEEKLY;BYDAY=MO');
+
+    expect(parseAlarmsFromICS(text, NOW).alarms[0]).toMatchObject({ repeats: ['Mon'], activeFrom: '2027-09-06' });
+  });
+
+  it('warns about unsupported RRULE parts', () => {
+    const text = calendar('UID:a', 'DTSTART:20270614T080000', 'RRULE:FREQ=WEEKLY;BYDAY=MO;BYHOUR=8');
+
+    expect(messagesOf(text)).toEqual(['RRULE part BYHOUR=8 is not supported and was ignored']);
+  });
+
+  it('warns about BYSETPOS outside MONTHLY rules', () => {
+    const text = calendar('UID:a', 'DTSTART:20270614T080000', 'RRULE:FREQ=WEEKLY;BYDAY=MO;BYSETPOS=1');
+
+    expect(messagesOf(text)).toEqual(['BYSETPOS on a WEEKLY rule is not supported and was ignored']);
+  });
+
+  it('warns about approximated MONTHLY rules', () => {
+    const text = calendar('UID:a', 'DTSTART:20270614T080000', 'RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=1,15');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(alarms[0].recurrence).toEqual({ type: 'monthly-day', dayOfMonth: 1 });
+    expect(warnings.map(warning => warning.message)).toEqual([
+      'INTERVAL=2 on a MONTHLY rule is not supported; imported as every month',
+      'Only the first BYMONTHDAY value (1) was imported',
+    ]);
+  });
+
+  it('pins an event with a known TZID to that zone', () => {
+    const text = calendar('UID:a', 'DTSTART;TZID=Asia/Tokyo:20270620T070000', 'RRULE:FREQ=DAILY');
+
+    const { alarms, warnings } = parseAlarmsFromICS(text, NOW);
+
+    expect(warnings).toEqual([]);
+    expect(alarms[0]).toMatchObject({ time: '07:00', timeZone: 'Asia/Tokyo' });
+  });
+
+  it('warns about EXDATE, unknown TZIDs and all-day events', () => {
+    expect(messagesOf(calendar('UID:a', 'DTSTART;VALUE=DATE:20270620'))).toEqual([
+      'All-day event imported at 09:00',
+    ]);
+    expect(
+      messagesOf(
+        calendar('UID:a', 'DTSTART;TZID=Mars/Olympus:20270620T070000', 'RRULE:FREQ=DAILY', 'EXDATE:20270621T070000')
+      )
+    ).toEqual([
+      'Time zone Mars/Olympus is not supported; time interpreted in the device time zone',
+      'EXDATE is not supported and was ignored',
+    ]);
+  });
+
+  it('skips events with an unsupported frequency or no DTSTART', () => {
+    const { alarms, warnings } = parseAlarmsFromICS(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART:20270614T080000',
+        'RRULE:FREQ=HOURLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:No start',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'),
+      NOW
+    );
+
+    expect(alarms).toEqual([]);
+    expect(warnings.map(warning => [warning.eventIndex, warning.message])).toEqual([
+      [0, 'FREQ=HOURLY is not supported'],
+      [0, 'Recurrence could not be imported; event was skipped'],
+      [1, 'Event has no valid DTSTART and was skipped'],
+    ]);
+  });
+
+  it('imports a one-time event that already passed as disabled', () => {
+    const { alarms, warnings } = parseAlarmsFromICS(calendar('UID:a', 'DTSTART:20270601T080000'), NOW);
+
+    expect(alarms[0]).toMatchObject({ date: '2027-06-01', isEnabled: false });
+    expect(warnings.map(warning => warning.message)).toEqual([
+      'Event date has already passed; imported as disabled',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * solar tests
+ *
+ * Sunrise and sunset at known places and dates (checked against published
+ * almanac times), polar day and night, and sun-relative alarms whose offset
+ * pushes the ring past midnight. Expected instants are written in UTC so
+ * results don't depend on the zone the suite runs in.
+ */
+
+import { Alarm, SolarAnchor } from '../../types/alarm.types';
+import { getSolarEventTime, isValidCoordinate } from '../solar';
+import { findNextAlarmTime, getOccurrenceTime } from '../timeCalculations';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const SYDNEY = { latitude: -33.8688, longitude: 151.2093 };
+const REYKJAVIK = { latitude: 64.1466, longitude: -21.9426 };
+const TROMSO = { latitude: 69.6492, longitude: 18.9553 };
+
+/**
+ * Build an enabled daily sun-relative alarm
+ */
+const makeAlarm = (solar: SolarAnchor): Alarm => ({
+  id: 'alarm-1',
+  label: 'Test',
+  time: '00:00',
+  repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  solar,
+  isEnabled: true,
+  soundUri: 'chimes',
+  snoozeEnabled: true,
+  snoozeDuration: 10,
+  notificationIds: [],
+  createdAt: '2027-01-01T00:00:00.000Z',
+  updatedAt: '2027-01-01T00:00:00.000Z',
+});
+
+describe('getSolarEventTime', () => {
+  it('matches the almanac for London at midsummer', () => {
+    const { latitude, longitude } = LONDON;
+
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunrise')).toEqual(
+      new Date('2027-06-21T03:43:00Z')
+    );
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunset')).toEqual(
+      new Date('2027-06-21T20:21:00Z')
+    );
+  });
+
+  it('gives the local sunrise in the southern hemisphere, before midnight UTC', () => {
+    const { latitude, longitude } = SYDNEY;
+
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunrise')).toEqual(
+      new Date('2027-06-20T21:00:00Z')
+    );
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunset')).toEqual(
+      new Date('2027-06-21T06:54:00Z')
+    );
+  });
+
+  it('returns null during polar day and polar night', () => {
+    const { latitude, longitude } = TROMSO;
+
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunrise')).toBeNull();
+    expect(getSolarEventTime(2027, 6, 21, latitude, longitude, 'sunset')).toBeNull();
+    expect(getSolarEventTime(2027, 12, 21, latitude, longitude, 'sunrise')).toBeNull();
+    expect(getSolarEventTime(2027, 12, 21, latitude, longitude, 'sunset')).toBeNull();
+  });
+});
+
+describe('isValidCoordinate', () => {
+  it('accepts coordinates in range and rejects the rest', () => {
+    expect(isValidCoordinate(LONDON.latitude, LONDON.longitude)).toBe(true);
+    expect(isValidCoordinate(-90, 180)).toBe(true);
+    expect(isValidCoordinate(91, 0)).toBe(false);
+    expect(isValidCoordinate(0, -181)).toBe(false);
+    expect(isValidCoordinate(NaN, 0)).toBe(false);
+  });
+});
+
+describe('sun-relative alarms', () => {
+  it('applies the offset to the event of that day, on either side of midnight', () => {
+    const day = new Date(2027, 5, 21);
+
+    // Reykjavik's midsummer sunset is just after midnight UTC
+    expect(getOccurrenceTime(makeAlarm({ event: 'sunset', ...REYKJAVIK, offsetMinutes: -60 }), day)).toEqual(
+      new Date('2027-06-21T23:04:00Z')
+    );
+    expect(getOccurrenceTime(makeAlarm({ event: 'sunset', ...REYKJAVIK, offsetMinutes: 60 }), day)).toEqual(
+      new Date('2027-06-22T01:04:00Z')
+    );
+  });
+
+  it('still rings for the day before once its offset ring has crossed midnight', () => {
+    const alarm = makeAlarm({ event: 'sunset', ...REYKJAVIK, offsetMinutes: 60 });
+
+    expect(findNextAlarmTime(alarm, new Date('2027-06-22T00:30:00Z'))).toEqual(
+      new Date('2027-06-22T01:04:00Z')
+    );
+    expect(findNextAlarmTime(alarm, new Date('2027-06-22T01:04:00Z'))).toEqual(
+      new Date('2027-06-23T01:04:00Z')
+    );
+  });
+
+  it('skips days when the sun does not set', () => {
+    const alarm = makeAlarm({ event: 'sunset', ...TROMSO, offsetMinutes: 0 });
+
+    const next = findNextAlarmTime(alarm, new Date('2027-06-21T12:00:00Z'));
+
+    expect(next).not.toBeNull();
+    expect(next!.getTime()).toBeGreaterThan(new Date('2027-07-20T00:00:00Z').getTime());
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * timeCalculations tests
+ *
+ * Week boundaries, midnight and same-minute edge cases of the recurrence engine.
+ * Instants are built in device-local time on dates without a DST change, and every
+ * "now" comes from a fixed Clock so results never depend on when the suite runs.
+ */
+
+import { Alarm, ExceptionDateList, QuietHours, RecurrenceRule } from '../../types/alarm.types';
+import { createFixedClock } from '../clock';
+import {
+  describeAlarmSuspension,
+  describeRecurrenceRule,
+  findAlarmConflicts,
+  findNextAlarmTime,
+  getAlarmDescription,
+  getNextWeekdayOccurrence,
+  getOccurrenceDay,
+  getTimeRemaining,
+  getUpcomingOccurrences,
+  isAlarmDueToday,
+} from '../timeCalculations';
+
+/**
+ * Build an enabled one-time alarm, with overrides
+ */
+const makeAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  label: 'Test',
+  time: '07:00',
+  repeats: [],
+  isEnabled: true,
+  soundUri: 'chimes',
+  snoozeEnabled: true,
+  snoozeDuration: 10,
+  notificationIds: [],
+  createdAt: '2027-01-01T00:00:00.000Z',
+  updatedAt: '2027-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Mon 14 June 2027 (no DST change anywhere near)
+const MONDAY = { year: 2027, month: 5, day: 14 };
+
+/**
+ * Local instant on a day relative to MONDAY
+ */
+const at = (dayOffset: number, hours: number, minutes: number, seconds: number = 0): Date =>
+  new Date(MONDAY.year, MONDAY.month, MONDAY.day + dayOffset, hours, minutes, seconds);
+
+describe('isAlarmDueToday', () => {
+  it('is due while the time is still ahead', () => {
+    expect(isAlarmDueToday('07:00', createFixedClock(at(0, 6, 59)).now())).toBe(true);
+  });
+
+  it('is not due within the same minute', () => {
+    expect(isAlarmDueToday('07:00', createFixedClock(at(0, 7, 0)).now())).toBe(false);
+    expect(isAlarmDueToday('07:00', createFixedClock(at(0, 7, 0, 30)).now())).toBe(false);
+  });
+
+  it('is not due once the time has passed', () => {
+    expect(isAlarmDueToday('07:00', createFixedClock(at(0, 7, 1)).now())).toBe(false);
+  });
+
+  it('treats midnight as the start of the day', () => {
+    expect(isAlarmDueToday('00:00', createFixedClock(at(0, 0, 0)).now())).toBe(false);
+    expect(isAlarmDueToday('23:59', createFixedClock(at(0, 23, 58)).now())).toBe(true);
+  });
+});
+
+describe('getNextWeekdayOccurrence', () => {
+  it('returns later today when the time is still ahead', () => {
+    const clock = createFixedClock(at(0, 6, 0));
+    expect(getNextWeekdayOccurrence('Mon', '07:00', clock.now())).toEqual(at(0, 7, 0));
+  });
+
+  it('rolls to next week at the same minute', () => {
+    expect(getNextWeekdayOccurrence('Mon', '07:00', createFixedClock(at(0, 7, 0)).now())).toEqual(
+      at(7, 7, 0)
+    );
+    expect(getNextWeekdayOccurrence('Mon', '07:00', createFixedClock(at(0, 7, 0, 59)).now())).toEqual(
+      at(7, 7, 0)
+    );
+  });
+
+  it('crosses the week boundary from Sunday to Monday', () => {
+    const clock = createFixedClock(at(6, 23, 59));
+    expect(getNextWeekdayOccurrence('Mon', '00:00', clock.now())).toEqual(at(7, 0, 0));
+  });
+
+  it('looks ahead to the end of the week for an earlier weekday', () => {
+    const clock = createFixedClock(at(6, 12, 0));
+    expect(getNextWeekdayOccurrence('Sat', '09:30', clock.now())).toEqual(at(12, 9, 30));
+  });
+
+  it('rolls a midnight alarm to next week once midnight has come', () => {
+    const clock = createFixedClock(at(0, 0, 0));
+    expect(getNextWeekdayOccurrence('Mon', '00:00', clock.now())).toEqual(at(7, 0, 0));
+  });
+});
+
+describe('findNextAlarmTime', () => {
+  describe('one-time alarms', () => {
+    it('rings later today when the time is still ahead', () => {
+      const clock = createFixedClock(at(0, 6, 0));
+      expect(findNextAlarmTime(makeAlarm(), clock.now())).toEqual(at(0, 7, 0));
+    });
+
+    it('rings tomorrow when set for the current minute', () => {
+      expect(findNextAlarmTime(makeAlarm(), createFixedClock(at(0, 7, 0)).now())).toEqual(at(1, 7, 0));
+      expect(findNextAlarmTime(makeAlarm(), createFixedClock(at(0, 7, 0, 1)).now())).toEqual(
+        at(1, 7, 0)
+      );
+    });
+
+    it('rings at the coming midnight', () => {
+      const clock = createFixedClock(at(0, 23, 59));
+      expect(findNextAlarmTime(makeAlarm({ time: '00:00' }), clock.now())).toEqual(at(1, 0, 0));
+    });
+
+    it('rings in the new year across the year boundary', () => {
+      const clock = createFixedClock(new Date(2026, 11, 31, 23, 30));
+      expect(findNextAlarmTime(makeAlarm({ time: '00:15' }), clock.now())).toEqual(
+        new Date(2027, 0, 1, 0, 15)
+      );
+    });
+
+    it('never rings again once its date has passed', () => {
+      const alarm = makeAlarm({ date: '2027-06-14' });
+      expect(findNextAlarmTime(alarm, createFixedClock(at(0, 6, 59)).now())).toEqual(at(0, 7, 0));
+      expect(findNextAlarmTime(alarm, createFixedClock(at(0, 7, 0)).now())).toBeNull();
+    });
+  });
+
+  describe('weekly alarms', () => {
+    it('crosses the week boundary from Sunday night to Monday', () => {
+      const alarm = makeAlarm({ repeats: ['Mon'] });
+      const clock = createFixedClock(at(6, 23, 59));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(7, 7, 0));
+    });
+
+    it('waits a full week when set for the current minute', () => {
+      const alarm = makeAlarm({ repeats: ['Mon'] });
+      expect(findNextAlarmTime(alarm, createFixedClock(at(0, 7, 0)).now())).toEqual(at(7, 7, 0));
+    });
+
+    it('skips the weekend from Friday to Monday', () => {
+      const alarm = makeAlarm({ repeats: ['Mon', 'Fri'] });
+      const clock = createFixedClock(at(4, 7, 0, 30));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(7, 7, 0));
+    });
+
+    it('rings at midnight on the first repeat day after a Saturday', () => {
+      const alarm = makeAlarm({ time: '00:00', repeats: ['Sun', 'Mon'] });
+      const clock = createFixedClock(at(5, 23, 59, 59));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(6, 0, 0));
+    });
+
+    it('rings at the next midnight when set for midnight and midnight has just struck', () => {
+      const alarm = makeAlarm({ time: '00:00', repeats: ['Sun', 'Mon'] });
+      const clock = createFixedClock(at(6, 0, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(7, 0, 0));
+    });
+  });
+
+  describe('skips and pauses', () => {
+    const daily: Alarm['repeats'] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+    it('leaves out every skipped date', () => {
+      const alarm = makeAlarm({ repeats: daily, skippedDates: ['2027-06-15', '2027-06-16'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(3, 7, 0));
+    });
+
+    it('rings again from the day a pause ends, still honouring later skips', () => {
+      const alarm = makeAlarm({ repeats: daily, pausedUntil: '2027-06-17', skippedDates: ['2027-06-17'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(4, 7, 0));
+    });
+
+    it('describes the first upcoming skip and how many follow', () => {
+      const alarm = makeAlarm({ repeats: daily, skippedDates: ['2027-06-13', '2027-06-20', '2027-06-16'] });
+      expect(describeAlarmSuspension(alarm, at(0, 12, 0))).toBe('Skipping Wed, Jun 16 and 1 more');
+    });
+  });
+
+  describe('monthly rules', () => {
+    it('skips months that have no such day instead of clamping to the month end', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'monthly-day', dayOfMonth: 31 } });
+      const clock = createFixedClock(new Date(2027, 0, 31, 7, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(new Date(2027, 2, 31, 7, 0));
+    });
+
+    it('skips February for the 30th', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'monthly-day', dayOfMonth: 30 } });
+      const clock = createFixedClock(new Date(2027, 0, 30, 8, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(new Date(2027, 2, 30, 7, 0));
+    });
+
+    it('rings on the last day of short, long and leap-year months', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'monthly-last-day' } });
+      expect(findNextAlarmTime(alarm, new Date(2027, 1, 1))).toEqual(new Date(2027, 1, 28, 7, 0));
+      expect(findNextAlarmTime(alarm, new Date(2028, 1, 1))).toEqual(new Date(2028, 1, 29, 7, 0));
+      expect(findNextAlarmTime(alarm, new Date(2027, 3, 30, 7, 0))).toEqual(new Date(2027, 4, 31, 7, 0));
+    });
+
+    it('finds the nth weekday of the next month once this month\'s has passed', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'monthly-weekday', ordinal: 2, weekday: 'Tue' } });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(new Date(2027, 6, 13, 7, 0));
+    });
+
+    it('tells the 4th weekday from the last one in a month with five of them', () => {
+      const fourth = makeAlarm({ recurrence: { type: 'monthly-weekday', ordinal: 4, weekday: 'Fri' } });
+      const last = makeAlarm({ recurrence: { type: 'monthly-weekday', ordinal: -1, weekday: 'Fri' } });
+      const clock = createFixedClock(new Date(2027, 6, 1));
+      expect(findNextAlarmTime(fourth, clock.now())).toEqual(new Date(2027, 6, 23, 7, 0));
+      expect(findNextAlarmTime(last, clock.now())).toEqual(new Date(2027, 6, 30, 7, 0));
+    });
+
+    it('treats the 4th weekday as the last one in a month with only four', () => {
+      const last = makeAlarm({ recurrence: { type: 'monthly-weekday', ordinal: -1, weekday: 'Fri' } });
+      expect(findNextAlarmTime(last, createFixedClock(at(0, 12, 0)).now())).toEqual(
+        new Date(2027, 5, 25, 7, 0)
+      );
+    });
+  });
+
+  describe('interval rules', () => {
+    it('counts every N days from an anchor in the past', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'interval-days', interval: 3, anchorDate: '2027-06-10' } });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(2, 7, 0));
+    });
+
+    it('skips the anchor day itself once its ring has passed', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'interval-days', interval: 5, anchorDate: '2027-06-14' } });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(5, 7, 0));
+    });
+
+    it('does not ring before an anchor in the future', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'interval-days', interval: 2, anchorDate: '2027-06-20' } });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(at(6, 7, 0));
+    });
+
+    it('rings on the given weekdays of every Nth week counted from the anchor week', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'interval-weeks', interval: 2, anchorDate: '2027-06-02', weekdays: ['Mon', 'Thu'] },
+      });
+      const clock = createFixedClock(at(0, 12, 0));
+      const first = findNextAlarmTime(alarm, clock.now());
+      expect(first).toEqual(at(3, 7, 0));
+      expect(findNextAlarmTime(alarm, first!)).toEqual(at(14, 7, 0));
+    });
+
+    it('leaves out the days of the anchor week that come before the anchor', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'interval-weeks', interval: 2, anchorDate: '2027-06-16', weekdays: ['Mon', 'Wed'] },
+      });
+      const clock = createFixedClock(at(-1, 12, 0));
+      const first = findNextAlarmTime(alarm, clock.now());
+      expect(first).toEqual(at(2, 7, 0));
+      expect(findNextAlarmTime(alarm, first!)).toEqual(at(14, 7, 0));
+    });
+
+    it('waits a full cycle when the anchor falls after the weekday in its week', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'interval-weeks', interval: 3, anchorDate: '2027-07-01', weekdays: ['Tue'] },
+      });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(new Date(2027, 6, 20, 7, 0));
+    });
+  });
+
+  describe('rotation rules', () => {
+    // 2 day shifts, 2 night shifts, 4 days off, starting Mon 14 June
+    const rotation: RecurrenceRule = {
+      type: 'rotation',
+      anchorDate: '2027-06-14',
+      dayTypes: [{ name: 'Day', time: '05:30' }, { name: 'Night', time: '17:30' }, { name: 'Off' }],
+      cycle: [0, 0, 1, 1, 2, 2, 2, 2],
+    };
+
+    it('rings at the time of each shift and not on days off', () => {
+      const alarm = makeAlarm({ recurrence: rotation });
+      expect(getUpcomingOccurrences(alarm, 5, at(0, 12, 0))).toEqual([
+        at(1, 5, 30),
+        at(2, 17, 30),
+        at(3, 17, 30),
+        at(8, 5, 30),
+        at(9, 5, 30),
+      ]);
+    });
+
+    it('does not ring before the cycle starts', () => {
+      const alarm = makeAlarm({ recurrence: { ...rotation, anchorDate: '2027-06-20' } });
+      expect(findNextAlarmTime(alarm, at(0, 12, 0))).toEqual(at(6, 5, 30));
+    });
+
+    it('never rings when no day type has a time', () => {
+      const alarm = makeAlarm({ recurrence: { ...rotation, dayTypes: [{ name: 'Off' }], cycle: [0, 0] } });
+      expect(findNextAlarmTime(alarm, at(0, 12, 0))).toBeNull();
+    });
+
+    it('describes the cycle as runs of shifts', () => {
+      expect(describeRecurrenceRule(rotation)).toBe('8-day rotation: 2 Day, 2 Night, 4 Off');
+    });
+  });
+
+  describe('business-day rules', () => {
+    const weekdays: Alarm['repeats'] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+    const sundayToThursday: Alarm['repeats'] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu'];
+    const holidays: ExceptionDateList = {
+      id: 'holidays',
+      name: 'Holidays',
+      dates: ['2027-06-15', '2027-07-01', '2027-07-30'],
+      createdAt: '2027-01-01T00:00:00.000Z',
+      updatedAt: '2027-01-01T00:00:00.000Z',
+    };
+
+    it('rings on the days of the workweek only', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'business-days', workweek: weekdays } });
+      expect(findNextAlarmTime(alarm, at(4, 12, 0))).toEqual(at(7, 7, 0));
+    });
+
+    it('follows a custom workweek', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'business-days', workweek: sundayToThursday } });
+      expect(findNextAlarmTime(alarm, at(3, 12, 0))).toEqual(at(6, 7, 0));
+    });
+
+    it('treats dates of opted-in lists as holidays', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'business-days', workweek: weekdays },
+        exceptionListIds: ['holidays'],
+      });
+      expect(findNextAlarmTime(alarm, at(0, 12, 0), [holidays])).toEqual(at(2, 7, 0));
+    });
+
+    it('counts the first business days of a month in a custom workweek', () => {
+      // Fri 1 and Sat 2 October 2027 are the weekend, so Sun 3 is the first business day
+      const first = makeAlarm({
+        recurrence: { type: 'business-day-of-month', ordinal: 1, workweek: sundayToThursday },
+      });
+      const second = makeAlarm({
+        recurrence: { type: 'business-day-of-month', ordinal: 2, workweek: sundayToThursday },
+      });
+      const from = new Date(2027, 8, 30, 12, 0);
+      expect(findNextAlarmTime(first, from)).toEqual(new Date(2027, 9, 3, 7, 0));
+      expect(findNextAlarmTime(second, from)).toEqual(new Date(2027, 9, 4, 7, 0));
+    });
+
+    it('moves the first business day past a holiday', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'business-day-of-month', ordinal: 1, workweek: weekdays },
+        exceptionListIds: ['holidays'],
+      });
+      expect(findNextAlarmTime(alarm, at(16, 12, 0), [holidays])).toEqual(new Date(2027, 6, 2, 7, 0));
+    });
+
+    it('finds the last business day before a month-end weekend', () => {
+      // Sat 31 July 2027
+      const alarm = makeAlarm({ recurrence: { type: 'business-day-of-month', ordinal: -1, workweek: weekdays } });
+      expect(findNextAlarmTime(alarm, new Date(2027, 6, 1, 12, 0))).toEqual(new Date(2027, 6, 30, 7, 0));
+    });
+
+    it('moves the last business day back past a holiday', () => {
+      const alarm = makeAlarm({
+        recurrence: { type: 'business-day-of-month', ordinal: -1, workweek: weekdays },
+        exceptionListIds: ['holidays'],
+      });
+      expect(findNextAlarmTime(alarm, new Date(2027, 6, 1, 12, 0), [holidays])).toEqual(
+        new Date(2027, 6, 29, 7, 0)
+      );
+    });
+
+    it('describes the workweek and the ordinal', () => {
+      expect(describeRecurrenceRule({ type: 'business-days', workweek: sundayToThursday })).toBe(
+        'Business days (Mon, Tue, Wed, Thu, Sun)'
+      );
+      expect(describeRecurrenceRule({ type: 'business-day-of-month', ordinal: -1, workweek: weekdays })).toBe(
+        'Monthly on the last business day'
+      );
+    });
+  });
+
+  describe('yearly rules', () => {
+    it('rings next year when set for the current minute', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'yearly', month: 3, dayOfMonth: 3 } });
+      const clock = createFixedClock(new Date(2027, 2, 3, 7, 0));
+      expect(findNextAlarmTime(alarm, clock.now())).toEqual(new Date(2028, 2, 3, 7, 0));
+    });
+
+    it('only rings on Feb 29 in leap years', () => {
+      const alarm = makeAlarm({ recurrence: { type: 'yearly', month: 2, dayOfMonth: 29 } });
+      const clock = createFixedClock(at(0, 12, 0));
+      const first = findNextAlarmTime(alarm, clock.now());
+      expect(first).toEqual(new Date(2028, 1, 29, 7, 0));
+      expect(findNextAlarmTime(alarm, first!)).toEqual(new Date(2032, 1, 29, 7, 0));
+    });
+  });
+
+  describe('exception dates', () => {
+    const makeList = (id: string, dates: string[]): ExceptionDateList => ({
+      id,
+      name: id,
+      dates,
+      createdAt: '2027-01-01T00:00:00.000Z',
+      updatedAt: '2027-01-01T00:00:00.000Z',
+    });
+
+    const holidays = makeList('holidays', ['2027-06-15']);
+    const vacation = makeList('vacation', ['2027-06-16', '2027-06-17']);
+    const weekdays: Alarm['repeats'] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+    it('skips the dates of lists the alarm opted into', () => {
+      const alarm = makeAlarm({ repeats: weekdays, exceptionListIds: ['holidays'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now(), [holidays, vacation])).toEqual(at(2, 7, 0));
+    });
+
+    it('combines several lists', () => {
+      const alarm = makeAlarm({ repeats: weekdays, exceptionListIds: ['holidays', 'vacation'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now(), [holidays, vacation])).toEqual(at(4, 7, 0));
+    });
+
+    it('ignores lists the alarm did not opt into and lists that no longer exist', () => {
+      const alarm = makeAlarm({ repeats: weekdays, exceptionListIds: ['deleted'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now(), [holidays])).toEqual(at(1, 7, 0));
+    });
+
+    it('does not apply to one-time alarms', () => {
+      const alarm = makeAlarm({ date: '2027-06-15', exceptionListIds: ['holidays'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(findNextAlarmTime(alarm, clock.now(), [holidays])).toEqual(at(1, 7, 0));
+    });
+
+    it('leaves exception dates out of the booked window', () => {
+      const alarm = makeAlarm({ repeats: weekdays, exceptionListIds: ['holidays', 'vacation'] });
+      const clock = createFixedClock(at(0, 12, 0));
+      expect(getUpcomingOccurrences(alarm, 3, clock.now(), [holidays, vacation])).toEqual([
+        at(4, 7, 0),
+        at(7, 7, 0),
+        at(8, 7, 0),
+      ]);
+    });
+  });
+});
+
+describe('getTimeRemaining', () => {
+  it('counts whole minutes down to the next ring', () => {
+    const clock = createFixedClock(at(0, 5, 29, 30));
+    expect(getTimeRemaining(makeAlarm(), clock.now())).toEqual({ hours: 1, minutes: 30, total: 90 });
+  });
+
+  it('counts a full week when a weekly alarm is set for the current minute', () => {
+    const alarm = makeAlarm({ repeats: ['Mon'] });
+    const clock = createFixedClock(at(0, 7, 0));
+    expect(getTimeRemaining(alarm, clock.now())).toEqual({ hours: 168, minutes: 0, total: 10080 });
+  });
+});
+
+describe('quiet hours', () => {
+  // Monday night 22:00 until Tuesday 07:00
+  const quietHours: QuietHours = { start: '22:00', end: '07:00', days: ['Mon'], mode: 'defer' };
+  const alarm = makeAlarm({ time: '06:30', repeats: ['Tue', 'Wed'] });
+  const clock = createFixedClock(at(0, 12, 0));
+
+  it('describes and counts down to the deferred ring', () => {
+    expect(getAlarmDescription(alarm, clock.now(), [], quietHours)).toBe('Tomorrow at 7:00 AM');
+    expect(getTimeRemaining(alarm, clock.now(), [], quietHours)).toEqual({ hours: 19, minutes: 0, total: 1140 });
+  });
+
+  it('describes the next ring after a suppressed one', () => {
+    const suppress: QuietHours = { ...quietHours, mode: 'suppress' };
+    expect(getAlarmDescription(alarm, clock.now(), [], suppress)).toBe('Wed at 6:30 AM');
+  });
+
+  it('leaves critical alarms alone', () => {
+    const critical = { ...alarm, isCritical: true };
+    expect(getAlarmDescription(critical, clock.now(), [], quietHours)).toBe('Tomorrow at 6:30 AM');
+  });
+
+  it('keeps a ring deferred past midnight on the day of its occurrence', () => {
+    const lateAlarm = makeAlarm({ time: '23:30', repeats: ['Mon', 'Tue'] });
+
+    const next = findNextAlarmTime(lateAlarm, clock.now(), [], quietHours);
+
+    expect(next).toEqual(at(1, 7, 0));
+    expect(getOccurrenceDay(lateAlarm, next!, quietHours)).toEqual(at(0, 0, 0));
+    expect(getOccurrenceDay(alarm, next!, quietHours)).toEqual(at(1, 0, 0));
+  });
+
+  it('drops the deferred ring when its occurrence day is skipped', () => {
+    const lateAlarm = makeAlarm({ time: '23:30', repeats: ['Mon', 'Tue'], skippedDates: ['2027-06-14'] });
+
+    expect(findNextAlarmTime(lateAlarm, clock.now(), [], quietHours)).toEqual(at(1, 23, 30));
+  });
+
+  it('compares deferred rings when looking for conflicts', () => {
+    const other = makeAlarm({ id: 'alarm-2', label: 'Other', time: '07:00', repeats: ['Tue'] });
+    const until = at(7, 0, 0);
+
+    expect(findAlarmConflicts(alarm, [other], clock.now(), until, 5)).toEqual([]);
+    expect(findAlarmConflicts(alarm, [other], clock.now(), until, 5, [], quietHours)).toEqual([
+      expect.objectContaining({ at: at(1, 7, 0), otherAt: at(1, 7, 0), minutesApart: 0 }),
+    ]);
+  });
+});
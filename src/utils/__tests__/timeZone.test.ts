@@ -0,0 +1,176 @@
+/**
+ * timeZone tests
+ *
+ * Wall-clock times on daylight-saving change days in America/New_York and
+ * Europe/Berlin, resolved under each gap and overlap policy, and the next ring
+ * of alarms pinned to those zones across a change. Expected instants are written
+ * in UTC so results don't depend on the zone the suite runs in.
+ */
+
+import { Alarm } from '../../types/alarm.types';
+import { findNextAlarmTime } from '../timeCalculations';
+import { resolveWallClockTime } from '../timeZone';
+
+/**
+ * Build an enabled daily alarm pinned to a zone, with overrides
+ */
+const makeAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  label: 'Test',
+  time: '07:00',
+  repeats: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  timeZone: 'America/New_York',
+  isEnabled: true,
+  soundUri: 'chimes',
+  snoozeEnabled: true,
+  snoozeDuration: 10,
+  notificationIds: [],
+  createdAt: '2027-01-01T00:00:00.000Z',
+  updatedAt: '2027-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('resolveWallClockTime', () => {
+  describe('America/New_York', () => {
+    const ZONE = 'America/New_York';
+
+    it('resolves an ordinary time with the offset in force', () => {
+      expect(resolveWallClockTime(2027, 6, 14, 7, 0, ZONE)).toEqual(new Date('2027-06-14T11:00:00Z'));
+    });
+
+    describe('spring forward (14 Mar 2027, 02:00 EST jumps to 03:00 EDT)', () => {
+      it('shift-forward moves the time later by the jump', () => {
+        expect(resolveWallClockTime(2027, 3, 14, 2, 30, ZONE, 'shift-forward')).toEqual(
+          new Date('2027-03-14T07:30:00Z')
+        );
+      });
+
+      it('end-of-gap rings the moment the clocks jump', () => {
+        expect(resolveWallClockTime(2027, 3, 14, 2, 30, ZONE, 'end-of-gap')).toEqual(
+          new Date('2027-03-14T07:00:00Z')
+        );
+      });
+
+      it('skip leaves the day out', () => {
+        expect(resolveWallClockTime(2027, 3, 14, 2, 30, ZONE, 'skip')).toBeNull();
+      });
+
+      it('leaves times either side of the gap alone', () => {
+        expect(resolveWallClockTime(2027, 3, 14, 1, 59, ZONE, 'skip')).toEqual(
+          new Date('2027-03-14T06:59:00Z')
+        );
+        expect(resolveWallClockTime(2027, 3, 14, 3, 0, ZONE, 'skip')).toEqual(
+          new Date('2027-03-14T07:00:00Z')
+        );
+      });
+    });
+
+    describe('fall back (7 Nov 2027, 02:00 EDT falls back to 01:00 EST)', () => {
+      it('earlier picks the first pass', () => {
+        expect(resolveWallClockTime(2027, 11, 7, 1, 30, ZONE, 'shift-forward', 'earlier')).toEqual(
+          new Date('2027-11-07T05:30:00Z')
+        );
+      });
+
+      it('later picks the second pass', () => {
+        expect(resolveWallClockTime(2027, 11, 7, 1, 30, ZONE, 'shift-forward', 'later')).toEqual(
+          new Date('2027-11-07T06:30:00Z')
+        );
+      });
+
+      it('resolves times outside the repeated hour once', () => {
+        expect(resolveWallClockTime(2027, 11, 7, 2, 0, ZONE, 'shift-forward', 'earlier')).toEqual(
+          new Date('2027-11-07T07:00:00Z')
+        );
+      });
+    });
+  });
+
+  describe('Europe/Berlin', () => {
+    const ZONE = 'Europe/Berlin';
+
+    it('resolves an ordinary time with the offset in force', () => {
+      expect(resolveWallClockTime(2027, 1, 11, 7, 0, ZONE)).toEqual(new Date('2027-01-11T06:00:00Z'));
+    });
+
+    describe('spring forward (28 Mar 2027, 02:00 CET jumps to 03:00 CEST)', () => {
+      it('shift-forward moves the time later by the jump', () => {
+        expect(resolveWallClockTime(2027, 3, 28, 2, 30, ZONE, 'shift-forward')).toEqual(
+          new Date('2027-03-28T01:30:00Z')
+        );
+      });
+
+      it('end-of-gap rings the moment the clocks jump', () => {
+        expect(resolveWallClockTime(2027, 3, 28, 2, 30, ZONE, 'end-of-gap')).toEqual(
+          new Date('2027-03-28T01:00:00Z')
+        );
+      });
+
+      it('skip leaves the day out', () => {
+        expect(resolveWallClockTime(2027, 3, 28, 2, 30, ZONE, 'skip')).toBeNull();
+      });
+    });
+
+    describe('fall back (31 Oct 2027, 03:00 CEST falls back to 02:00 CET)', () => {
+      it('earlier picks the first pass', () => {
+        expect(resolveWallClockTime(2027, 10, 31, 2, 30, ZONE, 'shift-forward', 'earlier')).toEqual(
+          new Date('2027-10-31T00:30:00Z')
+        );
+      });
+
+      it('later picks the second pass', () => {
+        expect(resolveWallClockTime(2027, 10, 31, 2, 30, ZONE, 'shift-forward', 'later')).toEqual(
+          new Date('2027-10-31T01:30:00Z')
+        );
+      });
+    });
+  });
+});
+
+describe('findNextAlarmTime on daylight-saving days', () => {
+  describe('spring forward in America/New_York (14 Mar 2027)', () => {
+    // Sat 13 Mar 2027, 07:00 EST
+    const FROM = new Date('2027-03-13T12:00:00Z');
+
+    it('skip moves on to the next day', () => {
+      const alarm = makeAlarm({ time: '02:30', dstGapPolicy: 'skip' });
+      expect(findNextAlarmTime(alarm, FROM)).toEqual(new Date('2027-03-15T06:30:00Z'));
+    });
+
+    it('shift-forward rings on the day of the change, an hour later', () => {
+      const alarm = makeAlarm({ time: '02:30', dstGapPolicy: 'shift-forward' });
+      expect(findNextAlarmTime(alarm, FROM)).toEqual(new Date('2027-03-14T07:30:00Z'));
+    });
+
+    it('end-of-gap rings when the clocks jump', () => {
+      const alarm = makeAlarm({ time: '02:30', dstGapPolicy: 'end-of-gap' });
+      expect(findNextAlarmTime(alarm, FROM)).toEqual(new Date('2027-03-14T07:00:00Z'));
+    });
+  });
+
+  describe('fall back in America/New_York (7 Nov 2027)', () => {
+    // Sat 6 Nov 2027, 08:00 EDT
+    const FROM = new Date('2027-11-06T12:00:00Z');
+
+    it('later picks the second 01:30', () => {
+      const alarm = makeAlarm({ time: '01:30', dstOverlapPolicy: 'later' });
+      expect(findNextAlarmTime(alarm, FROM)).toEqual(new Date('2027-11-07T06:30:00Z'));
+    });
+
+    it('earlier picks the first 01:30', () => {
+      const alarm = makeAlarm({ time: '01:30', dstOverlapPolicy: 'earlier' });
+      expect(findNextAlarmTime(alarm, FROM)).toEqual(new Date('2027-11-07T05:30:00Z'));
+    });
+
+    it('rings only once that day', () => {
+      const alarm = makeAlarm({ time: '01:30', dstOverlapPolicy: 'earlier' });
+      const first = findNextAlarmTime(alarm, FROM);
+      expect(findNextAlarmTime(alarm, first!)).toEqual(new Date('2027-11-08T06:30:00Z'));
+    });
+  });
+
+  it('skips a one-time alarm dated on the change when its time does not exist', () => {
+    const alarm = makeAlarm({ repeats: [], date: '2027-03-14', time: '02:30', dstGapPolicy: 'skip' });
+    expect(findNextAlarmTime(alarm, new Date('2027-03-13T12:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Clock Utility
+ * 
+ * Provides Clock implementations used by SchedulerService and AlarmContext
+ * to obtain the current time. Swap in a fixed clock to evaluate schedules
+ * "as of" another instant.
+ * 
+ * Reference: Docs/ARCHITECTURE.md - Utility Functions
+ */
+
+import { Clock } from '../types/alarm.types';
+
+/**
+ * Clock backed by the device's system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Create a clock frozen at a specific instant
+ * @param instant - Instant the clock always reports
+ * @returns Clock whose now() returns a copy of the instant
+ */
+export function createFixedClock(instant: Date): Clock {
+  const time = instant.getTime();
+  return {
+    now: () => new Date(time),
+  };
+}
+
@@ -0,0 +1,110 @@
+/**
+ * Exception Dates Utility
+ *
+ * Parses the dates of an exception-date list (e.g. public holidays) from either
+ * a simple dated text file or an iCalendar (.ics) file.
+ *
+ * Text format: one date per line, optionally followed by a name.
+ *   2027-01-01 New Year's Day
+ *   2027-12-25 Christmas Day
+ * Blank lines and lines starting with # are ignored.
+ */
+
+import {
+  findComponents,
+  getProperty,
+  parseICalDateTime,
+  parseICalendar,
+} from './icalendar';
+import { addDays, formatDateString, isValidDateString } from './timeCalculations';
+
+/**
+ * Longest multi-day event expanded into individual dates
+ */
+const MAX_EVENT_DAYS = 366;
+
+/**
+ * Result of parsing exception dates
+ */
+export interface ExceptionDatesParseResult {
+  /** Dates found (YYYY-MM-DD), sorted and without duplicates */
+  dates: string[];
+
+  /** Lines or events that held no usable date */
+  skipped: number;
+}
+
+/**
+ * Sort dates and drop duplicates
+ * @param dates - Calendar dates (YYYY-MM-DD)
+ * @returns Sorted, de-duplicated dates
+ */
+export function normalizeExceptionDates(dates: string[]): string[] {
+  return Array.from(new Set(dates)).sort();
+}
+
+/**
+ * Parse dates from an iCalendar document
+ * Multi-day all-day events contribute every day they cover (DTEND is exclusive)
+ */
+function parseDatesFromICS(text: string): ExceptionDatesParseResult {
+  const dates: string[] = [];
+  let skipped = 0;
+
+  for (const event of findComponents(parseICalendar(text), 'VEVENT')) {
+    const dtStart = getProperty(event, 'DTSTART');
+    const start = dtStart ? parseICalDateTime(dtStart) : null;
+    
+    if (!start) {
+      skipped++;
+      continue;
+    }
+    
+    dates.push(formatDateString(start.date));
+    
+    const dtEnd = getProperty(event, 'DTEND');
+    const end = dtEnd ? parseICalDateTime(dtEnd) : null;
+    if (start.isDateOnly && end?.isDateOnly) {
+      let day = addDays(start.date, 1);
+      for (let i = 1; i < MAX_EVENT_DAYS && day.getTime() < end.date.getTime(); i++) {
+        dates.push(formatDateString(day));
+        day = addDays(day, 1);
+      }
+    }
+  }
+
+  return { dates: normalizeExceptionDates(dates), skipped };
+}
+
+/**
+ * Parse dates from dated text, one date per line
+ */
+function parseDatesFromText(text: string): ExceptionDatesParseResult {
+  const dates: string[] = [];
+  let skipped = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+    
+    const match = /^(\d{4}-\d{2}-\d{2})\b/.exec(line);
+    if (match && isValidDateString(match[1])) {
+      dates.push(match[1]);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { dates: normalizeExceptionDates(dates), skipped };
+}
+
+/**
+ * Parse exception dates from dated text or an iCalendar document
+ * @param text - File contents
+ * @returns Dates found and how many entries were skipped
+ */
+export function parseExceptionDates(text: string): ExceptionDatesParseResult {
+  return /BEGIN:VCALENDAR/i.test(text) ? parseDatesFromICS(text) : parseDatesFromText(text);
+}
@@ -0,0 +1,914 @@
+/**
+ * iCalendar Utility
+ *
+ * Serializes alarms to iCalendar (RFC 5545) VEVENT/VALARM entries with RRULE
+ * recurrence, and parses them back. Parts of an RRULE that an alarm can't
+ * express are reported as per-event warnings rather than silently dropped.
+ *
+ * Reference: https://datatracker.ietf.org/doc/html/rfc5545
+ */
+
+import {
+  Alarm,
+  AlarmInput,
+  IcsImportResult,
+  IcsImportWarning,
+  RecurrenceRule,
+  WeekDay,
+  WeekdayOrdinal,
+} from '../types/alarm.types';
+import {
+  WEEK_DAYS,
+  NUMBER_TO_WEEKDAY,
+  DEFAULT_SNOOZE_DURATION,
+} from '../constants/alarm.constants';
+import { DEFAULT_SOUND_ID } from '../constants/sounds';
+import { getZonedDateParts, isValidTimeZone, zonedTimeToDate } from './timeZone';
+import {
+  addDays,
+  findNextAlarmTime,
+  formatDateString,
+  getAlarmCalendarDay,
+  getUpcomingOccurrences,
+  isAlarmExpired,
+  formatDateToTime,
+  parseDateString,
+  parseTimeString,
+  startOfDay,
+} from './timeCalculations';
+
+/**
+ * Product identifier written to exported calendars
+ */
+const PRODID = '-//VitalDevAILabs//Task Alarm//EN';
+
+/**
+ * Non-standard properties used to round-trip alarm settings iCalendar has no field for
+ */
+const X_PROPERTY = {
+  ENABLED: 'X-TASK-ALARM-ENABLED',
+  SOUND: 'X-TASK-ALARM-SOUND',
+  SNOOZE: 'X-TASK-ALARM-SNOOZE',
+} as const;
+
+/**
+ * Time used for all-day (VALUE=DATE) events, which have no time of day
+ */
+const ALL_DAY_EVENT_TIME = '09:00';
+
+/**
+ * RFC 5545 weekday codes
+ */
+const WEEKDAY_TO_ICAL: Record<WeekDay, string> = {
+  Mon: 'MO',
+  Tue: 'TU',
+  Wed: 'WE',
+  Thu: 'TH',
+  Fri: 'FR',
+  Sat: 'SA',
+  Sun: 'SU',
+};
+
+const ICAL_TO_WEEKDAY: Record<string, WeekDay> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+/**
+ * RRULE parts the importer understands; anything else produces a warning
+ */
+const SUPPORTED_RRULE_PARTS = [
+  'FREQ',
+  'INTERVAL',
+  'BYDAY',
+  'BYMONTHDAY',
+  'BYMONTH',
+  'BYSETPOS',
+  'WKST',
+  'UNTIL',
+  'COUNT',
+];
+
+/**
+ * A single content line, e.g. `DTSTART;TZID=Europe/Paris:20270314T060000`
+ */
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A BEGIN/END block with its properties and nested blocks
+ */
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+// ============================================================================
+// Text encoding
+// ============================================================================
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 §3.3.11)
+ */
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Maximum length of a content line in UTF-8 octets, excluding the line break (RFC 5545 §3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Number of octets a code point takes in UTF-8
+ */
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  
+  if (codePoint < 0x80) {
+    return 1;
+  }
+  if (codePoint < 0x800) {
+    return 2;
+  }
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1)
+ * Breaks only between code points, so multi-byte characters and surrogate pairs stay whole.
+ * The leading space of a continuation line counts towards its length.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  // for...of walks code points, not UTF-16 units
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n');
+}
+
+/**
+ * Format a local date and HH:mm time as a floating DATE-TIME (no zone)
+ */
+function formatLocalDateTime(day: Date, time: string): string {
+  const { hours, minutes } = parseTimeString(time);
+  const date = formatDateString(day).replace(/-/g, '');
+  return `${date}T${hours.toString().padStart(2, '0')}${minutes.toString().padStart(2, '0')}00`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split a content line into name, parameters and value
+ * @param line - Unfolded content line
+ * @returns Parsed property, or null if the line is malformed
+ */
+function parseContentLine(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+
+  for (const part of paramParts) {
+    const [key, ...valueParts] = part.split('=');
+    params[key.toUpperCase()] = valueParts.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+/**
+ * Parse iCalendar text into its component tree
+ * @param text - Raw iCalendar text
+ * @returns Top-level components (normally a single VCALENDAR)
+ */
+export function parseICalendar(text: string): ICalComponent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    if (line.trim() === '') {
+      continue;
+    }
+    
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+    
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = {
+        type: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component);
+      } else {
+        roots.push(component);
+      }
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Collect every component of a type anywhere in a tree
+ * @param components - Components to search
+ * @param type - Component type, e.g. 'VEVENT'
+ * @returns Matching components in document order
+ */
+export function findComponents(components: ICalComponent[], type: string): ICalComponent[] {
+  const found: ICalComponent[] = [];
+
+  for (const component of components) {
+    if (component.type === type) {
+      found.push(component);
+    }
+    found.push(...findComponents(component.components, type));
+  }
+
+  return found;
+}
+
+/**
+ * Get the first property with a given name
+ */
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value
+ * UTC values (trailing Z) are converted to the device's local time
+ * @param property - DTSTART-like property
+ * @returns Local calendar day, HH:mm time, and whether the value was a plain DATE
+ */
+export function parseICalDateTime(
+  property: ICalProperty
+): { date: Date; time: string; isDateOnly: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+
+  if (hours === undefined) {
+    return {
+      date: new Date(Number(year), Number(month) - 1, Number(day)),
+      time: ALL_DAY_EVENT_TIME,
+      isDateOnly: true,
+    };
+  }
+
+  const instant = utc
+    ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)))
+    : new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+
+  return { date: startOfDay(instant), time: formatDateToTime(instant), isDateOnly: false };
+}
+
+/**
+ * Parse an RFC 5545 DURATION into minutes
+ * @param value - Duration such as "-PT15M" or "P1D"
+ * @returns Signed number of minutes, or null if malformed
+ */
+function parseDurationMinutes(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0);
+
+  return sign === '-' ? -total : total;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build the RRULE value for an alarm
+ * @param alarm - Alarm object
+ * @returns RRULE value, or null for one-time alarms
+ */
+function buildRRule(alarm: Alarm): string | null {
+  const rule = alarm.recurrence;
+
+  if (!rule) {
+    if (alarm.repeats.length === 0) {
+      return null;
+    }
+    const byDay = WEEK_DAYS.filter(day => alarm.repeats.includes(day)).map(day => WEEKDAY_TO_ICAL[day]);
+    return `FREQ=WEEKLY;BYDAY=${byDay.join(',')}`;
+  }
+
+  switch (rule.type) {
+    case 'monthly-day':
+      return `FREQ=MONTHLY;BYMONTHDAY=${rule.dayOfMonth}`;
+    case 'monthly-last-day':
+      return 'FREQ=MONTHLY;BYMONTHDAY=-1';
+    case 'monthly-weekday':
+      return `FREQ=MONTHLY;BYDAY=${rule.ordinal}${WEEKDAY_TO_ICAL[rule.weekday]}`;
+    case 'yearly':
+      return `FREQ=YEARLY;BYMONTH=${rule.month};BYMONTHDAY=${rule.dayOfMonth}`;
+    case 'interval-days':
+      return `FREQ=DAILY;INTERVAL=${rule.interval}`;
+    case 'interval-weeks': {
+      const byDay = WEEK_DAYS.filter(day => rule.weekdays.includes(day)).map(day => WEEKDAY_TO_ICAL[day]);
+      return `FREQ=WEEKLY;INTERVAL=${rule.interval};WKST=MO;BYDAY=${byDay.join(',')}`;
+    }
+    case 'rotation':
+      // Rotations are split into every-N-days events before export (see splitRotation)
+      return null;
+    case 'business-days': {
+      // Holidays travel as the alarm's exception lists, which aren't exported
+      const byDay = WEEK_DAYS.filter(day => rule.workweek.includes(day)).map(day => WEEKDAY_TO_ICAL[day]);
+      return `FREQ=WEEKLY;BYDAY=${byDay.join(',')}`;
+    }
+    case 'business-day-of-month': {
+      const byDay = WEEK_DAYS.filter(day => rule.workweek.includes(day)).map(day => WEEKDAY_TO_ICAL[day]);
+      return `FREQ=MONTHLY;BYDAY=${byDay.join(',')};BYSETPOS=${rule.ordinal}`;
+    }
+  }
+}
+
+/**
+ * Split a shift rotation into one every-N-days alarm per ringing day of its cycle
+ * RRULE has no shift cycles, but each cycle day repeats every cycle-length days at
+ * its own time, which it can express; other alarms are returned unchanged.
+ * @param alarm - Alarm object
+ * @returns Alarms to export in its place
+ */
+function splitRotation(alarm: Alarm): Alarm[] {
+  const rule = alarm.recurrence;
+  if (rule?.type !== 'rotation') {
+    return [alarm];
+  }
+  
+  const anchor = parseDateString(rule.anchorDate);
+  const parts: Alarm[] = [];
+  
+  rule.cycle.forEach((typeIndex, position) => {
+    const time = rule.dayTypes[typeIndex]?.time;
+    if (time === undefined) {
+      return;
+    }
+    parts.push({
+      ...alarm,
+      id: `${alarm.id}-${position}`,
+      time,
+      recurrence: {
+        type: 'interval-days',
+        interval: rule.cycle.length,
+        anchorDate: formatDateString(addDays(anchor, position)),
+      },
+    });
+  });
+  
+  return parts;
+}
+
+/**
+ * Format an alarm's last active day as an RRULE UNTIL value
+ * Zoned alarms need a UTC value (RFC 5545 §3.3.10); floating ones stay floating.
+ */
+function formatUntil(alarm: Alarm, activeUntil: string): string {
+  if (!alarm.timeZone) {
+    return formatLocalDateTime(parseDateString(activeUntil), '23:59');
+  }
+  
+  const [year, month, day] = activeUntil.split('-').map(Number);
+  return formatUtcDateTime(zonedTimeToDate(year, month, day, 23, 59, alarm.timeZone));
+}
+
+/**
+ * Pick the DTSTART day for an alarm
+ * Interval rules start at their anchor so the cadence survives the round trip;
+ * everything else starts at its next occurrence.
+ */
+function getStartDay(alarm: Alarm, now: Date): Date {
+  if (alarm.date && alarm.repeats.length === 0 && !alarm.recurrence) {
+    return parseDateString(alarm.date);
+  }
+
+  const rule = alarm.recurrence;
+  const from =
+    rule && (rule.type === 'interval-days' || rule.type === 'interval-weeks')
+      ? new Date(parseDateString(rule.anchorDate).getTime() - 1)
+      : now;
+
+  const first = findNextAlarmTime(alarm, from);
+  return getAlarmCalendarDay(alarm, first ?? now);
+}
+
+/**
+ * Check whether an alarm can be written as a calendar event
+ * Countdown timers are too short-lived to belong in a calendar, and a sun-relative
+ * alarm's time changes every day, which no recurrence rule can express
+ * @param alarm - Alarm object
+ * @returns true if serializeAlarmsToICS exports the alarm
+ */
+export function canExportToICS(alarm: Alarm): boolean {
+  return !alarm.timer && !alarm.solar;
+}
+
+/**
+ * Serialize alarms to an iCalendar document
+ * Each exportable alarm becomes a VEVENT with a display VALARM at the event start
+ * (a shift rotation becomes one VEVENT per ringing day of its cycle); the rest
+ * (see canExportToICS) are left out
+ * @param alarms - Alarms to export
+ * @param now - Reference instant (DTSTAMP and next-occurrence DTSTART)
+ * @returns iCalendar text with CRLF line endings
+ */
+export function serializeAlarmsToICS(alarms: Alarm[], now: Date): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+
+  for (const alarm of alarms.filter(canExportToICS).flatMap(splitRotation)) {
+    const rrule = buildRRule(alarm);
+    
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${alarm.id}@task-alarm`);
+    lines.push(`DTSTAMP:${formatUtcDateTime(now)}`);
+    lines.push(
+      `DTSTART${alarm.timeZone ? `;TZID=${alarm.timeZone}` : ''}:` +
+        formatLocalDateTime(getStartDay(alarm, now), alarm.time)
+    );
+    lines.push(`SUMMARY:${escapeText(alarm.label)}`);
+    if (alarm.description) {
+      lines.push(`DESCRIPTION:${escapeText(alarm.description)}`);
+    }
+    if (rrule) {
+      const until = alarm.activeUntil ? `;UNTIL=${formatUntil(alarm, alarm.activeUntil)}` : '';
+      lines.push(`RRULE:${rrule}${until}`);
+    }
+    lines.push(`${X_PROPERTY.ENABLED}:${alarm.isEnabled ? 'TRUE' : 'FALSE'}`);
+    lines.push(`${X_PROPERTY.SOUND}:${alarm.soundUri}`);
+    lines.push(`${X_PROPERTY.SNOOZE}:${alarm.snoozeEnabled ? alarm.snoozeDuration : 0}`);
+    lines.push('BEGIN:VALARM');
+    lines.push('ACTION:DISPLAY');
+    lines.push('TRIGGER:PT0M');
+    lines.push(`DESCRIPTION:${escapeText(alarm.label || 'Alarm')}`);
+    lines.push('END:VALARM');
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse an RRULE UNTIL value into the alarm's last active day
+ * UTC values on zoned events are read on that zone's calendar.
+ * @param value - UNTIL value such as "20271220" or "20271220T225959Z"
+ * @param timeZone - The event's time zone, if pinned
+ * @returns Date string (YYYY-MM-DD), or null if malformed
+ */
+function parseUntilDate(value: string, timeZone?: string): string | null {
+  const parsed = parseICalDateTime({ name: 'UNTIL', params: {}, value });
+  
+  if (!parsed) {
+    return null;
+  }
+  if (!timeZone || !value.endsWith('Z')) {
+    return formatDateString(parsed.date);
+  }
+  
+  const [, year, month, day, hours, minutes] = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})/.exec(value)!.map(Number);
+  const zoned = getZonedDateParts(new Date(Date.UTC(year, month - 1, day, hours, minutes)), timeZone);
+  return formatDateString(new Date(zoned.year, zoned.month - 1, zoned.day));
+}
+
+/**
+ * Find the day an RRULE with COUNT rings for the last time
+ * Occurrences are counted from the DTSTART day on, as the alarm itself would ring them.
+ * @param alarm - Imported alarm
+ * @param startDay - DTSTART day (YYYY-MM-DD)
+ * @param count - COUNT value
+ * @returns Date string (YYYY-MM-DD) of the last occurrence, or null if the rule never rings
+ */
+function findCountEndDate(alarm: AlarmInput, startDay: string, count: number): string | null {
+  const counted = toAlarm({ ...alarm, activeFrom: startDay, activeUntil: undefined });
+  
+  // Any instant before the start works; activeFrom keeps earlier days out in every time zone
+  const from = addDays(parseDateString(startDay), -2);
+  const occurrences = getUpcomingOccurrences(counted, count, from);
+  const last = occurrences[occurrences.length - 1];
+  
+  return last ? formatDateString(getAlarmCalendarDay(counted, last)) : null;
+}
+
+/**
+ * Map a parsed RRULE to the alarm's repeat fields
+ * @param parts - RRULE parts keyed by name
+ * @param start - Event start day
+ * @param warn - Records a warning for this event
+ * @returns Repeat fields, or null if the rule can't be represented
+ */
+function mapRRule(
+  parts: Record<string, string>,
+  start: Date,
+  warn: (message: string) => void
+): { repeats: WeekDay[]; recurrence?: RecurrenceRule } | null {
+  // COUNT becomes the alarm's last active day; ringing forever would be worse than not importing
+  if (parts.COUNT !== undefined && !/^[1-9]\d*$/.test(parts.COUNT)) {
+    warn(`RRULE COUNT=${parts.COUNT} is invalid`);
+    return null;
+  }
+
+  for (const name of Object.keys(parts)) {
+    if (!SUPPORTED_RRULE_PARTS.includes(name)) {
+      warn(`RRULE part ${name}=${parts[name]} is not supported and was ignored`);
+    }
+  }
+
+  if (parts.BYSETPOS && parts.FREQ !== 'MONTHLY') {
+    warn(`BYSETPOS on a ${parts.FREQ ?? '(missing)'} rule is not supported and was ignored`);
+  }
+
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    warn(`RRULE INTERVAL=${parts.INTERVAL} is invalid`);
+    return null;
+  }
+
+  const anchorDate = formatDateString(start);
+  const startWeekday = NUMBER_TO_WEEKDAY[start.getDay()];
+  const byDay = parts.BYDAY ? parts.BYDAY.split(',') : [];
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',').map(Number) : [];
+
+  switch (parts.FREQ) {
+    case 'DAILY':
+      if (byDay.length > 0 || byMonthDay.length > 0 || parts.BYMONTH) {
+        warn('BYDAY/BYMONTHDAY/BYMONTH on a DAILY rule are not supported and were ignored');
+      }
+      return interval === 1
+        ? { repeats: [...WEEK_DAYS] }
+        : { repeats: [], recurrence: { type: 'interval-days', interval, anchorDate } };
+    
+    case 'WEEKLY': {
+      if (byMonthDay.length > 0 || parts.BYMONTH) {
+        warn('BYMONTHDAY/BYMONTH on a WEEKLY rule are not supported and were ignored');
+      }
+      const weekdays: WeekDay[] = [];
+      for (const code of byDay) {
+        const weekday = ICAL_TO_WEEKDAY[code.trim().toUpperCase()];
+        if (weekday) {
+          weekdays.push(weekday);
+        } else {
+          warn(`BYDAY value ${code} is not supported on a WEEKLY rule and was ignored`);
+        }
+      }
+      if (weekdays.length === 0) {
+        weekdays.push(startWeekday);
+      }
+      return interval === 1
+        ? { repeats: WEEK_DAYS.filter(day => weekdays.includes(day)) }
+        : { repeats: [], recurrence: { type: 'interval-weeks', interval, anchorDate, weekdays } };
+    }
+    
+    case 'MONTHLY': {
+      if (interval !== 1) {
+        warn(`INTERVAL=${interval} on a MONTHLY rule is not supported; imported as every month`);
+      }
+      if (parts.BYMONTH) {
+        warn('BYMONTH on a MONTHLY rule is not supported and was ignored');
+      }
+      
+      // BYSETPOS picks the Nth of the listed weekdays, i.e. the Nth business day of the month
+      if (parts.BYSETPOS) {
+        const ordinal = Number(parts.BYSETPOS);
+        const workweek = byDay
+          .map(code => ICAL_TO_WEEKDAY[code.trim().toUpperCase()])
+          .filter((weekday): weekday is WeekDay => weekday !== undefined);
+        if (![1, 2, 3, 4, -1].includes(ordinal) || workweek.length === 0 || workweek.length !== byDay.length) {
+          warn(`BYSETPOS=${parts.BYSETPOS} with BYDAY=${parts.BYDAY ?? '(missing)'} is not supported`);
+          return null;
+        }
+        return {
+          repeats: [],
+          recurrence: {
+            type: 'business-day-of-month',
+            ordinal: ordinal as WeekdayOrdinal,
+            workweek: WEEK_DAYS.filter(day => workweek.includes(day)),
+          },
+        };
+      }
+      
+      if (byDay.length > 0) {
+        const match = /^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay[0].trim().toUpperCase());
+        const ordinal = match?.[1] ? Number(match[1]) : NaN;
+        if (!match || ![1, 2, 3, 4, -1].includes(ordinal)) {
+          warn(`BYDAY=${parts.BYDAY} on a MONTHLY rule is not supported`);
+          return null;
+        }
+        if (byDay.length > 1) {
+          warn(`Only the first BYDAY value (${byDay[0]}) was imported`);
+        }
+        return {
+          repeats: [],
+          recurrence: {
+            type: 'monthly-weekday',
+            ordinal: ordinal as WeekdayOrdinal,
+            weekday: ICAL_TO_WEEKDAY[match[2]],
+          },
+        };
+      }
+      
+      const dayOfMonth = byMonthDay.length > 0 ? byMonthDay[0] : start.getDate();
+      if (byMonthDay.length > 1) {
+        warn(`Only the first BYMONTHDAY value (${byMonthDay[0]}) was imported`);
+      }
+      if (dayOfMonth === -1) {
+        return { repeats: [], recurrence: { type: 'monthly-last-day' } };
+      }
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+        warn(`BYMONTHDAY=${dayOfMonth} is not supported`);
+        return null;
+      }
+      return { repeats: [], recurrence: { type: 'monthly-day', dayOfMonth } };
+    }
+    
+    case 'YEARLY': {
+      if (interval !== 1) {
+        warn(`INTERVAL=${interval} on a YEARLY rule is not supported; imported as every year`);
+      }
+      if (byDay.length > 0) {
+        warn('BYDAY on a YEARLY rule is not supported and was ignored');
+      }
+      const month = parts.BYMONTH ? parseInt(parts.BYMONTH, 10) : start.getMonth() + 1;
+      const dayOfMonth = byMonthDay.length > 0 ? byMonthDay[0] : start.getDate();
+      if (month < 1 || month > 12 || dayOfMonth < 1 || dayOfMonth > 31) {
+        warn(`BYMONTH=${month};BYMONTHDAY=${dayOfMonth} is not a valid yearly date`);
+        return null;
+      }
+      return { repeats: [], recurrence: { type: 'yearly', month, dayOfMonth } };
+    }
+    
+    default:
+      warn(`FREQ=${parts.FREQ ?? '(missing)'} is not supported`);
+      return null;
+  }
+}
+
+/**
+ * Wrap alarm input in an unsaved Alarm so the recurrence engine can evaluate it
+ */
+function toAlarm(input: AlarmInput): Alarm {
+  return { ...input, id: '', notificationIds: [], createdAt: '', updatedAt: '' };
+}
+
+/**
+ * Import alarms from iCalendar text
+ * Every VEVENT with a usable DTSTART becomes an alarm; anything that can't be
+ * represented exactly is reported in the per-event warnings.
+ * @param text - Raw iCalendar text
+ * @param now - Reference instant (one-time events in the past are imported disabled)
+ * @returns Alarms to add and warnings
+ */
+export function parseAlarmsFromICS(text: string, now: Date): IcsImportResult {
+  const events = findComponents(parseICalendar(text), 'VEVENT');
+  const alarms: AlarmInput[] = [];
+  const warnings: IcsImportWarning[] = [];
+
+  if (events.length === 0) {
+    warnings.push({ eventIndex: -1, message: 'No VEVENT entries found' });
+  }
+
+  events.forEach((event, eventIndex) => {
+    const uid = getProperty(event, 'UID')?.value;
+    const summaryProperty = getProperty(event, 'SUMMARY');
+    const summary = summaryProperty ? unescapeText(summaryProperty.value) : undefined;
+    const warn = (message: string) => warnings.push({ eventIndex, uid, summary, message });
+    
+    const dtStartProperty = getProperty(event, 'DTSTART');
+    const start = dtStartProperty ? parseICalDateTime(dtStartProperty) : null;
+    if (!start) {
+      warn('Event has no valid DTSTART and was skipped');
+      return;
+    }
+    if (start.isDateOnly) {
+      warn(`All-day event imported at ${ALL_DAY_EVENT_TIME}`);
+    }
+    // Floating wall-clock times with a known TZID stay pinned to that zone
+    const tzid = dtStartProperty?.params.TZID;
+    const timeZone = tzid && !start.isDateOnly && isValidTimeZone(tzid) ? tzid : undefined;
+    if (tzid && !timeZone) {
+      warn(`Time zone ${tzid} is not supported; time interpreted in the device time zone`);
+    }
+    
+    // A display VALARM may move the ring time relative to the event start
+    let time = start.time;
+    const valarm = event.components.find(component => component.type === 'VALARM');
+    const trigger = valarm ? getProperty(valarm, 'TRIGGER') : undefined;
+    if (trigger) {
+      const offset = trigger.params.VALUE === 'DATE-TIME' ? null : parseDurationMinutes(trigger.value);
+      const { hours, minutes } = parseTimeString(time);
+      const shifted = offset === null ? null : hours * 60 + minutes + offset;
+      
+      if (shifted === null || trigger.params.RELATED === 'END') {
+        warn(`VALARM TRIGGER ${trigger.value} is not supported; ringing at the event start`);
+      } else if (shifted < 0 || shifted >= 24 * 60) {
+        warn(`VALARM TRIGGER ${trigger.value} crosses midnight; ringing at the event start`);
+      } else if (offset !== 0) {
+        const shiftedDate = new Date(start.date);
+        shiftedDate.setHours(Math.floor(shifted / 60), shifted % 60);
+        time = formatDateToTime(shiftedDate);
+      }
+    }
+    
+    for (const name of ['EXDATE', 'RDATE']) {
+      if (getProperty(event, name)) {
+        warn(`${name} is not supported and was ignored`);
+      }
+    }
+    
+    // Recurrence
+    let repeatFields: {
+      repeats: WeekDay[];
+      recurrence?: RecurrenceRule;
+      date?: string;
+      activeUntil?: string;
+    } = {
+      repeats: [],
+      date: formatDateString(start.date),
+    };
+    let count: number | undefined;
+    const rruleProperty = getProperty(event, 'RRULE');
+    if (rruleProperty) {
+      const parts: Record<string, string> = {};
+      for (const part of rruleProperty.value.split(';')) {
+        const [key, value] = part.split('=');
+        if (key) {
+          parts[key.toUpperCase()] = (value ?? '').toUpperCase();
+        }
+      }
+      
+      const mapped = mapRRule(parts, start.date, warn);
+      if (!mapped) {
+        warn('Recurrence could not be imported; event was skipped');
+        return;
+      }
+      repeatFields = mapped;
+      
+      if (parts.UNTIL) {
+        const activeUntil = parseUntilDate(parts.UNTIL, timeZone);
+        if (activeUntil) {
+          repeatFields.activeUntil = activeUntil;
+        } else {
+          warn(`RRULE UNTIL=${parts.UNTIL} is invalid and was ignored`);
+        }
+      }
+      
+      count = parts.COUNT ? Number(parts.COUNT) : undefined;
+    }
+    
+    // Enabled state, sound and snooze
+    const enabledProperty = getProperty(event, X_PROPERTY.ENABLED);
+    const status = getProperty(event, 'STATUS')?.value.toUpperCase();
+    const isEnabled = enabledProperty
+      ? enabledProperty.value.toUpperCase() !== 'FALSE'
+      : status !== 'CANCELLED';
+    
+    const snoozeMinutes = Number(getProperty(event, X_PROPERTY.SNOOZE)?.value ?? DEFAULT_SNOOZE_DURATION);
+    const soundUri = getProperty(event, X_PROPERTY.SOUND)?.value || DEFAULT_SOUND_ID;
+    
+    const descriptionProperty = getProperty(event, 'DESCRIPTION');
+    
+    const alarm: AlarmInput = {
+      label: summary?.trim() || 'Imported alarm',
+      description: descriptionProperty ? unescapeText(descriptionProperty.value) : undefined,
+      time,
+      timeZone,
+      ...repeatFields,
+      isEnabled,
+      soundUri,
+      snoozeEnabled: snoozeMinutes > 0,
+      snoozeDuration: snoozeMinutes > 0 ? snoozeMinutes : DEFAULT_SNOOZE_DURATION,
+    };
+    
+    // A rule whose DTSTART lies beyond its next ring (e.g. weekly from next month) starts on that day
+    if (rruleProperty) {
+      const startDay = formatDateString(start.date);
+      const first = findNextAlarmTime(toAlarm(alarm), now);
+      if (first && formatDateString(getAlarmCalendarDay(toAlarm(alarm), first)) < startDay) {
+        alarm.activeFrom = startDay;
+      }
+    }
+    
+    // A rule limited to COUNT occurrences ends on the day of the last one (or its UNTIL, if earlier)
+    if (count !== undefined) {
+      const countEnd = findCountEndDate(alarm, formatDateString(start.date), count);
+      if (!countEnd) {
+        warn(`RRULE COUNT=${count} selects no occurrence; event was skipped`);
+        return;
+      }
+      if (alarm.activeUntil === undefined || countEnd < alarm.activeUntil) {
+        alarm.activeUntil = countEnd;
+      }
+    }
+    
+    // Events with no occurrences left can't ring; keep them but switched off
+    if (alarm.isEnabled && isAlarmExpired(toAlarm(alarm), now)) {
+      warn(
+        rruleProperty
+          ? 'Recurrence has already ended; imported as disabled'
+          : 'Event date has already passed; imported as disabled'
+      );
+      alarm.isEnabled = false;
+    }
+    
+    alarms.push(alarm);
+  });
+
+  return { alarms, warnings };
+}
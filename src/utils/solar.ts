@@ -0,0 +1,106 @@
+/**
+ * Solar Time Utility
+ *
+ * Computes sunrise and sunset for a date and a pair of coordinates entirely
+ * offline, using the sunrise equation (solar mean anomaly, equation of the
+ * center, ecliptic longitude and declination). Accurate to about a minute
+ * away from the polar circles, which is plenty for alarms.
+ *
+ * Reference: https://en.wikipedia.org/wiki/Sunrise_equation
+ * Reference: https://gml.noaa.gov/grad/solcalc/solareqns.PDF
+ */
+
+import { SolarEvent } from '../types/alarm.types';
+
+/**
+ * Julian date of the J2000.0 epoch (2000-01-01 12:00 UTC)
+ */
+const J2000 = 2451545.0;
+
+/**
+ * Julian date of the Unix epoch (1970-01-01 00:00 UTC)
+ */
+const UNIX_EPOCH_JULIAN_DATE = 2440587.5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Solar altitude at sunrise/sunset: refraction plus the radius of the sun's disc
+ */
+const SUNRISE_ALTITUDE_DEGREES = -0.833;
+
+/**
+ * Obliquity of the ecliptic
+ */
+const EARTH_AXIAL_TILT_DEGREES = 23.4397;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Check whether coordinates are usable for solar calculations
+ * @param latitude - Degrees north (negative for south)
+ * @param longitude - Degrees east (negative for west)
+ * @returns true if both are finite and within range
+ */
+export function isValidCoordinate(latitude: number, longitude: number): boolean {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Compute when the sun rises or sets on a calendar date at a location
+ * The date is read at the location's solar noon, so the result is the event
+ * belonging to that local day wherever the device happens to be.
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @param latitude - Degrees north (negative for south)
+ * @param longitude - Degrees east (negative for west)
+ * @param event - 'sunrise' or 'sunset'
+ * @returns The instant of the event, or null if the sun doesn't rise or set that day (polar day/night)
+ */
+export function getSolarEventTime(
+  year: number,
+  month: number,
+  day: number,
+  latitude: number,
+  longitude: number,
+  event: SolarEvent
+): Date | null {
+  // Days since J2000 at noon UTC of the date, then shifted to the location's mean solar noon
+  const julianNoon = Date.UTC(year, month - 1, day, 12) / MS_PER_DAY + UNIX_EPOCH_JULIAN_DATE;
+  const meanSolarNoon = Math.round(julianNoon - J2000) - longitude / 360;
+
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const m = toRadians(meanAnomaly);
+  const equationOfCenter = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRadians((meanAnomaly + equationOfCenter + 180 + 102.9372) % 360);
+
+  const solarTransit =
+    J2000 + meanSolarNoon + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const sinDeclination = Math.sin(eclipticLongitude) * Math.sin(toRadians(EARTH_AXIAL_TILT_DEGREES));
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const phi = toRadians(latitude);
+
+  const cosHourAngle =
+    (Math.sin(toRadians(SUNRISE_ALTITUDE_DEGREES)) - Math.sin(phi) * sinDeclination) /
+    (Math.cos(phi) * cosDeclination);
+
+  // Sun stays above (< -1) or below (> 1) the horizon all day
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null;
+  }
+
+  const hourAngleDays = toDegrees(Math.acos(cosHourAngle)) / 360;
+  const julianEvent = event === 'sunrise' ? solarTransit - hourAngleDays : solarTransit + hourAngleDays;
+
+  // Round to the minute like every other alarm time
+  const ms = (julianEvent - UNIX_EPOCH_JULIAN_DATE) * MS_PER_DAY;
+  return new Date(Math.round(ms / 60000) * 60000);
+}
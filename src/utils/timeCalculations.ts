@@ -4,12 +4,38 @@
  * Provides functions for calculating alarm trigger times, handling repeating logic,
  * and formatting time strings for display.
  * 
+ * The recurrence functions are pure: they never read the system clock and take an
+ * explicit reference instant instead. Callers obtain "now" from a Clock (see clock.ts).
+ * 
  * Reference: Docs/ARCHITECTURE.md - Utility Functions
  * Reference: Docs/API_REFERENCE.md - timeCalculations.ts
  */
 
-import { Alarm, WeekDay } from '../types/alarm.types';
-import { WEEKDAY_TO_NUMBER, NUMBER_TO_WEEKDAY } from '../constants/alarm.constants';
+import {
+  Alarm,
+  AlarmConflict,
+  ExceptionDateList,
+  QuietHours,
+  RecurrenceRule,
+  ShiftDayType,
+  WeekDay,
+  WeekdayOrdinal,
+  SolarAnchor,
+} from '../types/alarm.types';
+import {
+  WEEK_DAYS,
+  WEEKDAY_TO_NUMBER,
+  NUMBER_TO_WEEKDAY,
+  MONTH_NAMES,
+} from '../constants/alarm.constants';
+import { getZonedDateParts, resolveWallClockTime } from './timeZone';
+import { getSolarEventTime } from './solar';
+
+/**
+ * How many days ahead getNextAlarmTime searches before giving up
+ * Eight years covers any rule that only matches on leap days
+ */
+const MAX_SEARCH_DAYS = 366 * 8;
 
 /**
  * Parse time string (HH:mm) to hours and minutes
@@ -29,18 +55,195 @@ export function parseTimeString(time: string): { hours: number; minutes: number
 }
 
 /**
- * Check if the alarm time is in the future today
+ * Parse date string (YYYY-MM-DD) to a local date
+ * @param date - Date string in YYYY-MM-DD format
+ * @returns Date at local midnight of that day
+ */
+export function parseDateString(date: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  
+  if (!match) {
+    throw new Error('Invalid date format. Expected YYYY-MM-DD');
+  }
+  
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const result = new Date(year, month, day);
+  
+  // Reject dates that JS silently rolls over, e.g. 2027-02-30
+  if (result.getFullYear() !== year || result.getMonth() !== month || result.getDate() !== day) {
+    throw new Error('Invalid date format. Expected YYYY-MM-DD');
+  }
+  
+  return result;
+}
+
+/**
+ * Format a date as a YYYY-MM-DD string (local calendar day)
+ * @param date - Date object
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function formatDateString(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Validate date string format
+ * @param date - Date string to validate
+ * @returns true if valid YYYY-MM-DD calendar date
+ */
+export function isValidDateString(date: string): boolean {
+  try {
+    parseDateString(date);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a date for display
+ * @param date - Date object
+ * @param now - Reference instant; the year is shown only when it differs
+ * @returns String like "Thu, Nov 14" or "Thu, Jan 2, 2027"
+ */
+export function formatDateLabel(date: Date, now: Date): string {
+  const label = `${NUMBER_TO_WEEKDAY[date.getDay()]}, ${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`;
+  return date.getFullYear() === now.getFullYear() ? label : `${label}, ${date.getFullYear()}`;
+}
+
+/**
+ * Format a date as month and day for display
+ * @param date - Date object
+ * @param now - Reference instant; the year is shown only when it differs
+ * @returns String like "Dec 20" or "Jan 5, 2028"
+ */
+export function formatMonthDay(date: Date, now: Date): string {
+  const label = `${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`;
+  return date.getFullYear() === now.getFullYear() ? label : `${label}, ${date.getFullYear()}`;
+}
+
+/**
+ * Get local midnight of the day containing a date
+ * @param date - Any instant
+ * @returns New Date at 00:00 local time on the same day
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Add whole calendar days to a date
+ * Uses calendar arithmetic so the result stays on local midnight across DST changes
+ * @param date - Local midnight of a day
+ * @param days - Number of days to add (may be negative)
+ * @returns New Date at local midnight of the resulting day
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Combine a day with an HH:mm time
+ * Times skipped or repeated by daylight-saving changes follow the default policies
+ * @param day - Any instant on the target day
  * @param time - Time string in HH:mm format
+ * @returns New Date at that local time on that day
+ */
+export function combineDayAndTime(day: Date, time: string): Date {
+  const { hours, minutes } = parseTimeString(time);
+  
+  // The default gap policy never skips, so this always resolves
+  return resolveWallClockTime(day.getFullYear(), day.getMonth() + 1, day.getDate(), hours, minutes, undefined)!;
+}
+
+/**
+ * Get the calendar day an instant falls on for an alarm
+ * Time-zone-pinned alarms use the calendar of their zone rather than the device's
+ * @param alarm - Alarm object
+ * @param instant - Instant to convert
+ * @returns Local midnight of a Date whose year, month and day are the alarm's calendar day
+ */
+export function getAlarmCalendarDay(alarm: Alarm, instant: Date): Date {
+  if (!alarm.timeZone) {
+    return startOfDay(instant);
+  }
+  
+  const { year, month, day } = getZonedDateParts(instant, alarm.timeZone);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Get the wall-clock time an alarm rings at on a calendar day
+ * Shift rotations take the time of that day's shift; every other alarm uses `alarm.time`
+ * @param alarm - Alarm object
+ * @param day - Calendar day (as returned by getAlarmCalendarDay)
+ * @returns Time string in HH:mm format, or undefined on a rotation's days without an alarm
+ */
+export function getAlarmTimeOnDay(alarm: Alarm, day: Date): string | undefined {
+  if (alarm.recurrence?.type === 'rotation') {
+    return getRotationDayType(alarm.recurrence, day)?.time;
+  }
+  
+  return alarm.time;
+}
+
+/**
+ * Get the instant an alarm rings on a calendar day
+ * Applies the alarm's daylight-saving policies when its time is skipped or repeated that day;
+ * sun-relative alarms ring at that day's computed sunrise/sunset plus their offset instead
+ * @param alarm - Alarm object
+ * @param day - Calendar day (as returned by getAlarmCalendarDay)
+ * @returns Instant at which the alarm's zone shows the alarm time on that day,
+ *          or null if the clocks skip that time and the alarm's gap policy is 'skip'
+ *          (or, for sun-relative alarms, if the sun doesn't rise/set that day;
+ *          or, for shift rotations, if that day's shift has no alarm)
+ */
+export function getOccurrenceTime(alarm: Alarm, day: Date): Date | null {
+  if (alarm.solar) {
+    const { event, latitude, longitude, offsetMinutes } = alarm.solar;
+    const eventTime = getSolarEventTime(
+      day.getFullYear(),
+      day.getMonth() + 1,
+      day.getDate(),
+      latitude,
+      longitude,
+      event
+    );
+    return eventTime && new Date(eventTime.getTime() + offsetMinutes * 60 * 1000);
+  }
+  
+  const time = getAlarmTimeOnDay(alarm, day);
+  if (time === undefined) {
+    return null;
+  }
+  
+  const { hours, minutes } = parseTimeString(time);
+  
+  return resolveWallClockTime(
+    day.getFullYear(),
+    day.getMonth() + 1,
+    day.getDate(),
+    hours,
+    minutes,
+    alarm.timeZone,
+    alarm.dstGapPolicy,
+    alarm.dstOverlapPolicy
+  );
+}
+
+/**
+ * Check if the alarm time is still ahead on the reference day
+ * @param time - Time string in HH:mm format
+ * @param now - Reference instant
  * @returns true if time is in the future today, false otherwise
  */
-export function isAlarmDueToday(time: string): boolean {
+export function isAlarmDueToday(time: string, now: Date): boolean {
   try {
-    const { hours, minutes } = parseTimeString(time);
-    const now = new Date();
-    const alarmTime = new Date(now);
-    alarmTime.setHours(hours, minutes, 0, 0);
-
-    return alarmTime.getTime() > now.getTime();
+    return combineDayAndTime(now, time).getTime() > now.getTime();
   } catch (error) {
     console.error('[timeCalculations] Error checking if alarm is due today:', error);
     return false;
@@ -51,100 +254,864 @@ export function isAlarmDueToday(time: string): boolean {
  * Get the next occurrence of a specific weekday at the given time
  * @param day - WeekDay ('Mon', 'Tue', etc.)
  * @param time - Time string in HH:mm format
+ * @param from - Only occurrences strictly after this instant are considered
  * @returns Date object for next occurrence
  */
-export function getNextWeekdayOccurrence(day: WeekDay, time: string): Date {
-  const { hours, minutes } = parseTimeString(time);
+export function getNextWeekdayOccurrence(day: WeekDay, time: string, from: Date): Date {
   const targetDayNumber = WEEKDAY_TO_NUMBER[day];
   
-  const now = new Date();
-  const currentDayNumber = now.getDay();
+  // Days until target day (0 = today), then roll to next week if today's time has passed
+  const daysUntil = (targetDayNumber - from.getDay() + 7) % 7;
+  const candidate = combineDayAndTime(addDays(startOfDay(from), daysUntil), time);
+  
+  if (candidate.getTime() > from.getTime()) {
+    return candidate;
+  }
+  
+  return combineDayAndTime(addDays(startOfDay(from), daysUntil + 7), time);
+}
+
+/**
+ * Count calendar days from one day to another
+ * Uses UTC day numbers so DST transitions don't skew the count
+ * @param from - Any instant on the first day
+ * @param to - Any instant on the second day
+ * @returns Whole days from `from` to `to` (negative if `to` is earlier)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Get local midnight of the Monday starting the week containing a date
+ * @param date - Any instant
+ * @returns Date at local midnight of that week's Monday
+ */
+export function startOfWeek(date: Date): Date {
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return addDays(startOfDay(date), -daysSinceMonday);
+}
+
+/**
+ * Get the number of days in a month
+ * @param year - Full year
+ * @param month - Month index (0 = January)
+ * @returns Number of days in that month
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Get the shift a rotation has on a given day
+ * @param rule - Rotation rule
+ * @param day - Local midnight of the day to look up
+ * @returns That day's day type, or null before the rotation's anchor date
+ */
+export function getRotationDayType(
+  rule: Extract<RecurrenceRule, { type: 'rotation' }>,
+  day: Date
+): ShiftDayType | null {
+  const elapsed = daysBetween(parseDateString(rule.anchorDate), day);
+  if (elapsed < 0 || rule.cycle.length === 0) {
+    return null;
+  }
   
-  // Calculate days until target day
-  let daysUntil = targetDayNumber - currentDayNumber;
+  return rule.dayTypes[rule.cycle[elapsed % rule.cycle.length]] ?? null;
+}
+
+/**
+ * Check whether a day is a business day
+ * @param day - Local midnight of the day to test
+ * @param workweek - Working days of the week
+ * @param holidays - Dates (YYYY-MM-DD) that are never business days
+ * @returns true if the day is a working day and not a holiday
+ */
+export function isBusinessDay(day: Date, workweek: WeekDay[], holidays: Set<string>): boolean {
+  return workweek.includes(NUMBER_TO_WEEKDAY[day.getDay()]) && !holidays.has(formatDateString(day));
+}
+
+/**
+ * Check whether a monthly/yearly recurrence rule selects a given day
+ * @param rule - Recurrence rule
+ * @param day - Local midnight of the day to test
+ * @param holidays - Dates (YYYY-MM-DD) that are not business days, for business-day rules
+ * @returns true if the rule selects that day
+ */
+export function matchesRecurrenceRule(
+  rule: RecurrenceRule,
+  day: Date,
+  holidays: Set<string> = new Set()
+): boolean {
+  const dayOfMonth = day.getDate();
+  const daysInMonth = getDaysInMonth(day.getFullYear(), day.getMonth());
   
-  // If target day is today, check if time has passed
-  if (daysUntil === 0) {
-    const alarmTime = new Date(now);
-    alarmTime.setHours(hours, minutes, 0, 0);
+  switch (rule.type) {
+    case 'monthly-day':
+      return dayOfMonth === rule.dayOfMonth;
     
-    if (alarmTime.getTime() > now.getTime()) {
-      // Time hasn't passed yet today
-      return alarmTime;
-    } else {
-      // Time has passed, schedule for next week
-      daysUntil = 7;
+    case 'monthly-last-day':
+      return dayOfMonth === daysInMonth;
+    
+    case 'monthly-weekday':
+      if (day.getDay() !== WEEKDAY_TO_NUMBER[rule.weekday]) {
+        return false;
+      }
+      return rule.ordinal === -1
+        ? dayOfMonth + 7 > daysInMonth
+        : Math.ceil(dayOfMonth / 7) === rule.ordinal;
+    
+    case 'yearly':
+      return day.getMonth() === rule.month - 1 && dayOfMonth === rule.dayOfMonth;
+    
+    case 'interval-days': {
+      const elapsed = daysBetween(parseDateString(rule.anchorDate), day);
+      return elapsed >= 0 && elapsed % rule.interval === 0;
+    }
+    
+    case 'interval-weeks': {
+      const anchor = parseDateString(rule.anchorDate);
+      if (daysBetween(anchor, day) < 0 || !rule.weekdays.includes(NUMBER_TO_WEEKDAY[day.getDay()])) {
+        return false;
+      }
+      const elapsedWeeks = daysBetween(startOfWeek(anchor), startOfWeek(day)) / 7;
+      return elapsedWeeks % rule.interval === 0;
     }
-  } else if (daysUntil < 0) {
-    // Target day is earlier in the week, add 7 days
-    daysUntil += 7;
+    
+    case 'rotation':
+      return getRotationDayType(rule, day)?.time !== undefined;
+    
+    case 'business-days':
+      return isBusinessDay(day, rule.workweek, holidays);
+    
+    case 'business-day-of-month': {
+      if (!isBusinessDay(day, rule.workweek, holidays)) {
+        return false;
+      }
+      
+      // Count business days before (or, for the last one, after) this one in the month
+      const step = rule.ordinal === -1 ? 1 : -1;
+      let others = 0;
+      for (let d = dayOfMonth + step; d >= 1 && d <= daysInMonth; d += step) {
+        if (isBusinessDay(new Date(day.getFullYear(), day.getMonth(), d), rule.workweek, holidays)) {
+          others++;
+        }
+      }
+      return rule.ordinal === -1 ? others === 0 : others === rule.ordinal - 1;
+    }
+  }
+}
+
+/**
+ * Format a number as an English ordinal
+ * @param n - Positive integer
+ * @returns String like "1st", "2nd", "23rd", "11th"
+ */
+export function formatOrdinal(n: number): string {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${n}th`;
   }
   
-  // Create date for next occurrence
-  const nextDate = new Date(now);
-  nextDate.setDate(now.getDate() + daysUntil);
-  nextDate.setHours(hours, minutes, 0, 0);
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+/**
+ * Format a weekday ordinal for display
+ * @param ordinal - Weekday ordinal (-1 = last)
+ * @returns String like "2nd" or "last"
+ */
+export function formatWeekdayOrdinal(ordinal: WeekdayOrdinal): string {
+  return ordinal === -1 ? 'last' : formatOrdinal(ordinal);
+}
+
+/**
+ * Get a human-readable description of a recurrence rule
+ * @param rule - Recurrence rule
+ * @returns String like "Monthly on the 1st", "Yearly on Mar 3", "Every 2 weeks on Mon"
+ *          or "Monthly on the last business day"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'monthly-day':
+      return `Monthly on the ${formatOrdinal(rule.dayOfMonth)}`;
+    case 'monthly-last-day':
+      return 'Monthly on the last day';
+    case 'monthly-weekday':
+      return `Monthly on the ${formatWeekdayOrdinal(rule.ordinal)} ${rule.weekday}`;
+    case 'yearly':
+      return `Yearly on ${MONTH_NAMES[rule.month - 1]} ${rule.dayOfMonth}`;
+    case 'interval-days':
+      return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+    case 'interval-weeks': {
+      const days = WEEK_DAYS.filter(day => rule.weekdays.includes(day)).join(', ');
+      const cadence = rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`;
+      return days ? `${cadence} on ${days}` : cadence;
+    }
+    case 'rotation': {
+      // Collapse the cycle into runs, e.g. "2 Day, 2 Night, 4 Off"
+      const runs: { name: string; length: number }[] = [];
+      for (const index of rule.cycle) {
+        const name = rule.dayTypes[index]?.name ?? '?';
+        const last = runs[runs.length - 1];
+        if (last && last.name === name) {
+          last.length++;
+        } else {
+          runs.push({ name, length: 1 });
+        }
+      }
+      return `${rule.cycle.length}-day rotation: ${runs.map(run => `${run.length} ${run.name}`).join(', ')}`;
+    }
+    case 'business-days':
+      return `Business days (${WEEK_DAYS.filter(day => rule.workweek.includes(day)).join(', ')})`;
+    case 'business-day-of-month':
+      return `Monthly on the ${formatWeekdayOrdinal(rule.ordinal)} business day`;
+  }
+}
+
+/**
+ * Check whether an alarm's recurrence rule selects a given day
+ * Undated one-time alarms match every day, so their next occurrence is the first one ahead
+ * @param alarm - Alarm object
+ * @param day - Local midnight of the day to test
+ * @param holidays - Dates (YYYY-MM-DD) that are not business days, for business-day rules
+ * @returns true if the alarm rings on that day
+ */
+export function occursOnDay(alarm: Alarm, day: Date, holidays: Set<string> = new Set()): boolean {
+  if (!isRepeatingAlarm(alarm)) {
+    return alarm.date === undefined || alarm.date === formatDateString(day);
+  }
+  
+  if (alarm.recurrence) {
+    return matchesRecurrenceRule(alarm.recurrence, day, holidays);
+  }
   
-  return nextDate;
+  return alarm.repeats.includes(NUMBER_TO_WEEKDAY[day.getDay()]);
 }
 
 /**
- * Calculate the next trigger time for an alarm
- * Handles both one-time and repeating alarms
+ * Check whether a skip or pause suppresses a repeating alarm's occurrence on a given day
  * @param alarm - Alarm object
- * @returns Date object representing next trigger time
+ * @param day - Local midnight of the day to test
+ * @returns true if the occurrence on that day must not ring
  */
-export function getNextAlarmTime(alarm: Alarm): Date {
-  const { time, repeats } = alarm;
-  const { hours, minutes } = parseTimeString(time);
+export function isOccurrenceSuspended(alarm: Alarm, day: Date): boolean {
+  if (!isRepeatingAlarm(alarm)) {
+    return false;
+  }
+  
+  const dateString = formatDateString(day);
+  
+  if (alarm.skippedDates?.includes(dateString)) {
+    return true;
+  }
+  
+  return alarm.pausedUntil !== undefined && dateString < alarm.pausedUntil;
+}
+
+/**
+ * Check whether an alarm has a skip or pause that still affects future occurrences
+ * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @returns true if a skipped date is today or later, or the pause runs past today
+ */
+export function isAlarmSuspended(alarm: Alarm, now: Date): boolean {
+  const today = formatDateString(now);
+  
+  return (
+    (alarm.skippedDates ?? []).some(date => date >= today) ||
+    (alarm.pausedUntil !== undefined && alarm.pausedUntil > today)
+  );
+}
+
+/**
+ * Get a human-readable description of an alarm's skip or pause
+ * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @returns String like "Paused until Mon, Nov 2", "Skipping Thu, Oct 22" or "Skipping Thu, Oct 22 and 1 more",
+ *   or null if not suspended
+ */
+export function describeAlarmSuspension(alarm: Alarm, now: Date): string | null {
+  const today = formatDateString(now);
+  
+  if (alarm.pausedUntil !== undefined && alarm.pausedUntil > today) {
+    return `Paused until ${formatDateLabel(parseDateString(alarm.pausedUntil), now)}`;
+  }
+  
+  const upcomingSkips = (alarm.skippedDates ?? []).filter(date => date >= today).sort();
+  if (upcomingSkips.length > 0) {
+    const first = `Skipping ${formatDateLabel(parseDateString(upcomingSkips[0]), now)}`;
+    return upcomingSkips.length === 1 ? first : `${first} and ${upcomingSkips.length - 1} more`;
+  }
   
-  // Handle non-repeating alarms
-  if (repeats.length === 0) {
-    const now = new Date();
-    const alarmTime = new Date(now);
-    alarmTime.setHours(hours, minutes, 0, 0);
+  return null;
+}
+
+/**
+ * Describe a repeating alarm's active date range
+ * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @returns String like "starts Jan 5 · ends Dec 20", "ends Dec 20" or "ended Dec 20",
+ *          or null if the alarm has no range
+ */
+export function describeActiveRange(alarm: Alarm, now: Date): string | null {
+  if (!isRepeatingAlarm(alarm)) {
+    return null;
+  }
+  
+  const today = formatDateString(now);
+  const parts: string[] = [];
+  
+  if (alarm.activeFrom !== undefined && alarm.activeFrom > today) {
+    parts.push(`starts ${formatMonthDay(parseDateString(alarm.activeFrom), now)}`);
+  }
+  
+  if (alarm.activeUntil !== undefined) {
+    const until = formatMonthDay(parseDateString(alarm.activeUntil), now);
+    parts.push(alarm.activeUntil < today ? `ended ${until}` : `ends ${until}`);
+  }
+  
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Collect the exception dates a repeating alarm skips
+ * @param alarm - Alarm object
+ * @param exceptionLists - All exception-date lists; only those the alarm opted into apply
+ * @returns Set of YYYY-MM-DD dates the alarm doesn't ring on
+ */
+export function getExceptionDates(alarm: Alarm, exceptionLists: ExceptionDateList[]): Set<string> {
+  const listIds = alarm.exceptionListIds ?? [];
+  
+  if (!isRepeatingAlarm(alarm) || listIds.length === 0) {
+    return new Set();
+  }
+  
+  return new Set(
+    exceptionLists
+      .filter(list => listIds.includes(list.id))
+      .flatMap(list => list.dates)
+  );
+}
+
+/**
+ * Find when the quiet-hours window containing an instant ends
+ * Windows start on the listed weekdays (device-local) and run past midnight when
+ * their end is not after their start.
+ * @param quietHours - Quiet-hours settings
+ * @param instant - Instant to check
+ * @returns End of the window, or null if the instant is outside quiet hours
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, instant: Date): Date | null {
+  const today = startOfDay(instant);
+  
+  // The window that started yesterday evening may still be running
+  for (const day of [addDays(today, -1), today]) {
+    if (!quietHours.days.includes(NUMBER_TO_WEEKDAY[day.getDay()])) {
+      continue;
+    }
     
-    // If time is in the future today, schedule for today
-    if (alarmTime.getTime() > now.getTime()) {
-      return alarmTime;
+    const start = combineDayAndTime(day, quietHours.start);
+    let end = combineDayAndTime(day, quietHours.end);
+    if (end.getTime() <= start.getTime()) {
+      end = combineDayAndTime(addDays(day, 1), quietHours.end);
     }
     
-    // Otherwise, schedule for tomorrow
-    alarmTime.setDate(alarmTime.getDate() + 1);
-    return alarmTime;
+    if (instant.getTime() >= start.getTime() && instant.getTime() < end.getTime()) {
+      return end;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Move a ring out of quiet hours
+ * Critical alarms ring through quiet hours untouched.
+ * @param alarm - Alarm object
+ * @param trigger - Instant the occurrence would ring
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns The instant it actually rings (the window's end when deferred), or null if suppressed
+ */
+export function applyQuietHours(alarm: Alarm, trigger: Date, quietHours?: QuietHours): Date | null {
+  if (!quietHours || alarm.isCritical) {
+    return trigger;
   }
   
-  // Handle repeating alarms
-  const now = new Date();
-  const currentDayNumber = now.getDay();
-  const currentDayName = NUMBER_TO_WEEKDAY[currentDayNumber];
+  const end = getQuietHoursEnd(quietHours, trigger);
+  if (!end) {
+    return trigger;
+  }
   
-  // Check if alarm repeats today and time is in the future
-  if (repeats.includes(currentDayName)) {
-    const todayAlarmTime = new Date(now);
-    todayAlarmTime.setHours(hours, minutes, 0, 0);
+  return quietHours.mode === 'defer' ? end : null;
+}
+
+/**
+ * Get the calendar day of the occurrence a ring belongs to
+ * Usually the day the ring falls on, but a ring deferred by quiet hours or a
+ * sun-relative ring pushed past midnight belongs to the day before. Skips and
+ * heads-ups refer to this day, not the ring's.
+ * @param alarm - Alarm object
+ * @param ring - Instant the alarm rings (as returned by findNextAlarmTime)
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns Local midnight of a Date whose year, month and day are the occurrence's calendar day
+ */
+export function getOccurrenceDay(alarm: Alarm, ring: Date, quietHours?: QuietHours): Date {
+  if (!isRepeatingAlarm(alarm) && alarm.date !== undefined) {
+    return parseDateString(alarm.date);
+  }
+  
+  const day = getAlarmCalendarDay(alarm, ring);
+  // findNextAlarmTime tries the earlier day first, so a ring both days share is the earlier day's
+  const dayBefore = addDays(day, -1);
+  if (!occursOnDay(alarm, dayBefore) || isOccurrenceSuspended(alarm, dayBefore)) {
+    return day;
+  }
+  
+  const candidate = getOccurrenceTime(alarm, dayBefore);
+  const ringTheDayBefore = candidate && applyQuietHours(alarm, candidate, quietHours);
+  return ringTheDayBefore && ringTheDayBefore.getTime() === ring.getTime() ? dayBefore : day;
+}
+
+/**
+ * Find the next trigger time for an alarm
+ * Walks forward day by day from the reference instant and returns the first day
+ * selected by the alarm's recurrence, inside its active date range, and not
+ * skipped, paused or listed as an exception date, whose trigger is strictly after
+ * `from`. Days are calendar days of the alarm's time zone when it is pinned to
+ * one. Each day yields at most one
+ * trigger: daylight-saving gaps and overlaps are resolved by the alarm's policies,
+ * so a repeated time never rings twice and a skipped time is never silently lost.
+ * Rings inside quiet hours are deferred or dropped unless the alarm is critical.
+ * Pure: the result depends only on the alarm, `from`, the exception lists and quiet hours.
+ * @param alarm - Alarm object
+ * @param from - Only occurrences strictly after this instant are considered
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns Date of the next trigger, or null if the alarm never rings again
+ * @throws Error if the time is invalid
+ */
+export function findNextAlarmTime(
+  alarm: Alarm,
+  from: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): Date | null {
+  // Validate up front so a bad time fails fast instead of searching the horizon
+  parseTimeString(alarm.time);
+  
+  // A timer rings once, at the end of its countdown, and never while paused
+  if (alarm.timer) {
+    const endsAt = alarm.timer.endsAt ? new Date(alarm.timer.endsAt) : null;
+    return endsAt && endsAt.getTime() > from.getTime() ? endsAt : null;
+  }
+  
+  // A dated one-time alarm has exactly one candidate day
+  if (!isRepeatingAlarm(alarm) && alarm.date !== undefined) {
+    const candidate = getOccurrenceTime(alarm, parseDateString(alarm.date));
+    const ring = candidate && applyQuietHours(alarm, candidate, quietHours);
+    return ring && ring.getTime() > from.getTime() ? ring : null;
+  }
+  
+  const exceptionDates = getExceptionDates(alarm, exceptionLists);
+  let day = getAlarmCalendarDay(alarm, from);
+  
+  // A ring can land on the day after its occurrence: a sun-relative one past midnight
+  // (a late sunset plus an offset, or a location far from the device's zone), or one
+  // deferred by quiet hours
+  if (alarm.solar || quietHours) {
+    day = addDays(day, -1);
+  }
+  
+  // Repeating alarms only ring inside their active date range
+  const activeFrom = isRepeatingAlarm(alarm) ? alarm.activeFrom : undefined;
+  const activeUntil = isRepeatingAlarm(alarm) ? alarm.activeUntil : undefined;
+  if (activeFrom !== undefined && formatDateString(day) < activeFrom) {
+    day = parseDateString(activeFrom);
+  }
+  
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++, day = addDays(day, 1)) {
+    if (activeUntil !== undefined && formatDateString(day) > activeUntil) {
+      break;
+    }
+    
+    // Holidays also decide which day counts as e.g. the first business day of a month
+    if (!occursOnDay(alarm, day, exceptionDates) || isOccurrenceSuspended(alarm, day)) {
+      continue;
+    }
+    
+    if (exceptionDates.has(formatDateString(day))) {
+      continue;
+    }
     
-    if (todayAlarmTime.getTime() > now.getTime()) {
-      return todayAlarmTime;
+    const candidate = getOccurrenceTime(alarm, day);
+    const ring = candidate && applyQuietHours(alarm, candidate, quietHours);
+    if (ring && ring.getTime() > from.getTime()) {
+      return ring;
     }
   }
   
-  // Find the next day in the repeats array
-  let nextOccurrence: Date | null = null;
+  return null;
+}
+
+/**
+ * Calculate the next trigger time for an alarm
+ * @param alarm - Alarm object
+ * @param from - Only occurrences strictly after this instant are considered
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns Date object representing next trigger time
+ * @throws Error if the time is invalid or the alarm never rings again
+ */
+export function getNextAlarmTime(
+  alarm: Alarm,
+  from: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): Date {
+  const next = findNextAlarmTime(alarm, from, exceptionLists, quietHours);
+  
+  if (!next) {
+    throw new Error('Failed to calculate next alarm time');
+  }
+  
+  return next;
+}
+
+/**
+ * Check whether an alarm can never ring again (e.g. a dated alarm whose time has passed)
+ * Paused timers are not expired: they ring once resumed.
+ * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns true if the alarm has no future occurrence
+ */
+export function isAlarmExpired(
+  alarm: Alarm,
+  now: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): boolean {
+  if (isTimerPaused(alarm)) {
+    return false;
+  }
+  
+  try {
+    return findNextAlarmTime(alarm, now, exceptionLists, quietHours) === null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether an alarm is a countdown timer
+ * @param alarm - Alarm object
+ * @returns true if the alarm rings at the end of a countdown
+ */
+export function isTimer(alarm: Alarm): boolean {
+  return alarm.timer !== undefined;
+}
+
+/**
+ * Check whether an alarm is a paused countdown timer
+ * @param alarm - Alarm object
+ * @returns true if the timer's countdown is stopped
+ */
+export function isTimerPaused(alarm: Alarm): boolean {
+  return alarm.timer !== undefined && alarm.timer.endsAt === undefined;
+}
+
+/**
+ * Get the time left on a countdown timer
+ * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @returns Milliseconds left (0 for alarms that aren't timers and for finished timers)
+ */
+export function getTimerRemainingMs(alarm: Alarm, now: Date): number {
+  if (!alarm.timer) {
+    return 0;
+  }
+  
+  if (alarm.timer.endsAt === undefined) {
+    return (alarm.timer.remainingSeconds ?? 0) * 1000;
+  }
+  
+  return Math.max(0, new Date(alarm.timer.endsAt).getTime() - now.getTime());
+}
+
+/**
+ * Format a countdown for display
+ * @param ms - Milliseconds left
+ * @returns "M:SS", or "H:MM:SS" from an hour up (partial seconds round up)
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
   
-  for (const day of repeats) {
-    const occurrence = getNextWeekdayOccurrence(day, time);
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`;
+  }
+  
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * Format a timer length for display
+ * @param seconds - Duration in seconds
+ * @returns e.g. "25 min", "1 h", "1 h 30 min" or "45 s"
+ */
+export function formatTimerDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} s`;
+  }
+  
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  
+  if (hours === 0) {
+    return `${minutes} min`;
+  }
+  
+  return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`;
+}
+
+/**
+ * Get the length of a snooze, following the alarm's progressive schedule if it has one
+ * @param alarm - Alarm object
+ * @param snoozeNumber - Which snooze of the ring this is (1 for the first)
+ * @returns Snooze length in minutes
+ */
+export function getSnoozeMinutes(alarm: Alarm, snoozeNumber: number): number {
+  const schedule = alarm.snoozeSchedule;
+  
+  if (!schedule || schedule.length === 0) {
+    return alarm.snoozeDuration;
+  }
+  
+  return schedule[Math.min(snoozeNumber, schedule.length) - 1];
+}
+
+/**
+ * Check whether a ring may still be snoozed
+ * @param alarm - Alarm object
+ * @param snoozeCount - Snoozes already taken for this ring
+ * @returns true if snooze is enabled and the alarm's snooze limit isn't reached
+ */
+export function hasSnoozesLeft(alarm: Alarm, snoozeCount: number): boolean {
+  if (!alarm.snoozeEnabled) {
+    return false;
+  }
+  
+  return alarm.snoozeMaxCount === undefined || snoozeCount < alarm.snoozeMaxCount;
+}
+
+/**
+ * Format a snooze length for a notification button
+ * @param minutes - Snooze length in minutes
+ * @returns e.g. "5 min", "1 hour" or "2 hours"
+ */
+export function formatSnoozeOption(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  
+  return formatTimerDuration(minutes * 60);
+}
+
+/**
+ * Describe an alarm's snooze settings for display
+ * @param alarm - Alarm object
+ * @returns e.g. "10 min", "10 → 5 → 3 min" or "10 min, max 3", or null if snooze is off
+ */
+export function formatSnoozeSummary(alarm: Alarm): string | null {
+  if (!alarm.snoozeEnabled) {
+    return null;
+  }
+  
+  const durations = alarm.snoozeSchedule?.length ? alarm.snoozeSchedule : [alarm.snoozeDuration];
+  const summary = `${durations.join(' → ')} min`;
+  
+  return alarm.snoozeMaxCount === undefined ? summary : `${summary}, max ${alarm.snoozeMaxCount}`;
+}
+
+/**
+ * Describe the anchor of a sun-relative alarm
+ * @param solar - Solar anchor
+ * @returns e.g. "30 min before sunrise", "At sunset" or "1 h after sunset"
+ */
+export function describeSolarAnchor(solar: SolarAnchor): string {
+  const { event, offsetMinutes } = solar;
+  
+  if (offsetMinutes === 0) {
+    return `At ${event}`;
+  }
+  
+  const offset = formatTimerDuration(Math.abs(offsetMinutes) * 60);
+  return `${offset} ${offsetMinutes < 0 ? 'before' : 'after'} ${event}`;
+}
+
+/**
+ * Check whether an alarm has more than one occurrence
+ * @param alarm - Alarm object
+ * @returns true if the alarm repeats
+ */
+export function isRepeatingAlarm(alarm: Alarm): boolean {
+  return alarm.recurrence !== undefined || alarm.repeats.length > 0;
+}
+
+/**
+ * Calculate the next `count` trigger times for an alarm, in chronological order
+ * One-time alarms yield at most a single occurrence, and none once they have passed
+ * @param alarm - Alarm object
+ * @param count - Maximum number of occurrences to return
+ * @param from - Only occurrences strictly after this instant are returned
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns Array of Date objects
+ */
+export function getUpcomingOccurrences(
+  alarm: Alarm,
+  count: number,
+  from: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): Date[] {
+  const limit = isRepeatingAlarm(alarm) ? count : Math.min(count, 1);
+  const occurrences: Date[] = [];
+  let cursor = from;
+  
+  while (occurrences.length < limit) {
+    const next = findNextAlarmTime(alarm, cursor, exceptionLists, quietHours);
+    if (!next) {
+      break;
+    }
+    occurrences.push(next);
+    cursor = next;
+  }
+  
+  return occurrences;
+}
+
+/**
+ * Calculate every trigger time of an alarm inside a window, in chronological order
+ * @param alarm - Alarm object
+ * @param from - Only occurrences strictly after this instant are returned
+ * @param until - Only occurrences at or before this instant are returned
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns Array of Date objects
+ */
+export function getOccurrencesBetween(
+  alarm: Alarm,
+  from: Date,
+  until: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = from;
+  
+  while (true) {
+    const next = findNextAlarmTime(alarm, cursor, exceptionLists, quietHours);
+    if (!next || next.getTime() > until.getTime()) {
+      break;
+    }
+    occurrences.push(next);
     
-    if (!nextOccurrence || occurrence.getTime() < nextOccurrence.getTime()) {
-      nextOccurrence = occurrence;
+    if (!isRepeatingAlarm(alarm)) {
+      break;
     }
+    cursor = next;
   }
   
-  if (!nextOccurrence) {
-    throw new Error('Failed to calculate next alarm time');
+  return occurrences;
+}
+
+/**
+ * Find other alarms ringing at, or within a few minutes of, an alarm's occurrences
+ * Disabled alarms and timers are ignored, as is the alarm itself.
+ * @param alarm - Alarm to check
+ * @param others - Alarms to compare against
+ * @param from - Only occurrences strictly after this instant are compared
+ * @param until - Only occurrences at or before this instant are compared
+ * @param windowMinutes - Largest gap that still counts as a conflict
+ * @param exceptionLists - Exception-date lists the alarms may opt into
+ * @param quietHours - Quiet-hours settings, if switched on (rings are compared where they actually land)
+ * @returns One conflict per clashing alarm (its closest, earliest clash), closest first
+ */
+export function findAlarmConflicts(
+  alarm: Alarm,
+  others: Alarm[],
+  from: Date,
+  until: Date,
+  windowMinutes: number,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): AlarmConflict[] {
+  const windowMs = windowMinutes * 60 * 1000;
+  const occurrences = getOccurrencesBetween(alarm, from, until, exceptionLists, quietHours);
+  const conflicts: AlarmConflict[] = [];
+  
+  for (const other of others) {
+    if (other.id === alarm.id || !other.isEnabled || isTimer(other)) {
+      continue;
+    }
+    
+    let closest: AlarmConflict | null = null;
+    for (const otherAt of getOccurrencesBetween(other, from, until, exceptionLists, quietHours)) {
+      for (const at of occurrences) {
+        const gapMs = otherAt.getTime() - at.getTime();
+        if (
+          Math.abs(gapMs) <= windowMs &&
+          (!closest || Math.abs(gapMs) < Math.abs(closest.minutesApart) * 60 * 1000)
+        ) {
+          closest = { alarm: other, at, otherAt, minutesApart: Math.round(gapMs / 60000) };
+        }
+      }
+    }
+    
+    if (closest) {
+      conflicts.push(closest);
+    }
   }
   
-  return nextOccurrence;
+  return conflicts.sort(
+    (a, b) => Math.abs(a.minutesApart) - Math.abs(b.minutesApart) || a.at.getTime() - b.at.getTime()
+  );
+}
+
+/**
+ * Describe a conflict for display
+ * @param conflict - Conflict found by findAlarmConflicts
+ * @param now - Reference instant; the year is shown only when it differs
+ * @returns String like 'Same time as "Work" on Mon, Oct 20 at 07:00' or '10 min before "Gym" on …'
+ */
+export function describeAlarmConflict(conflict: AlarmConflict, now: Date): string {
+  const { alarm, at, minutesApart } = conflict;
+  const when = `on ${formatDateLabel(at, now)} at ${formatAlarmTime(formatDateToTime(at), false)}`;
+  
+  if (minutesApart === 0) {
+    return `Same time as "${alarm.label}" ${when}`;
+  }
+  
+  const relation = minutesApart > 0 ? 'before' : 'after';
+  return `${Math.abs(minutesApart)} min ${relation} "${alarm.label}" ${when}`;
 }
 
 /**
@@ -185,24 +1152,49 @@ export function formatDateToTime(date: Date): string {
 /**
  * Get a human-readable description of when the alarm will trigger
  * @param alarm - Alarm object
- * @returns String like "Today at 7:30 AM" or "Tomorrow at 8:00 PM"
+ * @param now - Reference instant
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
+ * @returns String like "Today at 7:30 AM", "Tomorrow at 8:00 PM" or "Thu, Nov 14 at 6:00 AM"
  */
-export function getAlarmDescription(alarm: Alarm): string {
+export function getAlarmDescription(
+  alarm: Alarm,
+  now: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): string {
   try {
-    const nextTime = getNextAlarmTime(alarm);
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const nextTime = findNextAlarmTime(alarm, now, exceptionLists, quietHours);
+    
+    // Time-zone-pinned alarms are described in device time, so "Today"/"Tomorrow" line up;
+    // sun-relative alarms and shift rotations ring at a different time each day, and
+    // quiet hours may defer a ring to when they end
+    const timeStr = formatAlarmTime(
+      nextTime && (alarm.timeZone || alarm.solar || alarm.recurrence?.type === 'rotation' || quietHours)
+        ? formatDateToTime(nextTime)
+        : alarm.time,
+      false
+    );
+    
+    // Dated alarms whose time has passed are flagged, never rolled forward
+    if (!nextTime) {
+      return alarm.date
+        ? `Passed: ${formatDateLabel(parseDateString(alarm.date), now)} at ${timeStr}`
+        : 'No upcoming occurrence';
+    }
+    
+    const tomorrow = addDays(startOfDay(now), 1);
+    const nextWeek = addDays(startOfDay(now), 7);
     
     const isToday = nextTime.toDateString() === now.toDateString();
     const isTomorrow = nextTime.toDateString() === tomorrow.toDateString();
     
-    const timeStr = formatAlarmTime(alarm.time, false);
-    
     if (isToday) {
       return `Today at ${timeStr}`;
     } else if (isTomorrow) {
       return `Tomorrow at ${timeStr}`;
+    } else if (alarm.date || nextTime.getTime() >= nextWeek.getTime()) {
+      return `${formatDateLabel(nextTime, now)} at ${timeStr}`;
     } else {
       const dayName = NUMBER_TO_WEEKDAY[nextTime.getDay()];
       return `${dayName} at ${timeStr}`;
@@ -216,12 +1208,19 @@ export function getAlarmDescription(alarm: Alarm): string {
 /**
  * Calculate time remaining until alarm triggers
  * @param alarm - Alarm object
+ * @param now - Reference instant
+ * @param exceptionLists - Exception-date lists the alarm may opt into
+ * @param quietHours - Quiet-hours settings, if switched on
  * @returns Object with hours and minutes remaining
  */
-export function getTimeRemaining(alarm: Alarm): { hours: number; minutes: number; total: number } {
+export function getTimeRemaining(
+  alarm: Alarm,
+  now: Date,
+  exceptionLists: ExceptionDateList[] = [],
+  quietHours?: QuietHours
+): { hours: number; minutes: number; total: number } {
   try {
-    const nextTime = getNextAlarmTime(alarm);
-    const now = new Date();
+    const nextTime = getNextAlarmTime(alarm, now, exceptionLists, quietHours);
     const diffMs = nextTime.getTime() - now.getTime();
     
     if (diffMs <= 0) {
@@ -254,10 +1253,11 @@ export function isValidTimeString(time: string): boolean {
 }
 
 /**
- * Get current time as HH:mm string
- * @returns Current time in HH:mm format
+ * Get the reference time as HH:mm string
+ * @param now - Reference instant
+ * @returns Time in HH:mm format
  */
-export function getCurrentTimeString(): string {
-  return formatDateToTime(new Date());
+export function getCurrentTimeString(now: Date): string {
+  return formatDateToTime(now);
 }
 
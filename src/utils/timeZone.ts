@@ -0,0 +1,245 @@
+/**
+ * Time Zone Utility
+ *
+ * Converts between instants and wall-clock times in IANA time zones using Intl,
+ * so alarms can be pinned to a zone (e.g. "9:00 in America/New_York") instead of
+ * following the device, and resolves wall-clock times that daylight-saving
+ * changes skip or repeat according to an explicit policy.
+ *
+ * Reference: Docs/ARCHITECTURE.md - Utility Functions
+ */
+
+import { DstGapPolicy, DstOverlapPolicy } from '../types/alarm.types';
+import { DEFAULT_DST_GAP_POLICY, DEFAULT_DST_OVERLAP_POLICY } from '../constants/alarm.constants';
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+export interface ZonedDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Window either side of a wall-clock time searched for a UTC offset change
+ * Wide enough to see any transition, narrow enough that only one falls inside
+ */
+const TRANSITION_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Cached formatters, one per zone (constructing Intl formatters is slow)
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a numeric formatter for a time zone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Get the device's current IANA time zone
+ * @returns Zone name such as "Europe/London" (falls back to "UTC")
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Check whether a string names a time zone the runtime knows
+ * @param timeZone - Candidate IANA zone name
+ * @returns true if the zone can be used for conversions
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock fields of an instant in a time zone
+ * @param instant - Instant to convert
+ * @param timeZone - IANA zone name
+ * @returns Year, month (1-12), day, hours and minutes in that zone
+ */
+export function getZonedDateParts(instant: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour % 24,
+    minutes: parts.minute,
+  };
+}
+
+/**
+ * Get a zone's offset from UTC at an instant
+ * @param instant - Instant to evaluate
+ * @param timeZone - IANA zone name
+ * @returns Minutes ahead of UTC (e.g. -300 for New York in winter)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hours, minutes } = getZonedDateParts(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+  const instantToMinute = Math.floor(instant.getTime() / 60000) * 60000;
+
+  return Math.round((wallClockAsUtc - instantToMinute) / 60000);
+}
+
+/**
+ * Get the offset from UTC at an instant in a zone, or on the device when no zone is given
+ */
+function getOffsetAt(instant: number, timeZone?: string): number {
+  return timeZone ? getTimeZoneOffset(new Date(instant), timeZone) : -new Date(instant).getTimezoneOffset();
+}
+
+/**
+ * Find the first instant (to the minute) at which the offset has changed
+ * @param before - Instant still on the old offset
+ * @param after - Instant already on the new offset
+ */
+function findOffsetTransition(before: number, after: number, timeZone?: string): number {
+  const oldOffset = getOffsetAt(before, timeZone);
+  let lo = Math.floor(before / 60000);
+  let hi = Math.ceil(after / 60000);
+
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (getOffsetAt(mid * 60000, timeZone) === oldOffset) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return hi * 60000;
+}
+
+/**
+ * Convert a wall-clock time to an instant, applying daylight-saving policies
+ *
+ * Gap (the clocks skip the time, e.g. 02:30 when 02:00 jumps to 03:00):
+ * 'shift-forward' moves it later by the size of the jump (03:30), 'end-of-gap'
+ * returns the moment of the jump (03:00) and 'skip' returns null.
+ *
+ * Overlap (the time happens twice, e.g. 01:30 when 02:00 falls back to 01:00):
+ * 'earlier' returns the first pass and 'later' the second.
+ *
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @param hours - Hours (0-23)
+ * @param minutes - Minutes (0-59)
+ * @param timeZone - IANA zone name, or undefined for the device's zone
+ * @param gapPolicy - Behaviour when the time doesn't exist that day
+ * @param overlapPolicy - Behaviour when the time exists twice that day
+ * @returns The resolved instant, or null if the gap policy skips the day
+ */
+export function resolveWallClockTime(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string | undefined,
+  gapPolicy: DstGapPolicy = DEFAULT_DST_GAP_POLICY,
+  overlapPolicy: DstOverlapPolicy = DEFAULT_DST_OVERLAP_POLICY
+): Date | null {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Offsets in force well before and well after the wall-clock time
+  const offsetBefore = getOffsetAt(wallClockAsUtc - TRANSITION_WINDOW_MS, timeZone);
+  const offsetAfter = getOffsetAt(wallClockAsUtc + TRANSITION_WINDOW_MS, timeZone);
+
+  // Each candidate is only real if its offset actually applies at that instant
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => ({ offset, instant: wallClockAsUtc - offset * 60000 }))
+    .filter(({ offset, instant }) => getOffsetAt(instant, timeZone) === offset)
+    .map(({ instant }) => instant)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    const overlaps = candidates.length === 2 && candidates[0] !== candidates[1];
+    return new Date(overlaps && overlapPolicy === 'later' ? candidates[1] : candidates[0]);
+  }
+
+  // Neither offset yields the time: it falls in a spring-forward gap
+  if (gapPolicy === 'skip') {
+    return null;
+  }
+
+  const shiftedForward = wallClockAsUtc - offsetBefore * 60000;
+  if (gapPolicy === 'shift-forward') {
+    return new Date(shiftedForward);
+  }
+
+  return new Date(findOffsetTransition(wallClockAsUtc - offsetAfter * 60000, shiftedForward, timeZone));
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ * Times skipped or repeated by daylight-saving changes follow the default policies
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @param hours - Hours (0-23)
+ * @param minutes - Minutes (0-59)
+ * @param timeZone - IANA zone name
+ * @returns The instant at which the zone's clocks show that time
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date {
+  // The default gap policy never skips, so this always resolves
+  return resolveWallClockTime(year, month, day, hours, minutes, timeZone)!;
+}
+
+/**
+ * Get a short display name for a time zone
+ * @param timeZone - IANA zone name
+ * @returns City part of the zone, e.g. "New York" for "America/New_York"
+ */
+export function formatTimeZoneName(timeZone: string): string {
+  const city = timeZone.split('/').pop() || timeZone;
+  return city.replace(/_/g, ' ');
+}